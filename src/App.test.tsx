@@ -2,8 +2,12 @@ import React from 'react';
 import { render, screen } from '@testing-library/react';
 import App from './App';
 
-test('renders learn react link', () => {
+// The worker URL (import.meta) only resolves under webpack, so ingest is stubbed here.
+jest.mock('./ingest', () => ({ ingestFiles: jest.fn() }));
+
+test('renders the player with nothing to play yet', () => {
   render(<App />);
-  const linkElement = screen.getByText(/learn react/i);
-  expect(linkElement).toBeInTheDocument();
+  expect(screen.getByRole('heading', { name: /Fragment Player/i })).toBeInTheDocument();
+  expect(screen.getByRole('button', { name: 'Add Fragments' })).toBeEnabled();
+  expect(screen.getByRole('button', { name: 'Play' })).toBeDisabled();
 });
@@ -17,37 +17,317 @@ import {
 } from "@dnd-kit/sortable";
 import { CSS } from "@dnd-kit/utilities";
 import * as MP4Box from "mp4box";
-import { classifyFragment, SafeMSE, probeOrderKey } from "./mergeMP4";
+import {
+  SafeMSE, mergeMP4, checkFormatCompatibility, describeRecovery, type ProbeKind, type PlaybackReport,
+} from "./mergeMP4";
+import { planOrder, type OrderReport } from "./ordering";
+import { transmuxProgressive } from "./transmux";
+import { reassembleSlices } from "./reassemble";
+import { analyzeTimeline } from "./timeline";
+import { ingestFiles, type IngestProgress } from "./ingest";
+import { filesFromDrop } from "./dropFiles";
+import { TimelineView } from "./TimelineView";
+import { ExportDialog } from "./ExportDialog";
+import { SplitDialog, type SplitFile } from "./SplitDialog";
+import { InspectorDialog, type InspectTarget, type TrackSummary } from "./InspectorDialog";
+import { FragmentStrip } from "./FragmentStrip";
+import { fragmentThumbnail } from "./thumbnails";
+import { planTrim, type TrimPlan, type TrimPoints } from "./trim";
+import {
+  isManifestName, parseManifest, manifestOrder, uriBasename, writeHls, writeMpd,
+  type ManifestFile, type PlaylistRun,
+} from "./manifest";
+import { zipStore } from "./zip";
+import { describeSampleEntry } from "./sampleEntry";
+import { detectProtection, normalizeKid, formatKid, type ProtectionInfo } from "./protection";
+import type { ClearKeyPair } from "./clearKey";
+import {
+  headerFingerprint, toProject, parseProject, restoreProject, saveProject, loadProject, clearSavedProject, type Project,
+} from "./project";
+import { assignInits, sequenceRuns, initTrackType } from "./initGroups";
+import { parseBoxTree, readInitInfo, type InitInfo } from "./mp4Boxes";
+import { fragmentStart, planSeams, leadingSamples, applySeamFix, type FragmentStart, type LeadingPolicy } from "./keyframes";
 import "./App.css";
 
 interface Frag {
   id: string;
   file: File;
-  kind: "init" | "media" | "unknown";
+  kind: ProbeKind;
   size: number;
-  buf?: ArrayBuffer;
+  probe: ArrayBuffer;   // header bytes only (see probe.ts); the media stays in `file` until appended
+  trim?: TrimPoints;    // media only; applied when played and when merged
+  label?: string;       // chapter title; the file name when unset
+  derived?: boolean;    // built in this tab (transmuxed / reassembled); not a file on disk
+}
+
+const labelOf = (f: Frag) => f.label?.trim() || f.file.name;
+
+const FALLBACK_MIME = 'video/mp4; codecs="avc1.42E01E,mp4a.40.2"';
+
+// The running playback, for fragments added while it plays.
+interface Session {
+  initBuf: (f: Frag) => Promise<ArrayBuffer>;
+  demuxed: boolean;
+}
+
+// Chapter of the current playback: a fragment's label and its projected span in the player.
+interface ChapterMark {
+  id: string;
+  label: string;
+  start: number;
+  end: number;
+}
+
+// Fragments as GroupItems for init matching / timeline / ordering, keeping the Frag alongside.
+function asItems(frags: Frag[]) {
+  return frags.map(frag => ({ kind: frag.kind as string, buf: frag.probe, name: frag.file.name, size: frag.size, frag }));
+}
+
+// InitInfo each media fragment is read against: its matched init, else the init before it.
+function mediaInitInfos(frags: Frag[]): Map<string, InitInfo> {
+  const assignment = assignInits(asItems(frags));
+  const parsed = new Map<number, InitInfo | undefined>();
+  const out = new Map<string, InitInfo>();
+  let lastInit = -1;
+  frags.forEach((f, i) => {
+    if (f.kind === "init") { lastInit = i; return; }
+    const init = assignment[i] ?? lastInit;
+    if (f.kind !== "media" || init < 0) return;
+    if (!parsed.has(init)) parsed.set(init, readInitInfo(frags[init].probe, parseBoxTree(frags[init].probe).boxes));
+    const info = parsed.get(init);
+    if (info) out.set(f.id, info);
+  });
+  return out;
+}
+
+const secs = (n: number) => `${n.toFixed(2)} s`;
+
+function saveBlob(blob: Blob, name: string) {
+  const url = URL.createObjectURL(blob);
+  const a = document.createElement("a");
+  a.href = url;
+  a.download = name;
+  a.click();
+  setTimeout(() => URL.revokeObjectURL(url), 10000);
+}
+
+// Files in the order a manifest lists them (byte ranges become slices), plus the segment
+// durations it declares. Listed files that weren't selected are reported, unlisted ones go last.
+async function orderFromManifest(manifest: File, files: File[]) {
+  const tracks = parseManifest(manifest.name, await manifest.text());
+  const byName = new Map(files.map(f => [f.name, f]));
+  const entries = manifestOrder(tracks, new Set(byName.keys()));
+  const ordered: File[] = [];
+  const seconds = new Map<File, number>();
+  const missing: string[] = [];
+  const used = new Set<File>();
+  for (const e of entries) {
+    const file = byName.get(uriBasename(e.uri));
+    if (!file) { missing.push(uriBasename(e.uri)); continue; }
+    used.add(file);
+    const piece = e.range
+      ? new File([file.slice(e.range.offset, e.range.offset + e.range.length)], `${file.name}@${e.range.offset}`, { type: file.type })
+      : file;
+    if (e.seconds !== undefined) seconds.set(piece, e.seconds);
+    ordered.push(piece);
+  }
+  const unlisted = files.filter(f => !used.has(f));
+  return { files: [...ordered, ...unlisted], seconds, missing: Array.from(new Set(missing)), unlisted };
+}
+
+interface TrimControls {
+  plan?: TrimPlan;
+  onChange: (trim: TrimPoints | undefined) => void;
+  onMark: (which: "in" | "out") => void;
+}
+
+function TrimEditor({ trim, plan, onChange, onMark }: TrimControls & { trim?: TrimPoints }) {
+  const field = (which: "in" | "out") => (
+    <label>
+      {which === "in" ? "In" : "Out"}
+      <input
+        type="number"
+        min={0}
+        step={0.1}
+        value={trim?.[which] ?? ""}
+        placeholder={which === "in" ? "0" : plan ? plan.duration.toFixed(2) : "end"}
+        onChange={e => onChange({ ...trim, [which]: e.target.value === "" ? undefined : Number(e.target.value) })}
+      />
+      <button className="secondary" onClick={() => onMark(which)} title={`Set the ${which} point to the current video time`}>Mark</button>
+    </label>
+  );
+  return (
+    // Keep drags and keyboard sorting from starting inside the controls.
+    <div className="trim-editor" onPointerDown={e => e.stopPropagation()} onKeyDown={e => e.stopPropagation()}>
+      {field("in")}
+      {field("out")}
+      <button className="secondary" disabled={!trim} onClick={() => onChange(undefined)}>Reset</button>
+      {plan && (
+        <span className={plan.snapped ? "trim-note snapped" : "trim-note"}>
+          Keeps {secs(plan.in)}–{secs(plan.out)} of {secs(plan.duration)}
+          {plan.snapped && <> · in-point moved back to the keyframe at {secs(plan.in)} (asked {secs(trim?.in ?? 0)})</>}
+          {plan.keyframes.length > 0 && <> · keyframes: {plan.keyframes.map(k => k.toFixed(2)).join(", ")}</>}
+        </span>
+      )}
+    </div>
+  );
+}
+
+function protectionBadge(p: ProtectionInfo): string {
+  const what = [...p.schemes, ...p.systems].join(", ");
+  return what ? `🔒 ${what}` : "🔒 encrypted samples";
 }
 
-function SortableItem({ id, file, index }: { id: string; file: File; index: number }) {
+function SortableItem({ id, file, index, group, trim, editable, label, onLabel, protection, start, atSeam, playing, onSeek, onInspect, ...controls }: {
+  id: string; file: File; index: number; group?: number; trim?: TrimPoints; editable: boolean;
+  label?: string; onLabel: (label: string) => void; protection?: ProtectionInfo | null;
+  start?: FragmentStart; atSeam: boolean;
+  playing: boolean; onSeek?: () => void; onInspect: () => void;
+} & TrimControls) {
   // Entire row is draggable
   const { attributes, listeners, setNodeRef, transform, transition } = useSortable({ id });
+  const [editing, setEditing] = useState(false);
+  const rowRef = useRef<HTMLDivElement | null>(null);
+  // Follows playback: the playing row is kept in view.
+  useEffect(() => {
+    if (playing) rowRef.current?.scrollIntoView?.({ block: "nearest" });
+  }, [playing]);
   const style = { transform: CSS.Transform.toString(transform), transition };
   return (
-    <div ref={setNodeRef} style={style} className="file-item" {...attributes} {...listeners}>
-      <span>{index + 1}. {file.name} ({(file.size / 1024 / 1024).toFixed(2)} MB)</span>
+    <div
+      ref={node => { setNodeRef(node); rowRef.current = node; }}
+      data-frag-id={id}
+      style={style}
+      className={playing ? "file-item playing" : "file-item"}
+      onDoubleClick={onSeek}
+      title={onSeek ? "Double-click to play from here" : undefined}
+      {...attributes}
+      {...listeners}
+    >
+      <div className="file-row">
+        {group !== undefined && (
+          <span className={`group-badge g${(group - 1) % 6}`} title="Init group this fragment plays against">G{group}</span>
+        )}
+        <span>{index + 1}. {file.name} ({(file.size / 1024 / 1024).toFixed(2)} MB)</span>
+        {protection && (
+          <span className="lock-badge" title={protection.kids.length ? `Key IDs: ${protection.kids.map(formatKid).join(", ")}` : undefined}>
+            {protectionBadge(protection)}
+          </span>
+        )}
+        {start && start.leading > 0 && (
+          <span
+            className={atSeam ? "keyframe-badge seam" : "keyframe-badge"}
+            title={atSeam
+              ? protection
+                ? "Doesn't follow the fragment it continues: these samples decode as corrupt frames. Encrypted, so they are left in (cutting would lose the sample encryption data)"
+                : "Doesn't follow the fragment it continues: these samples decode as corrupt frames (see Leading non-keyframes)"
+              : "Plays right after the fragment it continues, so these samples decode"}
+          >
+            {atSeam ? "⚠ " : ""}{start.keyframe === undefined ? "no keyframe" : `starts ${start.leading} sample(s) before a keyframe`}
+          </span>
+        )}
+        {editable && (
+          <input
+            className="label-input"
+            value={label ?? ""}
+            placeholder={file.name}
+            title="Chapter title for this fragment"
+            onChange={e => onLabel(e.target.value)}
+            onPointerDown={e => e.stopPropagation()}
+            onKeyDown={e => e.stopPropagation()}
+          />
+        )}
+        {trim && !protection && controls.plan && <span className="trim-badge">✂ {secs(controls.plan.in)}–{secs(controls.plan.out)}</span>}
+        {editable && (
+          <button
+            className="secondary trim-toggle"
+            disabled={!!protection}
+            onPointerDown={e => e.stopPropagation()}
+            onClick={() => setEditing(v => !v)}
+            title={protection
+              ? "Encrypted fragments can't be trimmed: their sample encryption data (senc / saiz / saio) isn't rewritten"
+              : "Set in/out points for this fragment; the in-point moves back to a keyframe"}
+          >
+            {editing ? "Done" : "Trim"}
+          </button>
+        )}
+        {editable && protection && <span className="trim-note">no trim (encrypted)</span>}
+        <button
+          className="secondary inspect-toggle"
+          onPointerDown={e => e.stopPropagation()}
+          onClick={onInspect}
+          title="Show this file's boxes, sample tables and bytes"
+        >
+          Inspect
+        </button>
+      </div>
+      {editing && <TrimEditor trim={trim} {...controls} />}
     </div>
   );
 }
 
-async function extractCodecsFromInit(initSegment: ArrayBuffer): Promise<string | null> {
+// Why auto-order put fragments where it did; only the placements worth a second look are listed.
+function OrderReportView({ report }: { report: OrderReport<Frag> }) {
+  const media = report.placements.filter(p => p.item.kind !== "init");
+  const average = media.length ? media.reduce((n, p) => n + p.confidence, 0) / media.length : 1;
+  const doubtful = media.filter(p => p.confidence < 0.9);
+  const pct = (c: number) => `${Math.round(c * 100)}%`;
+  return (
+    <div className="order-report">
+      <h3>Auto-order report</h3>
+      <p className="muted">
+        {media.length} fragment(s) placed, average confidence {pct(average)}
+        {report.duplicates.length > 0 && `; ${report.duplicates.length} duplicate(s) left out`}
+        {report.unplaced.length > 0 && `; ${report.unplaced.length} could not be placed`}.
+      </p>
+      {report.notes.length > 0 && <ul>{report.notes.map((n, i) => <li key={i}>{n}</li>)}</ul>}
+      {doubtful.length > 0 && (
+        <ul>
+          {doubtful.map(p => (
+            <li key={p.item.id}><span className="confidence">{pct(p.confidence)}</span> {p.item.file.name}: {p.reason}</li>
+          ))}
+        </ul>
+      )}
+      {report.duplicates.length > 0 && (
+        <ul>{report.duplicates.map(d => <li key={d.item.id}>{d.item.file.name}: {d.reason} as {d.of.file.name}</li>)}</ul>
+      )}
+    </div>
+  );
+}
+
+// What became of each fragment in the last playback; fragments that played cleanly are only counted.
+function PlaybackReportView({ report }: { report: PlaybackReport }) {
+  const count = (o: string) => report.fragments.filter(f => f.outcome === o).length;
+  const troubled = report.fragments.filter(f => f.outcome === "recovered" || f.outcome === "skipped");
+  return (
+    <div className="order-report playback-report">
+      <h3>Playback report</h3>
+      <p className="muted">
+        {count("played")} played, {count("recovered")} recovered, {count("skipped")} skipped
+        {count("pending") > 0 && `, ${count("pending")} not reached`}
+        {report.rebuilds > 0 && `; player rebuilt ${report.rebuilds} time(s)`}.
+      </p>
+      {troubled.length > 0 && (
+        <ul>
+          {troubled.map(f => (
+            <li key={`${f.track}-${f.index}`}>
+              <span className={f.outcome === "skipped" ? "report-skipped" : "report-recovered"}>{f.outcome}</span>{" "}
+              {f.label || `Fragment ${f.index + 1}`}{f.track !== "muxed" && ` (${f.track})`}: {f.failures.join(", ")}
+            </li>
+          ))}
+        </ul>
+      )}
+    </div>
+  );
+}
+
+// mp4box's onReady info for an init segment (tracks with codec, timescale, size...), or null.
+function mp4boxInfo(initSegment: ArrayBuffer): Promise<any | null> {
   return new Promise((resolve) => {
     try {
       const mp4file = MP4Box.createFile();
-      mp4file.onReady = (info: any) => {
-        const codecs: string[] = [];
-        info?.tracks?.forEach((t: any) => { if (t?.codec) codecs.push(t.codec); });
-        resolve(codecs.length ? `video/mp4; codecs="${codecs.join(",")}"` : null);
-      };
+      mp4file.onReady = (info: any) => resolve(info ?? null);
+      mp4file.onError = () => resolve(null);
       const buf = initSegment as any;
       buf.fileStart = 0;
       mp4file.appendBuffer(buf);
@@ -58,6 +338,43 @@ async function extractCodecsFromInit(initSegment: ArrayBuffer): Promise<string |
   });
 }
 
+async function extractCodecsFromInit(initSegment: ArrayBuffer): Promise<string | null> {
+  // Protected entries report their wrapper (encv/enca); the SourceBuffer needs the original codec.
+  const entries = readInitInfo(initSegment, parseBoxTree(initSegment).boxes)?.tracks
+    .map(t => (t.sampleEntries[0] ? describeSampleEntry(initSegment, t.sampleEntries[0]) : undefined));
+  const info = await mp4boxInfo(initSegment);
+  const codecs: string[] = [];
+  info?.tracks?.forEach((t: any, i: number) => {
+    const codec = entries?.[i]?.encrypted ? entries[i]!.codec : t?.codec;
+    if (codec) codecs.push(codec);
+  });
+  // Audio-only inits (demuxed CMAF audio) need an audio/* SourceBuffer
+  const container = info?.videoTracks?.length || !info?.audioTracks?.length ? "video/mp4" : "audio/mp4";
+  return codecs.length ? `${container}; codecs="${codecs.join(",")}"` : null;
+}
+
+// Init track details for the inspector, from the same mp4box info.
+async function trackSummaries(initSegment: ArrayBuffer): Promise<TrackSummary[]> {
+  const info = await mp4boxInfo(initSegment);
+  return (info?.tracks ?? []).map((t: any): TrackSummary => ({
+    id: t.id,
+    kind: t.type ?? (t.video ? "video" : t.audio ? "audio" : "other"),
+    codec: t.codec ?? "?",
+    timescale: t.timescale,
+    duration: t.timescale && t.duration ? t.duration / t.timescale : undefined,
+    samples: t.nb_samples || undefined,
+    bitrate: t.bitrate || undefined,
+    width: t.video?.width ?? t.track_width,
+    height: t.video?.height ?? t.track_height,
+    sampleRate: t.audio?.sample_rate,
+    channels: t.audio?.channel_count,
+    language: t.language,
+  }));
+}
+
+// Whole files up to this size are read for the inspector; larger ones show their probe bytes.
+const INSPECT_FULL_BYTES = 64 * 1024 * 1024;
+
 function App() {
   const [frags, setFrags] = useState<Frag[]>([]);
   const [error, setError] = useState<string>("");
@@ -65,14 +382,42 @@ function App() {
   const [toasts, setToasts] = useState<string[]>([]);
   const [isPlaying, setIsPlaying] = useState(false);
   const [nowPlaying, setNowPlaying] = useState<string>("");
+  const [playReport, setPlayReport] = useState<PlaybackReport | null>(null);
+  // Live: the stream stays open for files added while playing, until Finalize.
+  const [live, setLive] = useState(false);
+  const [finalized, setFinalized] = useState(true);
+  const sessionRef = useRef<Session | null>(null);
 
   const fileInputRef = useRef<HTMLInputElement>(null);
   const videoRef = useRef<HTMLVideoElement>(null);
   const mseRef = useRef<SafeMSE | null>(null);
   const downloadUrlRef = useRef<string | null>(null);
+  const [downloadUrl, setDownloadUrl] = useState<string | null>(null);
+  const [withIndex, setWithIndex] = useState(true);
+  const [withChapters, setWithChapters] = useState(true);
+  const [withZip, setWithZip] = useState(false);
+  const [leading, setLeading] = useState<LeadingPolicy>("keep");
+  const [keys, setKeys] = useState<Record<string, string>>({});
+  const [packing, setPacking] = useState(false);
+  const [chapters, setChapters] = useState<ChapterMark[]>([]);
+  const [playingId, setPlayingId] = useState<string | null>(null);
+  // First-frame thumbnails by fragment id; built in the background while playing.
+  const [thumbs, setThumbs] = useState<Record<string, string>>({});
+  const thumbRunRef = useRef(0);
+  const [building, setBuilding] = useState(false);
+  const [exporting, setExporting] = useState(false);
+  const [inspecting, setInspecting] = useState<InspectTarget | null>(null);
+  const [splitting, setSplitting] = useState(false);
+  const [ingest, setIngest] = useState<IngestProgress | null>(null);
 
   const [autoMode, setAutoMode] = useState(false);
   const prevFragsRef = useRef<Frag[] | null>(null);
+  const [orderReport, setOrderReport] = useState<OrderReport<Frag> | null>(null);
+  // Last saved project, until its files are added again (or it's discarded).
+  const [savedProject, setSavedProject] = useState<Project | null>(null);
+  const projectInputRef = useRef<HTMLInputElement>(null);
+  // In-point (seconds into the fragment) each trimmed fragment started at in the current playback.
+  const playedInRef = useRef(new Map<string, number>());
 
   const sensors = useSensors(
     useSensor(PointerSensor),
@@ -89,29 +434,346 @@ function App() {
     };
   }, []);
 
+  useEffect(() => {
+    loadProject().then(p => setSavedProject(p ?? null)).catch(() => {});
+  }, []);
+
+  // Autosave; an empty list leaves the saved project alone so it can still be restored.
+  useEffect(() => {
+    if (!frags.length) return;
+    const t = setTimeout(() => {
+      const project = toProject(frags, { withIndex, withChapters, withZip, leading }, autoMode ? prevFragsRef.current ?? undefined : undefined);
+      saveProject(project).catch(() => {});
+    }, 500);
+    return () => clearTimeout(t);
+  }, [frags, withIndex, withChapters, withZip, leading, autoMode]);
+
+  // A built download no longer matches once the order or options change.
+  useEffect(() => {
+    if (downloadUrlRef.current) URL.revokeObjectURL(downloadUrlRef.current);
+    downloadUrlRef.current = null;
+    setDownloadUrl(null);
+  }, [frags, withIndex, withChapters, leading]);
+
+  const chapterOf = useMemo(() => new Map(chapters.map(c => [c.id, c])), [chapters]);
+
   const initFrag = useMemo(() => frags.find(f => f.kind === "init") ?? null, [frags]);
 
+  // Init groups: inits numbered in list order; media takes the number of the init it matches.
+  const groupOf = useMemo(() => {
+    const assignment = assignInits(asItems(frags));
+    const initNumbers = new Map<string, number>();
+    frags.forEach(f => { if (f.kind === "init") initNumbers.set(f.id, initNumbers.size + 1); });
+    const out = new Map<string, number>();
+    frags.forEach((f, i) => {
+      const a = assignment[i];
+      if (a !== null) out.set(f.id, initNumbers.get(frags[a].id)!);
+    });
+    return out;
+  }, [frags]);
+  const initFrags = useMemo(() => frags.filter(f => f.kind === "init"), [frags]);
+
+  const protections = useMemo(() => new Map(frags.map(f => [f.id, detectProtection(f.probe)])), [frags]);
+  const keyIds = useMemo(() => Array.from(new Set(Array.from(protections.values()).flatMap(p => p?.kids ?? []))), [protections]);
+  // Entered keys that are well-formed (32 hex digits each).
+  const clearKeys = useMemo(() => Object.entries(keys).flatMap(([kid, key]): ClearKeyPair[] => {
+    const k = normalizeKid(key);
+    return k ? [{ kid, key: k }] : [];
+  }), [keys]);
+
+  // Pre-flight diagnostics; errors block Play.
+  const preflight = useMemo(() => {
+    const isTypeSupported = "MediaSource" in window ? (m: string) => MediaSource.isTypeSupported(m) : undefined;
+    return checkFormatCompatibility(frags.map(f => ({ name: f.file.name, buf: f.probe })), isTypeSupported, new Set(clearKeys.map(k => k.kid)));
+  }, [frags, clearKeys]);
+  const preflightErrors = preflight.filter(d => d.severity === "error").length;
+
+  const timeline = useMemo(() => analyzeTimeline(asItems(frags)), [frags]);
+
+  const initInfos = useMemo(() => mediaInitInfos(frags), [frags]);
+  // Trim plans from the probes (moofs are complete there, so keyframes are known without reading media).
+  // Encrypted fragments aren't cut: trimming would lose their senc / saiz / saio, so a trim
+  // (e.g. from a restored project) is ignored for them.
+  const trimPlans = useMemo(() => {
+    const out = new Map<string, TrimPlan>();
+    frags.forEach(f => {
+      const info = initInfos.get(f.id);
+      if (info) out.set(f.id, planTrim(f.probe, info, protections.get(f.id) ? {} : f.trim ?? {}));
+    });
+    return out;
+  }, [frags, initInfos, protections]);
+
+  // How each fragment starts (from the probes), and what the leading-sample policy does at seams.
+  const starts = useMemo(() => {
+    const out = new Map<string, FragmentStart>();
+    frags.forEach(f => {
+      const info = initInfos.get(f.id);
+      const start = info && fragmentStart(f.probe, info);
+      if (start) out.set(f.id, start);
+    });
+    return out;
+  }, [frags, initInfos]);
+  const seamPlan = useMemo(
+    () => planSeams(frags.map(f => ({ start: starts.get(f.id), group: initInfos.get(f.id), trim: f.trim, encrypted: !!protections.get(f.id) })), leading),
+    [frags, starts, initInfos, protections, leading],
+  );
+  const seamIds = useMemo(() => new Set(seamPlan.seams.map(i => frags[i].id)), [seamPlan, frags]);
+
   async function handleFileSelect(e: React.ChangeEvent<HTMLInputElement>) {
+    const selected = Array.from(e.target.files || []);
+    e.target.value = "";
+    await addFiles(selected);
+  }
+
+  // Files or folders dropped on the page; while playing, onto a row puts them in front of it.
+  async function handleDrop(e: React.DragEvent) {
+    if (!e.dataTransfer.types.includes("Files")) return;
+    e.preventDefault();
+    const row = (e.target as HTMLElement).closest?.("[data-frag-id]");
+    const files = await filesFromDrop(e.dataTransfer);
+    await addFiles(files, row?.getAttribute("data-frag-id") ?? undefined);
+  }
+
+  // Replaces the list, or while playing adds to it and to the running playback.
+  async function addFiles(selected: File[], before?: string) {
     setError("");
-    const files = Array.from(e.target.files || []);
-    if (!files.length) return;
+    if (!selected.length) return;
+    const playing = isPlaying && !!mseRef.current && !!sessionRef.current;
+
+    // With a manifest among the files, it decides order, inits and durations.
+    const manifests = selected.filter(f => isManifestName(f.name));
+    let files = selected;
+    let declared = new Map<File, number>();
+    if (manifests.length) {
+      try {
+        const order = await orderFromManifest(manifests[0], selected.filter(f => !isManifestName(f.name)));
+        files = order.files;
+        declared = order.seconds;
+        const notes = [`Ordered by ${manifests[0].name}.`];
+        if (manifests.length > 1) notes.push(`Only ${manifests[0].name} was used; ${manifests.length - 1} other manifest(s) ignored.`);
+        if (order.missing.length) notes.push(`${order.missing.length} file(s) listed in the manifest weren't selected: ${order.missing.slice(0, 5).join(", ")}${order.missing.length > 5 ? "…" : ""}`);
+        if (order.unlisted.length) notes.push(`${order.unlisted.length} selected file(s) aren't in the manifest and were put last.`);
+        setWarnings(w => [...w, ...notes]);
+      } catch (e) {
+        setError(`Could not read ${manifests[0].name} (${(e as Error).message}).`);
+        return;
+      }
+    }
+
+    // Probing happens in a worker and reads only box headers; files stay on disk until played.
+    let results;
+    try {
+      results = await ingestFiles(files, setIngest);
+    } catch (e) {
+      setError(`Could not scan files (${(e as Error).message}).`);
+      return;
+    } finally {
+      setIngest(null);
+    }
 
     const items: Frag[] = [];
-    for (const f of files) {
-      const buf = await f.arrayBuffer();
-      const kind = classifyFragment(buf);
-      items.push({ id: f.name + ":" + f.size + ":" + Math.random(), file: f, kind, size: f.size, buf });
+    const taken = new Set<string>(playing ? frags.map(f => f.id) : []);
+    for (let i = 0; i < files.length; i++) {
+      const f = files[i];
+      const r = results[i];
+      if ("error" in r) {
+        setWarnings(w => [...w, `${f.name}: could not be read (${r.error}).`]);
+        continue;
+      }
+      if (r.kind === "progressive") {
+        items.push(...await transmuxToFrags(f, taken));
+        continue;
+      }
+      items.push({ id: headerFingerprint(f.name, f.size, r.probe, taken), file: f, kind: r.kind, size: f.size, probe: r.probe });
+    }
+
+    if (declared.size) {
+      const infos = mediaInitInfos(items);
+      const off = items.flatMap(f => {
+        const want = declared.get(f.file);
+        const info = infos.get(f.id);
+        if (want === undefined || !info) return [];
+        const got = planTrim(f.probe, info, {}).duration;
+        return Math.abs(got - want) > 0.1 ? [`${f.file.name}: ${secs(got)} vs ${secs(want)}`] : [];
+      });
+      if (off.length) setWarnings(w => [...w, `${off.length} segment(s) don't last as long as the manifest says (${off.slice(0, 3).join("; ")}${off.length > 3 ? "…" : ""}).`]);
     }
 
     const unknowns = items.filter(i => i.kind === "unknown");
     if (unknowns.length) {
       setWarnings(w => [
         ...w,
-        `${unknowns.length} file(s) aren’t recognizable as MP4 init or media fragments and may be skipped.`,
+        `${unknowns.length} file(s) aren’t recognizable as MP4 init or media fragments and may be skipped. ` +
+          "If they were cut at arbitrary byte offsets, put them in order and use Reassemble Slices.",
       ]);
     }
+    if (playing) {
+      await addWhilePlaying(items, before);
+      return;
+    }
+    setFrags(items);
+    setAutoMode(false);
+    setOrderReport(null);
+    prevFragsRef.current = null;
+    // A manifest's order wins over a saved one.
+    if (savedProject && !manifests.length) applyProject(savedProject, items);
+  }
+
+  // New rows go in front of `before` (else last), and their media joins the running playback
+  // at the same place, ahead of the playhead. They play as they are (no trims or seam fixes yet).
+  async function addWhilePlaying(items: Frag[], before?: string) {
+    const mse = mseRef.current!;
+    const session = sessionRef.current!;
+    const at = before ? frags.findIndex(f => f.id === before) : -1;
+    const next = at < 0 ? [...frags, ...items] : [...frags.slice(0, at), ...items, ...frags.slice(at)];
+    setFrags(next);
+
+    const added = new Set(items);
+    const infos = mediaInitInfos(next);
+    for (const r of sequenceRuns(asItems(next))) {
+      const media = r.media.map(m => m.frag).filter(f => added.has(f));
+      if (!media.length) continue;
+      const init = await session.initBuf(r.init.frag);
+      const last = next.indexOf(media[media.length - 1]);
+      const following = next.slice(last + 1).find(f => f.kind === "media" && !added.has(f));
+      mse.addGroups([{
+        init,
+        mime: (await extractCodecsFromInit(init)) ?? FALLBACK_MIME,
+        media: media.map(f => f.file),
+        labels: media.map(labelOf),
+        keys: media.map(f => f.id),
+        track: initTrackType(readInitInfo(init, parseBoxTree(init).boxes)),
+      }], following?.id);
+    }
+
+    // Chapters are projected again with the new fragments in their places.
+    setChapters(cs => {
+      const span = new Map(cs.map(c => [c.id, c.end - c.start]));
+      items.forEach(f => {
+        const info = infos.get(f.id);
+        if (info && !(session.demuxed && initTrackType(info) === "audio")) span.set(f.id, planTrim(f.probe, info, {}).duration);
+      });
+      let t = 0;
+      return next.filter(f => span.has(f.id)).map(f => {
+        const start = t;
+        t += span.get(f.id)!;
+        return { id: f.id, label: labelOf(f), start, end: t };
+      });
+    });
+    setToasts(ts => [...ts, `Added ${items.filter(f => f.kind === "media").length} fragment(s) to the playback`]);
+    const video = videoRef.current;
+    if (video?.ended) video.play().catch(() => {});
+  }
+
+  // Ends the live stream once everything added so far is in.
+  function finalizePlayback() {
+    mseRef.current?.finalize();
+    setFinalized(true);
+  }
+
+  // Re-applies a project's order, trims, labels and settings to the rows just added.
+  function applyProject(project: Project, items: Frag[]) {
+    const r = restoreProject(project, items);
+    if (!r.restored && !r.changed.length) {
+      setWarnings(w => [...w, `None of these files are in the saved project (${project.fragments.length} fragment(s)); it was kept for later.`]);
+      return;
+    }
+    const notes = [`Restored the project saved ${new Date(project.savedAt).toLocaleString()}: ${r.restored} fragment(s) in their saved order. Files are matched by name, size and headers, so edits deep inside the media aren't noticed.`];
+    if (r.missing.length) notes.push(`${r.missing.length} saved fragment(s) weren't added: ${r.missing.slice(0, 5).map(f => f.name).join(", ")}${r.missing.length > 5 ? "…" : ""}`);
+    if (r.changed.length) notes.push(`${r.changed.length} file(s) changed since they were saved (size or headers); their trims were not re-applied: ${r.changed.slice(0, 5).map(f => f.name).join(", ")}${r.changed.length > 5 ? "…" : ""}`);
+    if (r.added) notes.push(`${r.added} file(s) aren't in the project and were put last.`);
+    setWarnings(w => [...w, ...notes]);
+    setFrags(r.items);
+    setAutoMode(!!r.manualOrder);
+    prevFragsRef.current = r.manualOrder ?? null;
+    setWithIndex(project.settings.withIndex);
+    setWithChapters(project.settings.withChapters);
+    setWithZip(project.settings.withZip);
+    setLeading(project.settings.leading ?? "keep");
+    setSavedProject(null);
+  }
+
+  function exportProject() {
+    const project = toProject(frags, { withIndex, withChapters, withZip, leading }, autoMode ? prevFragsRef.current ?? undefined : undefined);
+    saveBlob(new Blob([JSON.stringify(project, null, 2)], { type: "application/json" }), "mp4-merger-project.json");
+  }
+
+  // An imported project applies to the current list at once, or waits for its files.
+  async function importProject(e: React.ChangeEvent<HTMLInputElement>) {
+    const file = e.target.files?.[0];
+    e.target.value = "";
+    if (!file) return;
+    let project: Project;
+    try {
+      project = parseProject(await file.text());
+    } catch (err) {
+      setError(`Could not open ${file.name} (${(err as Error).message}).`);
+      return;
+    }
+    if (frags.length) applyProject(project, frags);
+    else setSavedProject(project);
+  }
+
+  function discardSavedProject() {
+    setSavedProject(null);
+    clearSavedProject().catch(() => {});
+  }
+
+  // Regular MP4s become an init row plus keyframe-aligned media rows.
+  // The whole file has to be read here; mp4box needs the complete moov and sample data.
+  async function transmuxToFrags(f: File, taken: Set<string>): Promise<Frag[]> {
+    try {
+      const { init, fragments } = await transmuxProgressive(await f.arrayBuffer());
+      const stem = f.name.replace(/\.[^.]+$/, "");
+      const pieces = [
+        { name: `${stem}-init.mp4`, buf: init, kind: "init" as const },
+        ...fragments.map((b, i) => ({ name: `${stem}-frag${i + 1}.m4s`, buf: b, kind: "media" as const })),
+      ];
+      return pieces.map(p => {
+        const file = new File([p.buf], p.name, { type: "video/mp4" });
+        return { id: headerFingerprint(p.name, file.size, p.buf, taken), file, kind: p.kind, size: file.size, probe: p.buf, derived: true };
+      });
+    } catch (e) {
+      setWarnings(w => [...w, `${f.name}: could not transmux regular MP4 (${(e as Error).message}).`]);
+      return [];
+    }
+  }
+
+  // Treats the list (in its current order) as one byte stream and rebuilds whole fragments from it.
+  async function reassembleList() {
+    if (!frags.length) return;
+    const { pieces, unrecoverable } = await reassembleSlices(frags.map(f => f.file));
+    let inits = 0;
+    let media = 0;
+    const taken = new Set<string>();
+    const rebuilt: Frag[] = pieces.map(p => {
+      const name = p.kind === "init" ? `reassembled-init${++inits}.mp4` : `reassembled-frag${++media}.m4s`;
+      const file = new File(p.parts, name, { type: "video/mp4" });
+      return { id: headerFingerprint(name, file.size, p.probe, taken), file, kind: p.kind, size: file.size, probe: p.probe, derived: true };
+    });
+
+    const lost = unrecoverable.map(r => {
+      const where = r.sources.map(s => `${frags[s.file].file.name} @ ${s.start}–${s.end}`).join(", ");
+      return `Unrecoverable ${r.end - r.start} byte(s) (${where}): ${r.reason}.`;
+    });
+    setWarnings([`Reassembled ${frags.length} file(s) into ${inits} init(s) and ${media} media fragment(s).`, ...lost]);
+    setFrags(rebuilt);
+    setAutoMode(false);
+    setOrderReport(null);
+    prevFragsRef.current = null;
+  }
+
+  // A split's init and fragments replace the list, in their cut order.
+  function loadSplit(files: SplitFile[]) {
+    const taken = new Set<string>();
+    const items: Frag[] = files.map(p => {
+      const file = new File([p.buf], p.name, { type: "video/mp4" });
+      return { id: headerFingerprint(p.name, file.size, p.buf, taken), file, kind: p.kind, size: file.size, probe: p.buf, derived: true };
+    });
+    setWarnings([`Split into ${items.length - 1} media fragment(s) plus an init.`]);
     setFrags(items);
     setAutoMode(false);
+    setOrderReport(null);
     prevFragsRef.current = null;
   }
 
@@ -125,19 +787,89 @@ function App() {
     });
   }
 
-  function attachTimeUpdate() {
-    const video = videoRef.current!;
-    if (!video) return;
-    const onTU = () => {
-      const t = video.currentTime;
-      const label = mseRef.current?.getLabelForTime(t) ?? "";
-      if (label && label !== nowPlaying) {
-        setNowPlaying(label);
-      }
+  function setTrim(id: string, trim: TrimPoints | undefined) {
+    const empty = !trim || (trim.in === undefined && trim.out === undefined);
+    setFrags(fs => fs.map(f => (f.id === id ? { ...f, trim: empty ? undefined : trim } : f)));
+  }
+
+  function setLabel(id: string, label: string) {
+    setFrags(fs => fs.map(f => (f.id === id ? { ...f, label: label || undefined } : f)));
+  }
+
+  // Marks happen on the playing fragment: the player time is mapped back into the fragment.
+  // Media is read against the init it matches (trex defaults, track details); inits against themselves.
+  async function openInspector(f: Frag) {
+    try {
+      const complete = f.size <= INSPECT_FULL_BYTES;
+      const buf = complete ? await f.file.arrayBuffer() : f.probe;
+      const assignment = assignInits(asItems(frags));
+      const a = assignment[frags.indexOf(f)];
+      const initFrag = f.kind === "init" ? f : a !== null ? frags[a] : undefined;
+      setInspecting({
+        name: f.file.name,
+        buf,
+        complete,
+        init: initFrag && initFrag !== f ? { name: initFrag.file.name, buf: initFrag.probe } : undefined,
+        tracks: initFrag ? await trackSummaries(initFrag.probe) : undefined,
+      });
+    } catch (err) {
+      setError(`Could not read ${f.file.name} (${(err as Error).message}).`);
+    }
+  }
+
+  function markTrim(f: Frag, which: "in" | "out") {
+    const t = videoRef.current?.currentTime ?? 0;
+    const entry = mseRef.current?.getTimeIndex().find(e => e.key === f.id && e.state === "buffered" && t >= e.start && t <= e.end);
+    if (!entry) {
+      setToasts(ts => [...ts, `${f.file.name} isn't playing — play it and pause where the ${which} point goes`]);
+      return;
+    }
+    const local = (playedInRef.current.get(f.id) ?? 0) + (t - entry.start);
+    setTrim(f.id, { ...f.trim, [which]: Math.round(local * 1000) / 1000 });
+  }
+
+  // Bytes to play or merge for a fragment: the File itself, or a copy with its trim and seam fix
+  // applied (null if nothing is left). Attached leading samples are read from the fragments they come from.
+  async function fragSource(f: Frag): Promise<File | ArrayBuffer | null> {
+    const info = initInfos.get(f.id);
+    const fix = seamPlan.fixes.get(frags.indexOf(f));
+    if ((!f.trim && !fix) || !info || protections.get(f.id)) return f.file;
+    const attached = await Promise.all((fix?.attach ?? []).map(async j => leadingSamples(await frags[j].file.arrayBuffer(), info, seamPlan.fixes.get(j)!)));
+    return applySeamFix(await f.file.arrayBuffer(), info, fix, f.trim, attached.flatMap(a => (a ? [a] : [])));
+  }
+
+  // The playing fragment, from the player's time index; one listener per playback.
+  useEffect(() => {
+    const video = videoRef.current;
+    if (!isPlaying || !video) return;
+    const onTime = () => {
+      const entry = mseRef.current?.getEntryForTime(video.currentTime);
+      if (!entry) return;
+      setNowPlaying(entry.label);
+      setPlayingId(entry.key ?? null);
     };
-    // Remove previous to avoid duplicates
-    video.removeEventListener("timeupdate", onTU as any);
-    video.addEventListener("timeupdate", onTU);
+    const onEnded = () => setPlayReport(mseRef.current?.getReport() ?? null);
+    video.addEventListener("timeupdate", onTime);
+    video.addEventListener("seeked", onTime);
+    video.addEventListener("ended", onEnded);
+    return () => {
+      video.removeEventListener("timeupdate", onTime);
+      video.removeEventListener("seeked", onTime);
+      video.removeEventListener("ended", onEnded);
+    };
+  }, [isPlaying]);
+
+  // One at a time, after playback has started; a new playback (or Stop) abandons the run.
+  async function buildThumbnails(groups: Array<{ init: ArrayBuffer; media: Array<File | ArrayBuffer>; frags: Frag[]; track: string }>) {
+    const run = ++thumbRunRef.current;
+    for (const g of groups.filter(g => g.track !== "audio")) {
+      for (let i = 0; i < g.frags.length; i++) {
+        const key = g.frags[i].id;
+        if (thumbRunRef.current !== run) return;
+        const url = await fragmentThumbnail(g.init, g.media[i]);
+        if (url && thumbRunRef.current === run) setThumbs(t => ({ ...t, [key]: url }));
+      }
+    }
   }
 
   async function startPlayback() {
@@ -145,144 +877,331 @@ function App() {
     setWarnings([]);
     setError("");
     setNowPlaying("");
+    setPlayReport(null);
 
     const video = videoRef.current!;
     if (!video) return;
 
-    const init = initFrag?.buf ?? null;
-    if (!init) {
+    const runs = sequenceRuns(asItems(frags));
+    if (!initFrag) {
       setError("No init segment detected. Include a fragment that contains MP4 header boxes (ftyp + moov).");
       return;
     }
+    if (!runs.length) {
+      setError("No media fragments to play.");
+      return;
+    }
 
-    const mime = (await extractCodecsFromInit(init)) ?? 'video/mp4; codecs="avc1.42E01E,mp4a.40.2"';
+    // Inits are read whole (one buffer per init, so SafeMSE can tell repeats apart); media stays lazy.
+    const initBufs = new Map<string, Promise<ArrayBuffer>>();
+    const initBuf = (f: Frag) => {
+      if (!initBufs.has(f.id)) initBufs.set(f.id, f.file.arrayBuffer());
+      return initBufs.get(f.id)!;
+    };
+    // Trimmed fragments are cut up front; the rest stay lazy Files.
+    playedInRef.current = new Map(frags.flatMap(f => (f.trim && trimPlans.has(f.id) ? [[f.id, trimPlans.get(f.id)!.in]] : [])));
+    const groups = await Promise.all(runs.map(async r => {
+      const init = await initBuf(r.init.frag);
+      const sources = await Promise.all(r.media.map(m => fragSource(m.frag)));
+      const kept = r.media.flatMap((m, i) => (sources[i] ? [{ src: sources[i]!, frag: m.frag }] : []));
+      return {
+        init,
+        mime: (await extractCodecsFromInit(init)) ?? FALLBACK_MIME,
+        media: kept.map(k => k.src),
+        labels: kept.map(k => labelOf(k.frag)),
+        keys: kept.map(k => k.frag.id),
+        frags: kept.map(k => k.frag),
+        track: initTrackType(readInitInfo(init, parseBoxTree(init).boxes)),
+      };
+    }));
+
+    // Separate audio and video inits (CMAF/DASH) get one SourceBuffer each.
+    const demuxed = groups.some(g => g.track === "audio") && groups.some(g => g.track === "video")
+      && !groups.some(g => g.track === "muxed");
+    const laneMimes = demuxed
+      ? { video: groups.find(g => g.track === "video")!.mime, audio: groups.find(g => g.track === "audio")!.mime }
+      : groups[0].mime;
+
+    // Chapter starts are projected from the probed (trimmed) durations; fragments play back to back.
+    let at = 0;
+    setChapters((demuxed ? groups.filter(g => g.track === "video") : groups).flatMap(g => g.frags).map(f => {
+      const plan = trimPlans.get(f.id);
+      const start = at;
+      at += plan ? plan.out - plan.in : 0;
+      return { id: f.id, label: labelOf(f), start, end: at };
+    }));
 
     // Reset MSE and attach; SafeMSE builds time boundaries for labels
     mseRef.current?.destroy();
     const mse = new SafeMSE(
       video,
       (msg) => setToasts((t) => [...t, msg]),
-      (msg) => setToasts((t) => [...t, msg])
+      (msg) => setToasts((t) => [...t, msg]),
+      { onEvent: (e) => setToasts((t) => [...t, describeRecovery(e)]) }
     );
     mseRef.current = mse;
 
+    const encrypted = runs.some(r => protections.get(r.init.frag.id)?.schemes.length);
+    if (encrypted && clearKeys.length) {
+      try {
+        await mse.useClearKeys(clearKeys, groups.map(g => g.mime));
+      } catch (e) {
+        setError(`Could not set up ClearKey decryption (${(e as Error).message}).`);
+        return;
+      }
+    }
+
     try {
-      await mse.open(mime);
+      await mse.open(laneMimes);
     } catch (e) {
       setError(`Could not open MSE SourceBuffer (${(e as Error).message}).`);
       return;
     }
 
-    const rest = frags.filter(f => f.kind !== "init");
-    const orderedBuffers = rest.map(f => f.buf!).filter(Boolean);
-    const labels = frags.map(f => f.file.name); // labels for media fragments only
-
-    mse.enqueueInitAndMedia(init, orderedBuffers, labels);
-
-    // Prepare download blob in current order
-    buildDownloadUrl(init, orderedBuffers);
-
-    attachTimeUpdate();
+    mse.enqueueGroups(groups, { live });
+    sessionRef.current = { initBuf, demuxed };
+    setFinalized(!live);
+    setIsPlaying(true);
+    setPlayingId(null);
+    // Trims change the first frame; thumbnails are rebuilt per playback.
+    setThumbs({});
+    buildThumbnails(groups);
 
     try {
       await video.play();
-      setIsPlaying(true);
     } catch {
       setError("Autoplay blocked by browser. Press Play in the controls.");
     }
   }
 
+  // Seeks to where the fragment was placed, else to its projected start.
+  function seekToChapter(c: ChapterMark) {
+    const video = videoRef.current;
+    const placed = mseRef.current?.getTimeIndex().find(e => e.key === c.id && e.state !== "skipped");
+    if (video) video.currentTime = (placed?.start ?? c.start) + 1e-3;
+  }
+
   function stopPlayback() {
+    if (isPlaying && mseRef.current) setPlayReport(mseRef.current.getReport());
     mseRef.current?.destroy();
+    sessionRef.current = null;
+    thumbRunRef.current++;
+    setChapters([]);
+    setThumbs({});
     setIsPlaying(false);
     setNowPlaying("");
+    setPlayingId(null);
   }
 
   function clearAll() {
     stopPlayback();
+    setPlayReport(null);
     setFrags([]);
     setWarnings([]);
     setToasts([]);
     setError("");
     setNowPlaying("");
     if (fileInputRef.current) fileInputRef.current.value = "";
-    if (downloadUrlRef.current) {
-      URL.revokeObjectURL(downloadUrlRef.current);
-      downloadUrlRef.current = null;
-    }
+    revokeDownloadUrl();
+    discardSavedProject();
   }
 
-  function buildDownloadUrl(init: ArrayBuffer | null, rest: ArrayBuffer[]) {
-    if (downloadUrlRef.current) {
-      URL.revokeObjectURL(downloadUrlRef.current);
-      downloadUrlRef.current = null;
+  // Inputs for mergeMP4 with a chapter label per input.
+  async function mergeInputs(): Promise<{ files: Array<File | ArrayBuffer>; labels: string[] }> {
+    const used = frags.filter(f => f.kind === "init" || f.kind === "media");
+    const sources = await Promise.all(used.map(fragSource));
+    const kept = used.flatMap((f, i) => (sources[i] ? [{ src: sources[i]!, label: labelOf(f) }] : []));
+    return { files: kept.map(k => k.src), labels: kept.map(k => k.label) };
+  }
+
+  // Built on request: merging reads every fragment into memory.
+  async function buildDownloadUrl() {
+    revokeDownloadUrl();
+    setBuilding(true);
+    try {
+      const { files, labels } = await mergeInputs();
+      const blob = await mergeMP4(files, { sidx: withIndex, mfra: withIndex, chapters: withChapters, labels });
+      downloadUrlRef.current = URL.createObjectURL(blob);
+      setDownloadUrl(downloadUrlRef.current);
+    } catch (e) {
+      setWarnings(w => [...w, `Could not build download (${(e as Error).message}).`]);
+    } finally {
+      setBuilding(false);
     }
-    const parts: BlobPart[] = [];
-    if (init) parts.push(new Uint8Array(init));
-    for (const b of rest) parts.push(new Uint8Array(b));
-    const blob = new Blob(parts, { type: "video/mp4" });
-    downloadUrlRef.current = URL.createObjectURL(blob);
   }
 
-  function autoOrder(fragsIn: Frag[]): Frag[] {
-    // Keep first init (if any) at the top; sort media by tfdt then mfhd
-    const init = fragsIn.find(f => f.kind === "init") || null;
-    const media = fragsIn.filter(f => f.kind !== "init");
+  // The arrangement as playlist runs (one per init stretch). Fragments trimmed to nothing are left out.
+  function playlistRuns(uris: Map<string, string>, skip: Set<string>): PlaylistRun[] {
+    const items = asItems(frags);
+    const index = new Map(frags.map((f, i) => [f.id, i]));
+    // Segments whose timestamps don't follow on from the one before need a discontinuity.
+    const broken = new Set(timeline.issues.map(i => i.index));
+    frags.forEach((f, i) => { if (f.trim) broken.add(i).add(i + 1); });
 
-    const scored = media.map(f => {
-      const { dts, seq } = probeOrderKey(f.buf!);
-      return { frag: f, dts: dts ?? Number.POSITIVE_INFINITY, seq: seq ?? Number.POSITIVE_INFINITY };
-    });
+    return sequenceRuns(items).map(r => {
+      const probe = r.init.frag.probe;
+      const info = readInitInfo(probe, parseBoxTree(probe).boxes);
+      const entries = (info?.tracks ?? []).flatMap(t => (t.sampleEntries[0] ? [describeSampleEntry(probe, t.sampleEntries[0])] : []));
+      const visual = entries.find(e => e.width && e.height);
+      const timescaleOf = (id: number) => info?.tracks.find(t => t.trackId === id)?.timescale || 1;
+      const firstStart = r.media.map(m => starts.get(m.frag.id)).find(Boolean);
+      const timescale = firstStart ? timescaleOf(firstStart.trackId) : undefined;
+      return {
+        type: initTrackType(info),
+        init: uris.get(r.init.frag.id)!,
+        codecs: entries.map(e => e.codec).join(",") || undefined,
+        width: visual?.width,
+        height: visual?.height,
+        timescale,
+        segments: r.media.filter(m => !skip.has(m.frag.id)).map(m => {
+          const plan = trimPlans.get(m.frag.id);
+          const start = starts.get(m.frag.id);
+          const fix = seamPlan.fixes.get(index.get(m.frag.id)!);
+          // Seconds cut off the front of the exported bytes; both cuts land on a keyframe.
+          const skipped = fix?.cut ?? plan?.in ?? 0;
+          return {
+            uri: uris.get(m.frag.id)!,
+            seconds: plan ? plan.out - plan.in : 0,
+            bytes: m.frag.size,
+            start: start && timescale
+              ? Math.round((start.startDts / timescaleOf(start.trackId) + skipped) * timescale)
+              : undefined,
+            sync: start ? start.leading === 0 || skipped > 0 : undefined,
+            discontinuity: broken.has(index.get(m.frag.id)!),
+          };
+        }),
+      };
+    }).filter(r => r.segments.length);
+  }
 
-    scored.sort((a, b) => {
-      if (a.dts !== b.dts) return a.dts - b.dts;
-      if (a.seq !== b.seq) return a.seq - b.seq;
-      return a.frag.file.name.localeCompare(b.frag.file.name);
-    });
+  // VOD HLS playlist(s) or a DASH MPD referencing the fragments; as a zip it carries the
+  // fragment bytes too (trimmed where trimmed), under unique names.
+  async function exportManifest(kind: "hls" | "dash") {
+    setPacking(true);
+    try {
+      const used = frags.filter(f => f.kind === "init" || f.kind === "media");
+      const taken = new Set<string>();
+      const uris = new Map(used.map(f => {
+        let name = f.file.name;
+        for (let n = 2; withZip && taken.has(name); n++) name = f.file.name.replace(/(\.[^.]*)?$/, `-${n}$1`);
+        taken.add(name);
+        return [f.id, name];
+      }));
+      const sources = withZip ? await Promise.all(used.map(fragSource)) : [];
+      const skip = new Set(used.flatMap((f, i) => (withZip && !sources[i] ? [f.id] : [])));
 
-    const sorted = scored.map(s => s.frag);
-    return init ? [init, ...sorted] : sorted;
+      const runs = playlistRuns(uris, skip);
+      const files: ManifestFile[] = kind === "hls" ? writeHls(runs) : [{ name: "manifest.mpd", text: writeMpd(runs) }];
+      if (!withZip) {
+        const local = used.filter(f => f.derived || f.trim).length;
+        if (local) setWarnings(w => [...w, `${local} fragment(s) are trimmed or were built in this tab; tick "Zip with fragments" to include their bytes.`]);
+      }
+      if (!withZip && files.length === 1) {
+        saveBlob(new Blob([files[0].text], { type: kind === "hls" ? "application/vnd.apple.mpegurl" : "application/dash+xml" }), files[0].name);
+        return;
+      }
+      const entries = [
+        ...files.map(f => ({ name: f.name, data: f.text })),
+        ...used.flatMap((f, i) => (sources[i] ? [{ name: uris.get(f.id)!, data: sources[i]! }] : [])),
+      ];
+      saveBlob(new Blob(await zipStore(entries), { type: "application/zip" }), kind === "hls" ? "hls.zip" : "dash.zip");
+    } catch (e) {
+      setWarnings(w => [...w, `Could not export ${kind === "hls" ? "HLS playlist" : "DASH MPD"} (${(e as Error).message}).`]);
+    } finally {
+      setPacking(false);
+    }
+  }
+
+  function revokeDownloadUrl() {
+    if (downloadUrlRef.current) {
+      URL.revokeObjectURL(downloadUrlRef.current);
+      downloadUrlRef.current = null;
+    }
+    setDownloadUrl(null);
   }
 
   function toggleAutoMode() {
     if (!autoMode) {
       // Save current order so we can restore
       prevFragsRef.current = frags.slice();
-      setFrags(autoOrder(frags));
+      const plan = planOrder(asItems(frags));
+      const report: OrderReport<Frag> = {
+        placements: plan.placements.map(p => ({ ...p, item: p.item.frag })),
+        duplicates: plan.duplicates.map(d => ({ ...d, item: d.item.frag, of: d.of.frag })),
+        unplaced: plan.unplaced.map(u => ({ ...u, item: u.item.frag })),
+        notes: plan.notes,
+      };
+      // Duplicates are left out of the list; Manual Order brings them back.
+      setFrags(report.placements.map(p => p.item));
+      setOrderReport(report);
       setAutoMode(true);
     } else {
       // Restore previous manual order
       if (prevFragsRef.current) setFrags(prevFragsRef.current);
       prevFragsRef.current = null;
+      setOrderReport(null);
       setAutoMode(false);
     }
   }
 
 
   return (
-    <div className="app">
+    <div className="app" onDragOver={e => { if (e.dataTransfer.types.includes("Files")) e.preventDefault(); }} onDrop={handleDrop}>
       <h1>Fragment Player (MSE — plays in your order)</h1>
       <p className="muted">
-        Add byte-sliced fragments from the <em>same source MP4</em>. One fragment must contain <code>ftyp</code>+<code>moov</code> (init).
-        We don’t fix order — playback follows the list order using MSE <code>sequence</code> mode.
+        Add byte-sliced fragments with their init (<code>ftyp</code>+<code>moov</code>); fragments from several sources are
+        matched to the init they belong to. We don’t fix order — playback follows the list order using MSE <code>sequence</code> mode.
       </p>
+      <details className="help muted">
+        <summary>More</summary>
+        <ul>
+          <li>Regular MP4s are split into fragments on import; Split MP4 cuts one by time, size or keyframe.</li>
+          <li>Reassemble Slices joins files cut at arbitrary byte offsets back into whole fragments.</li>
+          <li>An HLS (<code>.m3u8</code>) or DASH (<code>.mpd</code>) manifest selected with its segments sets the order.</li>
+          <li>Trim, Inspect and labels are per row; the project is saved in this browser and restored for the same files.</li>
+          <li>Encrypted fragments are flagged; ClearKey-protected ones play once their keys are entered.</li>
+          <li>Files dropped while playing join the playback; Live keeps the stream open until Finalize.</li>
+        </ul>
+      </details>
 
       <div className="row">
         <input
           ref={fileInputRef}
           type="file"
           multiple
-          accept="video/mp4,.mp4"
+          accept="video/mp4,.mp4,.m4s,.m4v,.m4a,.cmfv,.cmfa,.m3u8,.mpd"
           onChange={handleFileSelect}
           style={{ display: "none" }}
         />
-        <button onClick={() => fileInputRef.current?.click()}>Add Fragments</button>
+        <button
+          onClick={() => fileInputRef.current?.click()}
+          disabled={!!ingest}
+          title={isPlaying ? "Added files join the running playback" : "Replace the list with the chosen files (or drop files or a folder anywhere)"}
+        >
+          Add Fragments
+        </button>
         <button className="secondary" onClick={clearAll}>Clear</button>
         {!isPlaying ? (
-          <button className="success" disabled={!frags.length} onClick={startPlayback}>Play</button>
+          <button
+            className="success"
+            disabled={!frags.length || preflightErrors > 0}
+            title={preflightErrors ? "Fix the pre-flight errors first" : "Fragments the browser rejects are retried or skipped; a report lists what played"}
+            onClick={startPlayback}
+          >
+            Play
+          </button>
         ) : (
           <button className="danger" onClick={stopPlayback}>Stop</button>
         )}
+        {!isPlaying ? (
+          <label className="muted" title="Keep the stream open for files added while playing (recordings still being written)">
+            <input type="checkbox" checked={live} onChange={e => setLive(e.target.checked)} /> Live
+          </label>
+        ) : !finalized && (
+          <button className="secondary" onClick={finalizePlayback} title="End the stream after the fragments added so far">
+            Finalize
+          </button>
+        )}
 
         <button
           className={autoMode ? "secondary" : "secondary"}
@@ -293,9 +1212,55 @@ function App() {
           {autoMode ? "Manual Order" : "Auto-Order (beta)"}
         </button>
 
+        <button
+          className="secondary"
+          onClick={reassembleList}
+          disabled={!frags.length || isPlaying}
+          title="Join the files in list order and rebuild fragments cut at arbitrary byte offsets"
+        >
+          Reassemble Slices
+        </button>
+
+        <button
+          className="secondary"
+          onClick={() => setSplitting(true)}
+          disabled={isPlaying}
+          title="Cut one MP4 into an init plus fragments by time, size or keyframe"
+        >
+          Split MP4…
+        </button>
+
+        <input ref={projectInputRef} type="file" accept=".json,application/json" onChange={importProject} style={{ display: "none" }} />
+        <button className="secondary" onClick={() => projectInputRef.current?.click()} title="Open a saved project file (order, trims, labels, settings)">
+          Open Project
+        </button>
+        <button className="secondary" onClick={exportProject} disabled={!frags.length} title="Save order, trims, labels and settings as JSON">
+          Save Project
+        </button>
+
 
       </div>
 
+      {savedProject && (
+        <div className="saved-project" role="status">
+          <span>
+            Saved project from {new Date(savedProject.savedAt).toLocaleString()} ({savedProject.fragments.length} fragment(s)) —
+            add its files again to restore the order, trims and labels.
+          </span>
+          <button className="secondary" onClick={discardSavedProject}>Discard</button>
+        </div>
+      )}
+
+      {ingest && (
+        <div className="ingest" role="status">
+          <progress value={ingest.bytes} max={ingest.totalBytes || 1} />
+          <span>
+            Scanning {ingest.done}/{ingest.total} file(s) · {(ingest.bytes / 1024 ** 3).toFixed(2)} of{" "}
+            {(ingest.totalBytes / 1024 ** 3).toFixed(2)} GB
+          </span>
+        </div>
+      )}
+
       {error && <div className="error">{error}</div>}
 
       {frags.length > 0 && (
@@ -303,13 +1268,79 @@ function App() {
           <h2>Fragments (drag to set PLAY order)</h2>
           <DndContext sensors={sensors} collisionDetection={closestCenter} onDragEnd={handleDragEnd}>
             <SortableContext items={frags.map(f => f.id)} strategy={verticalListSortingStrategy}>
-              {frags.map((f, i) => <SortableItem key={f.id} id={f.id} file={f.file} index={i} />)}
+              {frags.map((f, i) => (
+                <SortableItem
+                  key={f.id}
+                  id={f.id}
+                  file={f.file}
+                  index={i}
+                  group={groupOf.get(f.id)}
+                  trim={f.trim}
+                  editable={trimPlans.has(f.id)}
+                  plan={trimPlans.get(f.id)}
+                  onChange={trim => setTrim(f.id, trim)}
+                  onMark={which => markTrim(f, which)}
+                  label={f.label}
+                  onLabel={label => setLabel(f.id, label)}
+                  protection={protections.get(f.id)}
+                  start={starts.get(f.id)}
+                  atSeam={seamIds.has(f.id)}
+                  playing={isPlaying && f.id === playingId}
+                  onSeek={chapterOf.has(f.id) ? () => seekToChapter(chapterOf.get(f.id)!) : undefined}
+                  onInspect={() => openInspector(f)}
+                />
+              ))}
             </SortableContext>
           </DndContext>
           <div className="legend">
-            <span><b>Init:</b> {initFrag ? initFrag.file.name : "none"}</span>
-            <span style={{ marginLeft: 12 }}><b>Mode:</b> sequence (append order = play order)</span>
+            <span>
+              <b>Init:</b>{" "}
+              {initFrags.length ? initFrags.map((f, i) => `G${i + 1}: ${f.file.name}`).join(" · ") : "none"}
+            </span>
+            <span style={{ marginLeft: 12 }}><b>Mode:</b> sequence (append order = play order; demuxed audio/video play side by side)</span>
           </div>
+          {keyIds.length > 0 && (
+            <div className="keys">
+              <h3>ClearKey keys</h3>
+              <p className="muted">Encrypted content plays through EME (<code>org.w3.clearkey</code>); keys stay in this tab.</p>
+              {keyIds.map(kid => {
+                const value = keys[kid] ?? "";
+                const bad = value !== "" && !normalizeKid(value);
+                return (
+                  <label key={kid} className="key-row">
+                    <code>{formatKid(kid)}</code>
+                    <input
+                      className={bad ? "invalid" : undefined}
+                      value={value}
+                      placeholder="key (32 hex digits)"
+                      spellCheck={false}
+                      onChange={e => setKeys(k => ({ ...k, [kid]: e.target.value }))}
+                    />
+                  </label>
+                );
+              })}
+            </div>
+          )}
+          {preflight.length > 0 && (
+            <div className="preflight">
+              <h3>Pre-flight checks</h3>
+              <ul>
+                {preflight.map((d, i) => (
+                  <li key={i} className={`diag-${d.severity}`}>
+                    <b>{d.severity}</b> {d.file}: {d.message}
+                  </li>
+                ))}
+              </ul>
+            </div>
+          )}
+          {timeline.lanes.length + timeline.issues.length > 0 && (
+            <TimelineView
+              report={timeline}
+              labels={frags.map(f => f.file.name)}
+              groupOf={i => groupOf.get(frags[i].id)}
+            />
+          )}
+          {autoMode && orderReport && <OrderReportView report={orderReport} />}
           {warnings.length > 0 && (
             <div className="warnings">
               <h3>Warnings</h3>
@@ -324,18 +1355,78 @@ function App() {
           <div className="now-playing">Now playing: <strong>{nowPlaying}</strong></div>
         )}
         <video ref={videoRef} controls playsInline preload="metadata" />
+        {isPlaying && chapters.length > 0 && (
+          <FragmentStrip segments={chapters} current={playingId} thumbs={thumbs} video={videoRef.current} onSeek={seekToChapter} />
+        )}
+        {playReport && <PlaybackReportView report={playReport} />}
         <div className="download-row">
-          <a
-            className={`download-btn${downloadUrlRef.current ? "" : " disabled"}`}
-            href={downloadUrlRef.current ?? "#"}
-            download="fragments-in-current-order.mp4"
-            onClick={(e) => { if (!downloadUrlRef.current) e.preventDefault(); }}
+          {downloadUrl ? (
+            <a className="download-btn" href={downloadUrl} download="fragments-in-current-order.mp4">
+              Download MP4 (current order)
+            </a>
+          ) : (
+            <button className="secondary" disabled={!frags.length || building} onClick={buildDownloadUrl}>
+              {building ? "Building MP4…" : "Build MP4 (current order)"}
+            </button>
+          )}
+          <button
+            className="secondary"
+            disabled={!frags.length}
+            onClick={() => setExporting(true)}
+            title="Progressive MP4, MKV or a re-encode, for tools that reject fragmented MP4"
           >
-            Download MP4 (current order)
-          </a>
+            Export…
+          </button>
+          <label className="muted" title="Adds sidx + mfra so players can seek without scanning the file">
+            <input type="checkbox" checked={withIndex} onChange={e => setWithIndex(e.target.checked)} /> Seek index
+          </label>
+          <label className="muted" title="Writes each fragment's label as a chapter (Nero chpl)">
+            <input type="checkbox" checked={withChapters} onChange={e => setWithChapters(e.target.checked)} /> Chapters
+          </label>
+          <label className="muted" title="Samples before the first keyframe of a fragment that doesn't follow the one it continues; applies to playback and downloads">
+            Leading non-keyframes{" "}
+            <select value={leading} onChange={e => setLeading(e.target.value as LeadingPolicy)}>
+              <option value="keep">keep</option>
+              <option value="drop">drop</option>
+              <option value="attach">attach to previous fragment</option>
+            </select>
+          </label>
         </div>
+        <div className="download-row">
+          <button className="secondary" disabled={!frags.length || packing} onClick={() => exportManifest("hls")}>HLS playlist</button>
+          <button className="secondary" disabled={!frags.length || packing} onClick={() => exportManifest("dash")}>DASH MPD</button>
+          <label className="muted" title="Bundle the manifest with the fragment files (trimmed ones included as cut)">
+            <input type="checkbox" checked={withZip} onChange={e => setWithZip(e.target.checked)} /> Zip with fragments
+          </label>
+          {packing && <span className="muted">Packing…</span>}
+        </div>
+        {isPlaying && chapters.length > 1 && (
+          <div className="chapters">
+            <h3>Chapters</h3>
+            <ol>
+              {chapters.map(c => (
+                <li key={c.id}>
+                  <button className={c.id === playingId ? "chapter active" : "chapter"} onClick={() => seekToChapter(c)}>
+                    <span className="chapter-time">{new Date(c.start * 1000).toISOString().slice(11, 19)}</span> {c.label}
+                  </button>
+                </li>
+              ))}
+            </ol>
+          </div>
+        )}
       </div>
 
+      {exporting && (
+        <ExportDialog buildSource={async () => {
+            const { files, labels } = await mergeInputs();
+            return mergeMP4(files, { chapters: withChapters, labels });
+          }} onClose={() => setExporting(false)} />
+      )}
+
+      {splitting && <SplitDialog onLoad={loadSplit} onClose={() => setSplitting(false)} />}
+
+      {inspecting && <InspectorDialog target={inspecting} onClose={() => setInspecting(null)} />}
+
       {!!toasts.length && (
         <div className="toasts">
           {toasts.map((m, i) => <div className="toast" key={i} role="status" aria-live="polite">{m}</div>)}
@@ -0,0 +1,106 @@
+import { useEffect, useRef, useState } from "react";
+import { EXPORT_FORMATS, exportWithFfmpeg, type ExportFormat, type ExportJob } from "./ffmpegExport";
+
+type Status =
+  | { state: "idle" }
+  | { state: "running"; step: string; progress: number }
+  | { state: "done"; url: string; name: string; size: number }
+  | { state: "error"; message: string };
+
+// Modal that merges the current order (via `buildSource`) and converts it with ffmpeg.wasm.
+export function ExportDialog({ buildSource, onClose }: { buildSource: () => Promise<Blob>; onClose: () => void }) {
+  const [format, setFormat] = useState<ExportFormat>("mp4-faststart");
+  const [kbps, setKbps] = useState("");
+  const [height, setHeight] = useState("");
+  const [status, setStatus] = useState<Status>({ state: "idle" });
+  const jobRef = useRef<ExportJob | null>(null);
+  const cancelledRef = useRef(false);
+  const urlRef = useRef<string | null>(null);
+
+  const info = EXPORT_FORMATS[format];
+
+  useEffect(() => () => {
+    jobRef.current?.cancel();
+    if (urlRef.current) URL.revokeObjectURL(urlRef.current);
+  }, []);
+
+  async function run() {
+    cancelledRef.current = false;
+    if (urlRef.current) URL.revokeObjectURL(urlRef.current);
+    urlRef.current = null;
+    setStatus({ state: "running", step: "Merging fragments…", progress: 0 });
+    try {
+      const source = await buildSource();
+      if (cancelledRef.current) return;
+      setStatus({ state: "running", step: "Loading ffmpeg and converting…", progress: 0 });
+      const job = exportWithFfmpeg(
+        source,
+        { format, videoKbps: info.reencode ? Number(kbps) || undefined : undefined, height: info.reencode ? Number(height) || undefined : undefined },
+        progress => setStatus(s => (s.state === "running" ? { ...s, progress } : s)),
+      );
+      jobRef.current = job;
+      const blob = await job.result;
+      urlRef.current = URL.createObjectURL(blob);
+      setStatus({ state: "done", url: urlRef.current, name: `fragments-in-current-order.${info.ext}`, size: blob.size });
+    } catch (e) {
+      if (!cancelledRef.current) setStatus({ state: "error", message: (e as Error).message });
+    } finally {
+      jobRef.current = null;
+    }
+  }
+
+  function cancel() {
+    cancelledRef.current = true;
+    jobRef.current?.cancel();
+    setStatus({ state: "idle" });
+  }
+
+  const running = status.state === "running";
+  return (
+    <div className="modal-backdrop" role="dialog" aria-modal="true" aria-label="Export">
+      <div className="modal">
+        <h2>Export</h2>
+        <p className="muted">Runs ffmpeg.wasm in this tab; nothing is uploaded. The ffmpeg core is downloaded on first use.</p>
+
+        <label className="field">
+          Format
+          <select value={format} disabled={running} onChange={e => setFormat(e.target.value as ExportFormat)}>
+            {(Object.keys(EXPORT_FORMATS) as ExportFormat[]).map(f => <option key={f} value={f}>{EXPORT_FORMATS[f].label}</option>)}
+          </select>
+        </label>
+        {info.reencode && (
+          <div className="row">
+            <label className="field">
+              Video bitrate (kbps)
+              <input type="number" min={100} placeholder="auto (quality)" value={kbps} disabled={running} onChange={e => setKbps(e.target.value)} />
+            </label>
+            <label className="field">
+              Height (px)
+              <input type="number" min={144} placeholder="source" value={height} disabled={running} onChange={e => setHeight(e.target.value)} />
+            </label>
+          </div>
+        )}
+
+        {running && (
+          <div className="ingest" role="status">
+            <progress value={status.progress} max={1} />
+            <span>{status.step} {Math.round(status.progress * 100)}%</span>
+          </div>
+        )}
+        {status.state === "error" && <div className="error">Export failed ({status.message}).</div>}
+        {status.state === "done" && (
+          <a className="download-btn" href={status.url} download={status.name}>
+            Download {status.name} ({(status.size / 1024 / 1024).toFixed(2)} MB)
+          </a>
+        )}
+
+        <div className="row">
+          {running
+            ? <button className="danger" onClick={cancel}>Cancel</button>
+            : <button onClick={run}>Export</button>}
+          <button className="secondary" onClick={() => { cancel(); onClose(); }}>Close</button>
+        </div>
+      </div>
+    </div>
+  );
+}
@@ -0,0 +1,59 @@
+import { useEffect, useState } from "react";
+
+// One fragment on the strip, in seconds on the player timeline.
+export interface StripSegment {
+  id: string;
+  label: string;
+  start: number;
+  end: number;
+}
+
+const clock = (t: number) => new Date(t * 1000).toISOString().slice(11, 19);
+
+// Played fragments as proportional segments under the video, with the first-frame thumbnail
+// of each (as they become available), the current one highlighted and a playhead.
+// Clicking a segment seeks to its start.
+export function FragmentStrip({ segments, current, thumbs, video, onSeek }: {
+  segments: StripSegment[];
+  current: string | null;                 // id of the segment playing
+  thumbs: Record<string, string>;         // image URL by segment id
+  video: HTMLVideoElement | null;
+  onSeek: (segment: StripSegment) => void;
+}) {
+  const [time, setTime] = useState(0);
+  useEffect(() => {
+    if (!video) return;
+    const onTime = () => setTime(video.currentTime);
+    video.addEventListener("timeupdate", onTime);
+    video.addEventListener("seeked", onTime);
+    return () => {
+      video.removeEventListener("timeupdate", onTime);
+      video.removeEventListener("seeked", onTime);
+    };
+  }, [video]);
+
+  const total = Math.max(1e-6, ...segments.map(s => s.end));
+  const pct = (t: number) => `${Math.min(100, Math.max(0, (t / total) * 100))}%`;
+
+  return (
+    <div className="strip" role="group" aria-label="Fragments">
+      {segments.map(s => (
+        <button
+          key={s.id}
+          className={s.id === current ? "strip-seg active" : "strip-seg"}
+          style={{
+            left: pct(s.start),
+            width: `max(3px, ${pct(s.end - s.start)})`,
+            backgroundImage: thumbs[s.id] ? `url(${thumbs[s.id]})` : undefined,
+          }}
+          title={`${s.label} · ${clock(s.start)}–${clock(s.end)}`}
+          aria-current={s.id === current || undefined}
+          onClick={() => onSeek(s)}
+        >
+          <span>{s.label}</span>
+        </button>
+      ))}
+      <div className="strip-playhead" style={{ left: pct(time) }} />
+    </div>
+  );
+}
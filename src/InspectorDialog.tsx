@@ -0,0 +1,256 @@
+import { useMemo, useState } from "react";
+import {
+  parseBoxTree, readFullBoxHeader, readInitInfo, readMfhd, readMoof, readTfdt, readTfhd, isSyncSample,
+  type Mp4Box, type TrafInfo, type TrexInfo,
+} from "./mp4Boxes";
+
+// Init track as mp4box describes it (see extractCodecsFromInit).
+export interface TrackSummary {
+  id: number;
+  kind: string;          // "video", "audio", ...
+  codec: string;
+  timescale: number;
+  duration?: number;     // seconds
+  samples?: number;
+  bitrate?: number;
+  width?: number;
+  height?: number;
+  sampleRate?: number;
+  channels?: number;
+  language?: string;
+}
+
+export interface InspectTarget {
+  name: string;
+  buf: ArrayBuffer;
+  complete: boolean;                 // false: header bytes only, mdat payloads cut (see probe.ts)
+  init?: { name: string; buf: ArrayBuffer };
+  tracks?: TrackSummary[];
+}
+
+const HEX_STEP = 1024;
+
+const hex = (n: number, width = 0) => `0x${n.toString(16).padStart(width, "0")}`;
+
+// Offset | 16 bytes | ASCII, one line per row.
+function hexLines(u8: Uint8Array, base: number): string {
+  const lines: string[] = [];
+  for (let p = 0; p < u8.length; p += 16) {
+    const row = Array.from(u8.subarray(p, p + 16));
+    const bytes = row.map(b => b.toString(16).padStart(2, "0")).join(" ").padEnd(47);
+    const text = row.map(b => (b >= 0x20 && b < 0x7f ? String.fromCharCode(b) : ".")).join("");
+    lines.push(`${(base + p).toString(16).padStart(8, "0")}  ${bytes}  ${text}`);
+  }
+  return lines.join("\n");
+}
+
+function flagText(flags: number): string {
+  const deps = (flags >>> 24) & 3;
+  const parts = [isSyncSample(flags) ? "sync" : "non-sync"];
+  if (deps === 2) parts.push("independent");
+  if (deps === 1) parts.push("depends on others");
+  return parts.join(", ");
+}
+
+function BoxNode({ box, depth, selected, onSelect }: {
+  box: Mp4Box; depth: number; selected: Mp4Box | null; onSelect: (b: Mp4Box) => void;
+}) {
+  return (
+    <>
+      <button
+        className={box === selected ? "box-node active" : "box-node"}
+        style={{ paddingLeft: 8 + depth * 14 }}
+        onClick={() => onSelect(box)}
+      >
+        <code>{box.type}</code>
+        <span className="muted"> @{box.start} · {box.size} B{box.truncated ? " · truncated" : ""}</span>
+      </button>
+      {box.children?.map((c, i) => <BoxNode key={i} box={c} depth={depth + 1} selected={selected} onSelect={onSelect} />)}
+    </>
+  );
+}
+
+function SampleTable({ traf }: { traf: TrafInfo }) {
+  let dts = traf.baseDecodeTime ?? 0;
+  let n = 0;
+  return (
+    <table className="sample-table">
+      <thead>
+        <tr><th>#</th><th>offset</th><th>size</th><th>duration</th><th>dts</th><th>cto</th><th>flags</th><th /></tr>
+      </thead>
+      <tbody>
+        {traf.runs.flatMap(run => {
+          let at = run.dataStart;
+          return run.samples.map(s => {
+            const row = (
+              <tr key={n} className={isSyncSample(s.flags) ? "sync" : undefined}>
+                <td>{n + 1}</td><td>{at}</td><td>{s.size}</td><td>{s.duration}</td><td>{dts}</td>
+                <td>{s.compositionTimeOffset}</td><td><code>{hex(s.flags, 8)}</code></td><td>{flagText(s.flags)}</td>
+              </tr>
+            );
+            n++;
+            at += s.size;
+            dts += s.duration;
+            return row;
+          });
+        })}
+      </tbody>
+    </table>
+  );
+}
+
+// Parsed values of the boxes fragments are usually debugged by.
+function BoxDetails({ buf, box, parentOf, trex }: {
+  buf: ArrayBuffer; box: Mp4Box; parentOf: Map<Mp4Box, Mp4Box>; trex: TrexInfo[];
+}) {
+  const hdr = readFullBoxHeader(buf, box);
+  const fields: Array<[string, string | number]> = [
+    ["offset", box.start], ["size", box.size], ["header", box.headerSize], ["payload", box.end - box.start - box.headerSize],
+  ];
+  let table: TrafInfo | undefined;
+  let trafs: TrafInfo[] | undefined;
+
+  const moofOf = (b: Mp4Box) => { let p: Mp4Box | undefined = b; while (p && p.type !== "moof") p = parentOf.get(p); return p; };
+  const moof = moofOf(box);
+  const resolved = moof ? readMoof(buf, moof, trex) : undefined;
+  const trafBox = box.type === "traf" ? box : parentOf.get(box)?.type === "traf" ? parentOf.get(box) : undefined;
+
+  switch (box.type) {
+    case "mfhd": fields.push(["sequence_number", readMfhd(buf, box) ?? "?"]); break;
+    case "tfdt":
+      fields.push(["version", hdr?.version ?? "?"], ["baseMediaDecodeTime", readTfdt(buf, box) ?? "?"]);
+      break;
+    case "tfhd": {
+      const t = readTfhd(buf, box);
+      if (t) {
+        fields.push(["flags", hex(t.flags, 6)], ["track_ID", t.trackId]);
+        if (t.baseDataOffset !== undefined) fields.push(["base_data_offset", t.baseDataOffset]);
+        if (t.flags & 0x020000) fields.push(["default-base-is-moof", "yes"]);
+        if (t.sampleDescriptionIndex !== undefined) fields.push(["sample_description_index", t.sampleDescriptionIndex]);
+        if (t.defaultSampleDuration !== undefined) fields.push(["default_sample_duration", t.defaultSampleDuration]);
+        if (t.defaultSampleSize !== undefined) fields.push(["default_sample_size", t.defaultSampleSize]);
+        if (t.defaultSampleFlags !== undefined) fields.push(["default_sample_flags", `${hex(t.defaultSampleFlags, 8)} (${flagText(t.defaultSampleFlags)})`]);
+      }
+      break;
+    }
+    case "moof":
+      trafs = resolved?.trafs;
+      if (resolved?.sequence !== undefined) fields.push(["sequence_number", resolved.sequence]);
+      break;
+    default:
+      if (hdr && ["trun", "mfhd", "tfdt", "tfhd", "mvhd", "mdhd", "tkhd", "hdlr", "trex", "sidx", "stsd", "senc", "saiz", "saio", "pssh"].includes(box.type)) {
+        fields.push(["version", hdr.version], ["flags", hex(hdr.flags, 6)]);
+      }
+  }
+  if (trafBox && resolved) {
+    const traf = resolved.trafs.find(t => t.box === trafBox);
+    if (box.type === "trun" || box.type === "traf") table = traf;
+  }
+
+  return (
+    <div className="box-details">
+      <h3><code>{box.type}</code></h3>
+      <dl>{fields.map(([k, v]) => <div key={k}><dt>{k}</dt><dd>{v}</dd></div>)}</dl>
+      {trafs && (
+        <table className="sample-table">
+          <thead><tr><th>track</th><th>tfdt</th><th>samples</th><th>duration</th><th>first sample</th></tr></thead>
+          <tbody>
+            {trafs.map((t, i) => {
+              const first = t.runs[0]?.samples[0];
+              return (
+                <tr key={i}>
+                  <td>{t.tfhd.trackId}</td><td>{t.baseDecodeTime ?? "—"}</td>
+                  <td>{t.runs.reduce((n, r) => n + r.samples.length, 0)}</td><td>{t.duration}</td>
+                  <td>{first ? flagText(first.flags) : "—"}</td>
+                </tr>
+              );
+            })}
+          </tbody>
+        </table>
+      )}
+      {table && <SampleTable traf={table} />}
+    </div>
+  );
+}
+
+// Box tree of one file with parsed fragment headers, trun sample tables and a hex view.
+export function InspectorDialog({ target, onClose }: { target: InspectTarget; onClose: () => void }) {
+  const { buf } = target;
+  const tree = useMemo(() => parseBoxTree(buf), [buf]);
+  const parentOf = useMemo(() => {
+    const out = new Map<Mp4Box, Mp4Box>();
+    const walk = (b: Mp4Box) => b.children?.forEach(c => { out.set(c, b); walk(c); });
+    tree.boxes.forEach(walk);
+    return out;
+  }, [tree]);
+  // trex defaults come from the init the fragment plays against (or the file itself).
+  const trex = useMemo(() => {
+    const src = target.init?.buf ?? buf;
+    return readInitInfo(src, parseBoxTree(src).boxes)?.tracks.flatMap(t => (t.trex ? [t.trex] : [])) ?? [];
+  }, [buf, target.init]);
+  const [selected, setSelected] = useState<Mp4Box | null>(tree.boxes.find(b => b.type === "moof") ?? tree.boxes[0] ?? null);
+  const [hexBytes, setHexBytes] = useState(HEX_STEP);
+
+  const select = (b: Mp4Box) => { setSelected(b); setHexBytes(HEX_STEP); };
+  const shown = selected ? new Uint8Array(buf, selected.start, Math.min(selected.end - selected.start, hexBytes)) : null;
+
+  return (
+    <div className="modal-backdrop" role="dialog" aria-modal="true" aria-label={`Inspect ${target.name}`}>
+      <div className="modal inspector">
+        <h2>{target.name}</h2>
+        <p className="muted">
+          {buf.byteLength} bytes{target.complete ? "" : " read (header bytes only: mdat payloads are cut, so later offsets are shifted)"}
+          {target.init && <> · read against <code>{target.init.name}</code></>}
+        </p>
+        {tree.issues.length > 0 && (
+          <div className="error">{tree.issues.map((i, n) => <div key={n}>@{i.offset}{i.type ? ` ${i.type}` : ""}: {i.message}</div>)}</div>
+        )}
+        {target.tracks && target.tracks.length > 0 && (
+          <table className="sample-table">
+            <thead><tr><th>track</th><th>type</th><th>codec</th><th>timescale</th><th>duration</th><th>samples</th><th>details</th></tr></thead>
+            <tbody>
+              {target.tracks.map(t => (
+                <tr key={t.id}>
+                  <td>{t.id}</td><td>{t.kind}</td><td><code>{t.codec}</code></td><td>{t.timescale}</td>
+                  <td>{t.duration !== undefined ? `${t.duration.toFixed(3)} s` : "—"}</td><td>{t.samples ?? "—"}</td>
+                  <td>
+                    {[
+                      t.width && t.height ? `${t.width}×${t.height}` : "",
+                      t.sampleRate ? `${t.sampleRate} Hz` : "",
+                      t.channels ? `${t.channels} ch` : "",
+                      t.bitrate ? `${Math.round(t.bitrate / 1000)} kbps` : "",
+                      t.language && t.language !== "und" ? t.language : "",
+                    ].filter(Boolean).join(" · ")}
+                  </td>
+                </tr>
+              ))}
+            </tbody>
+          </table>
+        )}
+
+        <div className="inspector-body">
+          <div className="box-tree">
+            {tree.boxes.map((b, i) => <BoxNode key={i} box={b} depth={0} selected={selected} onSelect={select} />)}
+          </div>
+          <div className="inspector-detail">
+            {selected && <BoxDetails buf={buf} box={selected} parentOf={parentOf} trex={trex} />}
+            {selected && shown && (
+              <>
+                <pre className="hex">{hexLines(shown, selected.start)}</pre>
+                {shown.length < selected.end - selected.start && (
+                  <button className="secondary" onClick={() => setHexBytes(n => n * 4)}>
+                    More ({selected.end - selected.start - shown.length} bytes left)
+                  </button>
+                )}
+              </>
+            )}
+          </div>
+        </div>
+
+        <div className="row">
+          <button className="secondary" onClick={onClose}>Close</button>
+        </div>
+      </div>
+    </div>
+  );
+}
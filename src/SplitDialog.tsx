@@ -0,0 +1,149 @@
+import { useEffect, useRef, useState } from "react";
+import { splitMP4, splitNames, type SplitRule } from "./split";
+import { zipStore } from "./zip";
+
+type By = SplitRule["by"];
+
+// A split's files, init first.
+export interface SplitFile {
+  name: string;
+  buf: ArrayBuffer;
+  kind: "init" | "media";
+}
+
+type Status =
+  | { state: "idle" }
+  | { state: "running" }
+  | { state: "done"; source: string; files: SplitFile[]; snapped: number }
+  | { state: "error"; message: string };
+
+const BY_LABELS: Record<By, string> = {
+  time: "Every N seconds",
+  size: "Every N MB",
+  keyframe: "At every keyframe",
+  times: "At chosen times",
+};
+
+function ruleOf(by: By, value: string): SplitRule {
+  switch (by) {
+    case "time": return { by, seconds: Number(value) };
+    case "size": return { by, bytes: Number(value) * 1024 * 1024 };
+    case "keyframe": return { by };
+    case "times": return { by, at: value.split(/[\s,;]+/).filter(Boolean).map(parseTime) };
+  }
+}
+
+// Seconds, or [h:]mm:ss(.fff).
+function parseTime(s: string): number {
+  const t = s.split(":").reduce((n, part) => n * 60 + Number(part), 0);
+  if (!Number.isFinite(t)) throw new Error(`"${s}" is not a time`);
+  return t;
+}
+
+// Modal that cuts one MP4 into an init segment plus media fragments, for download as a zip
+// or to replace the fragment list.
+export function SplitDialog({ onLoad, onClose }: { onLoad: (files: SplitFile[]) => void; onClose: () => void }) {
+  const [file, setFile] = useState<File | null>(null);
+  const [by, setBy] = useState<By>("time");
+  const [value, setValue] = useState("4");
+  const [status, setStatus] = useState<Status>({ state: "idle" });
+  const [zipUrl, setZipUrl] = useState<string | null>(null);
+  const urlRef = useRef<string | null>(null);
+
+  useEffect(() => () => {
+    if (urlRef.current) URL.revokeObjectURL(urlRef.current);
+  }, []);
+
+  function reset() {
+    if (urlRef.current) URL.revokeObjectURL(urlRef.current);
+    urlRef.current = null;
+    setZipUrl(null);
+    setStatus({ state: "idle" });
+  }
+
+  async function run() {
+    if (!file) return;
+    reset();
+    setStatus({ state: "running" });
+    try {
+      const r = await splitMP4(await file.arrayBuffer(), ruleOf(by, value));
+      const names = splitNames(file.name, r.pieces.length);
+      const files: SplitFile[] = [
+        { name: names.init, buf: r.init, kind: "init" },
+        ...r.pieces.map((p, i) => ({ name: names.pieces[i], buf: p.buf, kind: "media" as const })),
+      ];
+      const zip = new Blob(await zipStore(files.map(f => ({ name: f.name, data: f.buf }))), { type: "application/zip" });
+      urlRef.current = URL.createObjectURL(zip);
+      setZipUrl(urlRef.current);
+      setStatus({ state: "done", source: file.name, files, snapped: r.snapped });
+    } catch (e) {
+      setStatus({ state: "error", message: (e as Error).message });
+    }
+  }
+
+  const running = status.state === "running";
+  return (
+    <div className="modal-backdrop" role="dialog" aria-modal="true" aria-label="Split MP4">
+      <div className="modal">
+        <h2>Split MP4</h2>
+        <p className="muted">
+          Cuts one MP4 (regular or fragmented) into an init segment plus media fragments. Cuts are made on keyframes,
+          so each fragment starts on one; times and sizes are approximate.
+        </p>
+
+        <label className="field">
+          File
+          <input type="file" accept="video/mp4,.mp4,.m4v,.m4a,.cmfv,.cmfa" disabled={running} onChange={e => { setFile(e.target.files?.[0] ?? null); reset(); }} />
+        </label>
+        <div className="row">
+          <label className="field">
+            Cut
+            <select value={by} disabled={running} onChange={e => { setBy(e.target.value as By); setValue(e.target.value === "size" ? "10" : e.target.value === "time" ? "4" : ""); }}>
+              {(Object.keys(BY_LABELS) as By[]).map(b => <option key={b} value={b}>{BY_LABELS[b]}</option>)}
+            </select>
+          </label>
+          {by !== "keyframe" && (
+            <label className="field">
+              {by === "time" ? "Seconds" : by === "size" ? "MB" : "Times (s or mm:ss, comma-separated)"}
+              <input
+                type={by === "times" ? "text" : "number"}
+                min={0}
+                step="any"
+                placeholder={by === "times" ? "0:30, 1:15.5, 200" : undefined}
+                value={value}
+                disabled={running}
+                onChange={e => setValue(e.target.value)}
+              />
+            </label>
+          )}
+        </div>
+
+        {running && <div className="ingest" role="status"><span>Splitting {file?.name}…</span></div>}
+        {status.state === "error" && <div className="error">Split failed ({status.message}).</div>}
+        {status.state === "done" && (
+          <>
+            <p>
+              {status.source}: init + {status.files.length - 1} fragment(s)
+              {status.snapped > 0 && <span className="muted"> · {status.snapped} chosen time(s) moved back to a keyframe</span>}
+            </p>
+            {zipUrl && (
+              <a className="download-btn" href={zipUrl} download={`${status.source.replace(/\.[^.]+$/, "")}-split.zip`}>
+                Download zip
+              </a>
+            )}
+          </>
+        )}
+
+        <div className="row">
+          <button onClick={run} disabled={!file || running}>Split</button>
+          {status.state === "done" && (
+            <button className="secondary" onClick={() => { onLoad(status.files); onClose(); }} title="Replace the fragment list with these files">
+              Load into list
+            </button>
+          )}
+          <button className="secondary" onClick={onClose}>Close</button>
+        </div>
+      </div>
+    </div>
+  );
+}
@@ -0,0 +1,74 @@
+import type { TimelineReport, TimelineIssue, TimelineSpan } from "./timeline";
+
+const ISSUE_TEXT: Record<TimelineIssue["kind"], string> = {
+  gap: "gap before",
+  overlap: "overlaps",
+  duplicate: "duplicates",
+  "out-of-order": "starts before",
+  "no-timing": "has no tfdt",
+};
+
+function describe(issue: TimelineIssue, labels: string[]): string {
+  const other = issue.other !== undefined ? ` ${labels[issue.other]}` : "";
+  const track = issue.trackId !== undefined ? ` (track ${issue.trackId})` : "";
+  const amount = issue.seconds ? ` by ${issue.seconds.toFixed(3)} s` : "";
+  if (issue.kind === "gap") return `${issue.seconds.toFixed(3)} s gap before ${labels[issue.index]}${track}`;
+  return `${labels[issue.index]} ${ISSUE_TEXT[issue.kind]}${other}${amount}${track}`;
+}
+
+// Timeline lanes (one per init group and track) with each fragment as a bar; problems are highlighted.
+export function TimelineView({ report, labels, groupOf }: {
+  report: TimelineReport;
+  labels: string[];                       // fragment names by list index
+  groupOf: (initIndex: number) => number | undefined;
+}) {
+  const issueFor = (s: TimelineSpan) => report.issues.find(i => i.index === s.index && i.trackId === s.trackId);
+
+  return (
+    <div className="timeline">
+      <h3>Timeline</h3>
+      {report.lanes.map(lane => {
+        const range = Math.max(lane.end - lane.start, 1e-6);
+        const pct = (ticks: number, ts: number) => ((ticks / ts - lane.start) / range) * 100;
+        return (
+          <div className="tl-lane" key={`${lane.init}:${lane.trackId}`}>
+            <div className="tl-label">
+              G{groupOf(lane.init) ?? "?"} · track {lane.trackId}{lane.handler && ` (${lane.handler})`} ·{" "}
+              {lane.start.toFixed(2)}–{lane.end.toFixed(2)} s
+            </div>
+            <div className="tl-track">
+              {lane.spans.map((s, i) => {
+                const issue = issueFor(s);
+                const prev = lane.spans[i - 1];
+                const left = pct(s.start, s.timescale);
+                return [
+                  issue?.kind === "gap" && prev && (
+                    <div
+                      key={`gap${i}`}
+                      className="tl-gap"
+                      style={{ left: `${pct(prev.end, prev.timescale)}%`, width: `${left - pct(prev.end, prev.timescale)}%` }}
+                      title={describe(issue, labels)}
+                    />
+                  ),
+                  <div
+                    key={i}
+                    className={`tl-bar${issue && issue.kind !== "gap" ? ` tl-${issue.kind}` : ""}`}
+                    style={{ left: `${left}%`, width: `${Math.max(pct(s.end, s.timescale) - left, 0.3)}%` }}
+                    title={`${labels[s.index]}: ${(s.start / s.timescale).toFixed(3)}–${(s.end / s.timescale).toFixed(3)} s`}
+                  />,
+                ];
+              })}
+            </div>
+          </div>
+        );
+      })}
+      {report.issues.length > 0 ? (
+        <ul className="tl-issues">
+          {report.issues.map((issue, i) => <li key={i} className={`tl-${issue.kind}`}>{describe(issue, labels)}</li>)}
+        </ul>
+      ) : (
+        <div className="muted">No gaps, overlaps, duplicates or out-of-order fragments.</div>
+      )}
+    </div>
+  );
+}
@@ -0,0 +1,76 @@
+// ClearKey (org.w3.clearkey) over EME with keys entered by the user: the "license server" is
+// local, answering each key request with a JSON Web Key set built from the entered keys.
+
+import { utf8 } from "./mp4Write";
+
+export interface ClearKeyPair {
+  kid: string;   // 32 hex digits
+  key: string;   // 32 hex digits
+}
+
+function hexToBytes(hex: string): Uint8Array {
+  return Uint8Array.from(hex.match(/../g) ?? [], b => parseInt(b, 16));
+}
+
+function base64url(bytes: Uint8Array): string {
+  return btoa(String.fromCharCode(...Array.from(bytes))).replace(/\+/g, "-").replace(/\//g, "_").replace(/=+$/, "");
+}
+
+function fromBase64url(s: string): Uint8Array {
+  const b64 = s.replace(/-/g, "+").replace(/_/g, "/").padEnd(Math.ceil(s.length / 4) * 4, "=");
+  return Uint8Array.from(atob(b64), c => c.charCodeAt(0));
+}
+
+const toHex = (u8: Uint8Array) => Array.from(u8, b => b.toString(16).padStart(2, "0")).join("");
+const jsonBytes = (v: unknown) => utf8(JSON.stringify(v));
+const AUDIO_CODEC = /^(mp4a|opus|ac-3|ec-3|flac)/i;
+
+// Per-codec capabilities split into audio and video from SourceBuffer MIME types.
+function capabilities(mimes: string[]) {
+  const codecs = mimes.flatMap(m => m.match(/codecs="([^"]*)"/)?.[1].split(",").map(c => c.trim()) ?? []);
+  const unique = Array.from(new Set(codecs));
+  return {
+    video: unique.filter(c => !AUDIO_CODEC.test(c)).map(c => ({ contentType: `video/mp4; codecs="${c}"` })),
+    audio: unique.filter(c => AUDIO_CODEC.test(c)).map(c => ({ contentType: `audio/mp4; codecs="${c}"` })),
+  };
+}
+
+// License for a ClearKey request ({"kids": [...], "type": ...}); KIDs without a key are left out.
+export function clearKeyLicense(request: ArrayBuffer, keys: ClearKeyPair[]): { license: Uint8Array; missing: string[] } {
+  const { kids = [] } = JSON.parse(String.fromCharCode(...Array.from(new Uint8Array(request)))) as { kids?: string[] };
+  const byKid = new Map(keys.map(k => [k.kid, k.key]));
+  const missing: string[] = [];
+  const jwks = kids.flatMap(kid => {
+    const key = byKid.get(toHex(fromBase64url(kid)));
+    if (!key) { missing.push(toHex(fromBase64url(kid))); return []; }
+    return [{ kty: "oct", kid, k: base64url(hexToBytes(key)) }];
+  });
+  return { license: jsonBytes({ keys: jwks, type: "temporary" }), missing };
+}
+
+// Attaches ClearKey MediaKeys to the element and opens one session for all entered key IDs
+// ("keyids" init data), so it works whether or not the content carries a pssh.
+// Returns a function that closes the session.
+export async function attachClearKey(
+  video: HTMLMediaElement, keys: ClearKeyPair[], mimes: string[], onWarn: (msg: string) => void,
+): Promise<() => void> {
+  if (!navigator.requestMediaKeySystemAccess) throw new Error("EME isn't available (needs a secure context)");
+  const caps = capabilities(mimes);
+  const access = await navigator.requestMediaKeySystemAccess("org.w3.clearkey", [{
+    initDataTypes: ["keyids", "cenc"],
+    ...(caps.video.length ? { videoCapabilities: caps.video } : {}),
+    ...(caps.audio.length ? { audioCapabilities: caps.audio } : {}),
+  }]);
+  const mediaKeys = await access.createMediaKeys();
+  await video.setMediaKeys(mediaKeys);
+
+  const session = mediaKeys.createSession("temporary");
+  session.addEventListener("message", e => {
+    const { license, missing } = clearKeyLicense((e as MediaKeyMessageEvent).message, keys);
+    if (missing.length) onWarn(`No ClearKey key entered for KID ${missing.join(", ")}`);
+    session.update(license).catch(err => onWarn(`ClearKey license rejected (${(err as Error).message})`));
+  });
+  await session.generateRequest("keyids", jsonBytes({ kids: keys.map(k => base64url(hexToBytes(k.kid))) }));
+
+  return () => { session.close().catch(() => {}); };
+}
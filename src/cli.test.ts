@@ -0,0 +1,75 @@
+/**
+ * @jest-environment node
+ */
+import { Blob as NodeBlob } from "buffer";
+import { run, type CliIO } from "./cli";
+import { fixtureInit, fixtureFragment } from "./testFixtures";
+
+// Node has a global Blob; jest's node environment doesn't pass it through.
+const g = globalThis as { Blob?: unknown };
+g.Blob = g.Blob ?? NodeBlob;
+
+function memoryIO(files: Record<string, ArrayBuffer>) {
+  const out: string[] = [];
+  const err: string[] = [];
+  const written = new Map<string, Uint8Array>();
+  const io: CliIO = {
+    read: path => {
+      if (!files[path]) throw new Error(`ENOENT: ${path}`);
+      return files[path];
+    },
+    write: (path, data) => written.set(path, data),
+    out: text => out.push(text),
+    err: text => err.push(text),
+  };
+  return { io, out, err, written };
+}
+
+const files = {
+  "init.mp4": fixtureInit(),
+  "b.m4s": fixtureFragment({ seq: 2, dts: 100, durations: [50, 50] }),
+  "a.m4s": fixtureFragment({ seq: 1, dts: 0, durations: [50, 50] }),
+};
+
+test("orders, inspects and merges files as JSON", async () => {
+  const order = memoryIO(files);
+  expect(await run(["order", "--auto", "--json", "b.m4s", "a.m4s", "init.mp4"], order.io)).toBe(0);
+  expect(JSON.parse(order.out[0])).toMatchObject({
+    order: [
+      { file: "init.mp4", kind: "init", init: null },
+      { file: "a.m4s", kind: "media", init: "init.mp4", confidence: 1 },
+      { file: "b.m4s", kind: "media", init: "init.mp4", confidence: 1 },
+    ],
+    duplicates: [],
+    unplaced: [],
+  });
+
+  const inspect = memoryIO(files);
+  await run(["inspect", "--json", "init.mp4", "b.m4s"], inspect.io);
+  expect(JSON.parse(inspect.out[0])).toMatchObject([
+    { file: "init.mp4", kind: "init", tracks: [{ trackId: 1, handler: "vide", timescale: 1000 }] },
+    { file: "b.m4s", kind: "media", seq: 2, dts: 100 },
+  ]);
+
+  const merge = memoryIO(files);
+  expect(await run(["merge", "-o", "out.mp4", "init.mp4", "a.m4s", "b.m4s"], merge.io)).toBe(0);
+  expect(merge.written.get("out.mp4")?.length).toBeGreaterThan(0);
+  expect(merge.out[0]).toMatch(/^Wrote out\.mp4 .* from 3 file\(s\)/);
+});
+
+test("validate reports timeline issues; bad usage exits 2", async () => {
+  const validate = memoryIO(files);
+  expect(await run(["validate", "--json", "init.mp4", "b.m4s", "a.m4s"], validate.io)).toBe(0);
+  const report = JSON.parse(validate.out[0]);
+  expect(report.ok).toBe(true);
+  expect(report.timeline).toEqual([expect.objectContaining({ kind: "out-of-order", file: "a.m4s", other: "b.m4s" })]);
+
+  const bad = memoryIO(files);
+  expect(await run(["merge", "init.mp4"], bad.io)).toBe(2);
+  expect(await run(["frobnicate", "init.mp4"], bad.io)).toBe(2);
+  expect(await run(["inspect", "--fast", "init.mp4"], bad.io)).toBe(2);
+  expect(await run(["inspect", "missing.m4s"], bad.io)).toBe(1);
+  expect(bad.err.map(e => e.split("\n")[0])).toEqual([
+    "merge: -o <out.mp4> is required", "Unknown command frobnicate", "Unknown option --fast", "Could not read input (ENOENT: missing.m4s)",
+  ]);
+});
@@ -0,0 +1,265 @@
+#!/usr/bin/env node
+// mp4-merger command line: the browser-free core (classification, init matching, ordering,
+// remuxing, pre-flight checks) run over files on disk. Built with `npm run build:cli`.
+//
+//   mp4-merger inspect init.mp4 seg*.m4s
+//   mp4-merger order --auto --json *.m4s init.mp4
+//   mp4-merger merge -o out.mp4 init.mp4 frag*.m4s
+//   mp4-merger validate init.mp4 frag*.m4s
+
+import { readFileSync, writeFileSync } from "fs";
+import { basename } from "path";
+import { classifyFragment, probeOrderKey, mergeMP4, checkFormatCompatibility } from "./mergeMP4";
+import { planOrder } from "./ordering";
+import { assignInits } from "./initGroups";
+import { analyzeTimeline } from "./timeline";
+import { parseBoxTree, readInitInfo } from "./mp4Boxes";
+import { describeSampleEntry } from "./sampleEntry";
+import { detectProtection } from "./protection";
+import type { LeadingPolicy } from "./keyframes";
+
+export interface CliIO {
+  read: (path: string) => ArrayBuffer;
+  write: (path: string, data: Uint8Array) => void;
+  out: (text: string) => void;
+  err: (text: string) => void;
+}
+
+const nodeIO: CliIO = {
+  read: path => {
+    const b = readFileSync(path);
+    return b.buffer.slice(b.byteOffset, b.byteOffset + b.byteLength) as ArrayBuffer;
+  },
+  write: (path, data) => writeFileSync(path, data),
+  out: text => process.stdout.write(text + "\n"),
+  err: text => process.stderr.write(text + "\n"),
+};
+
+const USAGE = `Usage: mp4-merger <command> [options] <files...>
+
+Commands:
+  inspect               kind, ordering hints, tracks and encryption of each file
+  order [--auto]        play order with the init each fragment belongs to (--auto orders
+                        by per-track tfdt, mfhd, then file name, with a confidence each)
+  merge -o <out.mp4>    merge into one fragmented MP4 in the given (or --auto) order
+                        [--no-index] skip sidx + mfra, [--chapters] a chapter per file,
+                        [--leading drop|attach] non-keyframe samples that start a fragment
+                        at a seam: drop them, or attach them to the fragment they continue
+  validate              pre-flight checks and timeline issues; exits 1 on errors
+
+Options:
+  --json                machine-readable output on stdout
+  -h, --help            this help`;
+
+interface Args {
+  command?: string;
+  files: string[];
+  flags: Set<string>;
+  output?: string;
+  leading?: LeadingPolicy;
+}
+
+const FLAGS = new Set(["--json", "--auto", "--no-index", "--chapters", "--help", "-h"]);
+
+function parseArgs(argv: string[]): Args {
+  const args: Args = { files: [], flags: new Set() };
+  for (let i = 0; i < argv.length; i++) {
+    const a = argv[i];
+    if (a === "-o" || a === "--output") {
+      if (i + 1 >= argv.length) throw new Error(`${a} needs a file name`);
+      args.output = argv[++i];
+    } else if (a === "--leading") {
+      const v = argv[++i];
+      if (v !== "keep" && v !== "drop" && v !== "attach") throw new Error("--leading needs keep, drop or attach");
+      args.leading = v;
+    } else if (a.startsWith("-") && a !== "-") {
+      if (!FLAGS.has(a)) throw new Error(`Unknown option ${a}`);
+      args.flags.add(a);
+    } else if (!args.command) {
+      args.command = a;
+    } else {
+      args.files.push(a);
+    }
+  }
+  return args;
+}
+
+interface Input {
+  path: string;
+  name: string;
+  kind: string;
+  buf: ArrayBuffer;
+}
+
+function inspect(input: Input) {
+  const { seq, dts } = input.kind === "media" ? probeOrderKey(input.buf) : { seq: undefined, dts: undefined };
+  const info = input.kind === "init" || input.kind === "progressive"
+    ? readInitInfo(input.buf, parseBoxTree(input.buf).boxes)
+    : undefined;
+  const tracks = info?.tracks.map(t => {
+    const entry = t.sampleEntries[0] ? describeSampleEntry(input.buf, t.sampleEntries[0]) : undefined;
+    return {
+      trackId: t.trackId, handler: t.handler, timescale: t.timescale, codec: entry?.codec,
+      ...(entry?.encrypted ? { scheme: entry.scheme ?? "unknown" } : {}),
+    };
+  });
+  const protection = detectProtection(input.buf);
+  return {
+    file: input.path, size: input.buf.byteLength, kind: input.kind,
+    ...(seq !== undefined ? { seq } : {}),
+    ...(dts !== undefined ? { dts } : {}),
+    ...(tracks ? { tracks } : {}),
+    ...(protection ? { protection } : {}),
+  };
+}
+
+// Inputs in play order, each with the init it's matched to (null when none matches), and with
+// --auto the ordering report: confidence and reason per placement, duplicates left out.
+function ordered(inputs: Input[], auto: boolean) {
+  const plan = auto ? planOrder(inputs) : undefined;
+  const list = plan ? plan.placements.map(p => p.item) : inputs;
+  const assignment = assignInits(list);
+  return {
+    order: list.map((it, i) => ({
+      input: it,
+      init: assignment[i] === null || it.kind === "init" ? null : list[assignment[i]!],
+      placement: plan?.placements[i],
+    })),
+    plan,
+  };
+}
+
+export async function run(argv: string[], io: CliIO = nodeIO): Promise<number> {
+  let args: Args;
+  try {
+    args = parseArgs(argv);
+  } catch (e) {
+    io.err(`${(e as Error).message}\n\n${USAGE}`);
+    return 2;
+  }
+  if (args.flags.has("--help") || args.flags.has("-h")) {
+    io.out(USAGE);
+    return 0;
+  }
+  if (!args.command) {
+    io.err(USAGE);
+    return 2;
+  }
+  if (!["inspect", "order", "merge", "validate"].includes(args.command)) {
+    io.err(`Unknown command ${args.command}\n\n${USAGE}`);
+    return 2;
+  }
+  if (!args.files.length) {
+    io.err(`${args.command}: no input files`);
+    return 2;
+  }
+  if (args.command === "merge" && !args.output) {
+    io.err("merge: -o <out.mp4> is required");
+    return 2;
+  }
+
+  const json = args.flags.has("--json");
+  const print = (value: unknown, text: string[]) => io.out(json ? JSON.stringify(value, null, 2) : text.join("\n"));
+
+  let inputs: Input[];
+  try {
+    inputs = args.files.map(path => {
+      const buf = io.read(path);
+      return { path, name: basename(path), kind: classifyFragment(buf), buf };
+    });
+  } catch (e) {
+    io.err(`Could not read input (${(e as Error).message})`);
+    return 1;
+  }
+
+  try {
+    switch (args.command) {
+      case "inspect": {
+        const reports = inputs.map(inspect);
+        print(reports, reports.map(r => {
+          const hints = [r.seq !== undefined ? `seq ${r.seq}` : "", r.dts !== undefined ? `dts ${r.dts}` : ""].filter(Boolean);
+          const tracks = r.tracks?.map(t => `track ${t.trackId} ${t.handler} ${t.codec ?? "?"} @${t.timescale}${t.scheme ? ` (${t.scheme})` : ""}`) ?? [];
+          const lock = r.protection ? [`encrypted: ${[...r.protection.schemes, ...r.protection.systems].join(", ") || "sample data"}`] : [];
+          return [`${r.file}\t${r.kind}\t${r.size} bytes`, ...hints, ...tracks, ...lock].join("\t");
+        }));
+        return 0;
+      }
+
+      case "order": {
+        const { order, plan } = ordered(inputs, args.flags.has("--auto"));
+        const pct = (c: number) => `${Math.round(c * 100)}%`;
+        print(
+          {
+            order: order.map(o => ({
+              file: o.input.path, kind: o.input.kind, init: o.init?.path ?? null,
+              ...(o.placement ? { confidence: o.placement.confidence, reason: o.placement.reason } : {}),
+            })),
+            ...(plan ? {
+              duplicates: plan.duplicates.map(d => ({ file: d.item.path, of: d.of.path, reason: d.reason })),
+              unplaced: plan.unplaced.map(u => ({ file: u.item.path, reason: u.reason })),
+              notes: plan.notes,
+            } : {}),
+          },
+          [
+            ...order.map((o, i) => `${i + 1}. ${o.input.path}`
+              + (o.input.kind === "init" ? " (init)" : o.init ? ` -> ${o.init.path}` : " (no matching init)")
+              + (o.placement && o.input.kind !== "init" ? `\t${pct(o.placement.confidence)}\t${o.placement.reason}` : "")),
+            ...(plan?.duplicates.map(d => `duplicate\t${d.item.path} (${d.reason} as ${d.of.path}), left out`) ?? []),
+            ...(plan?.notes ?? []),
+          ],
+        );
+        return 0;
+      }
+
+      case "merge": {
+        const { order: placed, plan } = ordered(inputs, args.flags.has("--auto"));
+        const order = placed.map(o => o.input);
+        const index = !args.flags.has("--no-index");
+        const blob = await mergeMP4(order.map(i => i.buf), {
+          sidx: index, mfra: index, chapters: args.flags.has("--chapters"), labels: order.map(i => i.name), leading: args.leading,
+        });
+        const bytes = new Uint8Array(await blob.arrayBuffer());
+        io.write(args.output!, bytes);
+        const skipped = order.filter(i => i.kind !== "init" && i.kind !== "media").map(i => i.path);
+        const duplicates = plan?.duplicates.map(d => d.item.path) ?? [];
+        print(
+          { output: args.output, bytes: bytes.length, inputs: order.map(i => i.path), skipped, duplicates },
+          [
+            `Wrote ${args.output} (${bytes.length} bytes) from ${order.length - skipped.length} file(s)`,
+            ...skipped.map(p => `skipped ${p} (not an init or media fragment)`),
+            ...duplicates.map(p => `skipped ${p} (duplicate)`),
+          ],
+        );
+        return 0;
+      }
+
+      case "validate": {
+        const diagnostics = checkFormatCompatibility(inputs);
+        const issues = analyzeTimeline(inputs).issues.map(i => ({
+          kind: i.kind, file: inputs[i.index].path,
+          ...(i.other !== undefined ? { other: inputs[i.other].path } : {}),
+          ...(i.trackId !== undefined ? { trackId: i.trackId } : {}),
+          seconds: i.seconds,
+        }));
+        const errors = diagnostics.filter(d => d.severity === "error").length;
+        print(
+          { ok: errors === 0, diagnostics: diagnostics.map(d => ({ ...d, file: inputs[d.index].path })), timeline: issues },
+          [
+            ...diagnostics.map(d => `${d.severity}\t${inputs[d.index].path}\t${d.message}`),
+            ...issues.map(i => `timeline\t${i.file}\t${i.kind}${i.other ? ` (vs ${i.other})` : ""}${i.seconds ? ` ${i.seconds.toFixed(3)} s` : ""}`),
+            errors ? `${errors} error(s)` : "OK",
+          ],
+        );
+        return errors ? 1 : 0;
+      }
+    }
+  } catch (e) {
+    io.err(`${args.command}: ${(e as Error).message}`);
+    return 1;
+  }
+  return 0;
+}
+
+if (require.main === module) {
+  run(process.argv.slice(2)).then(code => { process.exitCode = code; });
+}
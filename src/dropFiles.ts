@@ -0,0 +1,33 @@
+// Files from a drag-and-drop, with dropped folders read recursively. Within each folder the
+// files come in natural name order (chunk2 before chunk10), which is usually recording order.
+
+import { naturalCompare } from "./ordering";
+
+export async function filesFromDrop(dt: DataTransfer): Promise<File[]> {
+  // Entries have to be taken before the first await; the DataTransfer is emptied after the event.
+  const entries = Array.from(dt.items ?? [])
+    .filter(i => i.kind === "file")
+    .map(i => i.webkitGetAsEntry?.() ?? null);
+  if (!entries.length || entries.some(e => !e)) return Array.from(dt.files);
+
+  const out: Array<{ path: string; file: File }> = [];
+  await Promise.all(entries.map(e => walk(e!, out)));
+  return out.sort((a, b) => naturalCompare(a.path, b.path)).map(f => f.file);
+}
+
+async function walk(entry: FileSystemEntry, out: Array<{ path: string; file: File }>): Promise<void> {
+  if (entry.isFile) {
+    const file = await new Promise<File>((resolve, reject) => (entry as FileSystemFileEntry).file(resolve, reject));
+    // Hidden files (.DS_Store and the like) are never fragments.
+    if (!file.name.startsWith(".")) out.push({ path: entry.fullPath, file });
+    return;
+  }
+  if (!entry.isDirectory) return;
+  const reader = (entry as FileSystemDirectoryEntry).createReader();
+  // readEntries returns the listing in batches until an empty one.
+  for (;;) {
+    const batch = await new Promise<FileSystemEntry[]>((resolve, reject) => reader.readEntries(resolve, reject));
+    if (!batch.length) break;
+    await Promise.all(batch.map(e => walk(e, out)));
+  }
+}
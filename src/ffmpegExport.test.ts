@@ -0,0 +1,15 @@
+import { ffmpegArgs, ffmpegCoreURLs } from "./ffmpegExport";
+
+test("stream-copies for container changes and re-encodes with the chosen bitrate and height", () => {
+  expect(ffmpegArgs({ format: "mp4-faststart" }, "in.mp4", "out.mp4")).toEqual(["-i", "in.mp4", "-c", "copy", "-movflags", "+faststart", "out.mp4"]);
+  expect(ffmpegArgs({ format: "mkv", height: 720 }, "in.mp4", "out.mkv")).toEqual(["-i", "in.mp4", "-c", "copy", "out.mkv"]);
+
+  const vp9 = ffmpegArgs({ format: "webm-vp9", videoKbps: 1500, height: 480 }, "in.mp4", "out.webm");
+  expect(vp9.join(" ")).toBe("-i in.mp4 -vf scale=-2:480 -c:v libvpx-vp9 -b:v 1500k -deadline realtime -cpu-used 8 -row-mt 1 -c:a libopus out.webm");
+  expect(ffmpegArgs({ format: "mp4-h264" }, "in.mp4", "out.mp4")).toContain("-crf");
+});
+
+test("loads a pinned core, or a self-hosted one", () => {
+  expect(ffmpegCoreURLs().coreURL).toBe("https://unpkg.com/@ffmpeg/core@0.12.9/dist/esm/ffmpeg-core.js");
+  expect(ffmpegCoreURLs("/ffmpeg/")).toEqual({ coreURL: "/ffmpeg/ffmpeg-core.js", wasmURL: "/ffmpeg/ffmpeg-core.wasm" });
+});
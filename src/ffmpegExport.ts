@@ -0,0 +1,98 @@
+// Exports the merged fragments to containers other tools accept, using ffmpeg.wasm in the
+// browser: progressive MP4 with moov up front and MKV by stream copy, or a re-encode.
+// The ffmpeg core (~30 MB) is fetched on first use, so the library is imported lazily.
+
+// Pinned to the core @ffmpeg/ffmpeg 0.12.15 was built against, so exports don't change under us.
+export const FFMPEG_CORE_VERSION = "0.12.9";
+
+// Where the core's ESM build (ffmpeg-core.js + .wasm) is loaded from. REACT_APP_FFMPEG_CORE_URL
+// points at a self-hosted copy of @ffmpeg/core's dist/esm, for offline use or a strict CSP.
+export function ffmpegCoreURLs(base = process.env.REACT_APP_FFMPEG_CORE_URL || `https://unpkg.com/@ffmpeg/core@${FFMPEG_CORE_VERSION}/dist/esm`) {
+  const dir = base.replace(/\/+$/, "");
+  return { coreURL: `${dir}/ffmpeg-core.js`, wasmURL: `${dir}/ffmpeg-core.wasm` };
+}
+
+export type ExportFormat = "mp4-faststart" | "mkv" | "webm-vp9" | "mp4-h264";
+
+export interface ExportFormatInfo {
+  label: string;
+  ext: string;
+  mime: string;
+  reencode: boolean;
+}
+
+export const EXPORT_FORMATS: Record<ExportFormat, ExportFormatInfo> = {
+  "mp4-faststart": { label: "MP4 (progressive, moov first)", ext: "mp4", mime: "video/mp4", reencode: false },
+  mkv: { label: "MKV (stream copy)", ext: "mkv", mime: "video/x-matroska", reencode: false },
+  "webm-vp9": { label: "WebM (VP9 + Opus, re-encode)", ext: "webm", mime: "video/webm", reencode: true },
+  "mp4-h264": { label: "MP4 (H.264 + AAC, re-encode)", ext: "mp4", mime: "video/mp4", reencode: true },
+};
+
+export interface ExportOptions {
+  format: ExportFormat;
+  videoKbps?: number;   // re-encode only; quality-based when unset
+  height?: number;      // re-encode only; keeps aspect ratio
+}
+
+export interface ExportJob {
+  result: Promise<Blob>;
+  cancel: () => void;
+}
+
+export function ffmpegArgs(opts: ExportOptions, input: string, output: string): string[] {
+  const scale = opts.height ? ["-vf", `scale=-2:${opts.height}`] : [];
+  switch (opts.format) {
+    case "mp4-faststart": return ["-i", input, "-c", "copy", "-movflags", "+faststart", output];
+    case "mkv": return ["-i", input, "-c", "copy", output];
+    case "webm-vp9": return [
+      "-i", input, ...scale, "-c:v", "libvpx-vp9",
+      ...(opts.videoKbps ? ["-b:v", `${opts.videoKbps}k`] : ["-crf", "32", "-b:v", "0"]),
+      "-deadline", "realtime", "-cpu-used", "8", "-row-mt", "1", "-c:a", "libopus", output,
+    ];
+    case "mp4-h264": return [
+      "-i", input, ...scale, "-c:v", "libx264", "-preset", "veryfast",
+      ...(opts.videoKbps ? ["-b:v", `${opts.videoKbps}k`] : ["-crf", "23"]),
+      "-c:a", "aac", "-movflags", "+faststart", output,
+    ];
+  }
+}
+
+// Runs one export in its own ffmpeg instance; cancel() terminates the instance.
+export function exportWithFfmpeg(source: Blob, opts: ExportOptions, onProgress: (ratio: number) => void, onLog?: (line: string) => void): ExportJob {
+  let cancelled = false;
+  let terminate = () => {};
+  const output = `output.${EXPORT_FORMATS[opts.format].ext}`;
+
+  const result = (async () => {
+    const { FFmpeg } = await import("@ffmpeg/ffmpeg");
+    const ffmpeg = new FFmpeg();
+    terminate = () => ffmpeg.terminate();
+    if (cancelled) throw new Error("Export cancelled");
+    ffmpeg.on("progress", ({ progress }) => onProgress(Math.min(1, Math.max(0, progress))));
+    if (onLog) ffmpeg.on("log", ({ message }) => onLog(message));
+
+    try {
+      await ffmpeg.load(ffmpegCoreURLs());
+      await ffmpeg.writeFile("input.mp4", new Uint8Array(await source.arrayBuffer()));
+      const code = await ffmpeg.exec(ffmpegArgs(opts, "input.mp4", output));
+      if (code !== 0) throw new Error(`ffmpeg exited with code ${code}`);
+      const data = await ffmpeg.readFile(output);
+      if (typeof data === "string") throw new Error("ffmpeg returned text instead of media");
+      onProgress(1);
+      return new Blob([data], { type: EXPORT_FORMATS[opts.format].mime });
+    } catch (e) {
+      if (cancelled) throw new Error("Export cancelled");
+      throw e;
+    } finally {
+      if (!cancelled) ffmpeg.terminate();
+    }
+  })();
+
+  return {
+    result,
+    cancel: () => {
+      cancelled = true;
+      terminate();
+    },
+  };
+}
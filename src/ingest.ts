@@ -0,0 +1,54 @@
+// Runs file probing in a Web Worker (falls back to the main thread where workers are missing)
+// and reports progress while large selections are scanned.
+
+import { probeFile, type ProbedFile } from "./probe";
+
+export interface IngestProgress {
+  done: number;
+  total: number;
+  bytes: number;
+  totalBytes: number;
+}
+
+export type IngestMessage =
+  | ({ type: "file"; index: number } & ProbedFile)
+  | { type: "error"; index: number; message: string }
+  | ({ type: "progress" } & IngestProgress)
+  | { type: "done" };
+
+// Per input file: its probe, or the reason it couldn't be read.
+export type IngestResult = ProbedFile | { error: string };
+
+export function ingestFiles(files: File[], onProgress: (p: IngestProgress) => void): Promise<IngestResult[]> {
+  if (typeof Worker === "undefined") return ingestOnMainThread(files, onProgress);
+
+  return new Promise((resolve, reject) => {
+    const results: IngestResult[] = files.map(() => ({ error: "not scanned" }));
+    const worker = new Worker(new URL("./ingest.worker.ts", import.meta.url));
+    worker.onmessage = (e: MessageEvent<IngestMessage>) => {
+      const msg = e.data;
+      if (msg.type === "file") results[msg.index] = { kind: msg.kind, probe: msg.probe };
+      else if (msg.type === "error") results[msg.index] = { error: msg.message };
+      else if (msg.type === "progress") onProgress(msg);
+      else { worker.terminate(); resolve(results); }
+    };
+    worker.onerror = (e) => { worker.terminate(); reject(new Error(e.message || "Ingest worker failed")); };
+    worker.postMessage({ files });
+  });
+}
+
+async function ingestOnMainThread(files: File[], onProgress: (p: IngestProgress) => void): Promise<IngestResult[]> {
+  const totalBytes = files.reduce((n, f) => n + f.size, 0);
+  const results: IngestResult[] = [];
+  let bytes = 0;
+  for (const f of files) {
+    try {
+      results.push(await probeFile(f));
+    } catch (e) {
+      results.push({ error: (e as Error).message });
+    }
+    bytes += f.size;
+    onProgress({ done: results.length, total: files.length, bytes, totalBytes });
+  }
+  return results;
+}
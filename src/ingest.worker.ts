@@ -0,0 +1,26 @@
+// Scans selected files off the main thread: only box headers (and small boxes) are read.
+/* eslint-disable no-restricted-globals */
+
+import { probeFile } from "./probe";
+import type { IngestMessage } from "./ingest";
+
+self.onmessage = async (e: MessageEvent<{ files: File[] }>) => {
+  const { files } = e.data;
+  const total = files.reduce((n, f) => n + f.size, 0);
+  let bytes = 0;
+  const post = (msg: IngestMessage, transfer: Transferable[] = []) => (self as any).postMessage(msg, transfer);
+
+  for (let index = 0; index < files.length; index++) {
+    try {
+      const { kind, probe } = await probeFile(files[index]);
+      post({ type: "file", index, kind, probe }, [probe]);
+    } catch (err) {
+      post({ type: "error", index, message: (err as Error).message });
+    }
+    bytes += files[index].size;
+    post({ type: "progress", done: index + 1, total: files.length, bytes, totalBytes: total });
+  }
+  post({ type: "done" });
+};
+
+export {};
@@ -0,0 +1,62 @@
+import { assignInits, sequenceRuns } from "./initGroups";
+import { remuxGroups } from "./remux";
+import { concatBytes } from "./mp4Write";
+import { parseBoxTree, readInitInfo, readMoof } from "./mp4Boxes";
+import { fixtureInit, fixtureFragment } from "./testFixtures";
+
+const initA = fixtureInit([{ trackId: 1, timescale: 1000, config: 1 }]);
+const initB = fixtureInit([{ trackId: 1, timescale: 1000, config: 2 }]);
+const initC = fixtureInit([{ trackId: 2, timescale: 1000 }]);
+
+const item = (kind: string, buf: ArrayBuffer) => ({ kind, buf });
+
+test("matches media to the init whose decode times it continues", () => {
+  const a1 = fixtureFragment({ seq: 1, dts: 0, durations: [40, 40] });
+  const a2 = fixtureFragment({ seq: 2, dts: 80, durations: [40] });
+  const b1 = fixtureFragment({ seq: 1, dts: 5000, durations: [40] });
+  const b2 = fixtureFragment({ seq: 2, dts: 5040, durations: [40] });
+
+  const items = [item("init", initA), item("media", a1), item("init", initB), item("media", b1), item("media", a2), item("media", b2)];
+
+  // a2 continues a1's decode time, so it goes back to initA despite following initB.
+  expect(assignInits(items)).toEqual([0, 0, 2, 2, 0, 2]);
+});
+
+test("rejects inits that lack the fragment's track", () => {
+  const frag = fixtureFragment({ seq: 1, trackId: 1, dts: 0, durations: [40] });
+  const assigned = assignInits([item("init", initA), item("init", initC), item("media", frag)]);
+  expect(assigned[2]).toBe(0);
+});
+
+test("splits the play order into runs per init", () => {
+  const frag = (seq: number) => fixtureFragment({ seq, dts: 0, durations: [40] });
+  const items = [item("init", initA), item("media", frag(1)), item("init", initB), item("media", frag(2)), item("media", frag(3))];
+  const runs = sequenceRuns(items);
+
+  expect(runs.map(r => [items.indexOf(r.init), r.media.map(m => items.indexOf(m))])).toEqual([[0, [1]], [2, [3, 4]]]);
+});
+
+test("remuxGroups folds a second init into extra sample descriptions", () => {
+  const f1 = fixtureFragment({ seq: 1, dts: 0, durations: [40] });
+  const f2 = fixtureFragment({ seq: 1, dts: 0, durations: [40] });
+  const out = concatBytes(remuxGroups([{ init: initA, media: [f1] }, { init: initB, media: [f2] }]));
+  const { boxes } = parseBoxTree(out);
+  const info = readInitInfo(out, boxes)!;
+
+  expect(info.tracks[0].sampleEntries).toHaveLength(2);
+  const moofs = boxes.filter(b => b.type === "moof").map(m => readMoof(out, m));
+  expect(moofs.map(m => m.trafs[0].tfhd.sampleDescriptionIndex)).toEqual([undefined, 2]);
+  expect(moofs.map(m => m.trafs[0].baseDecodeTime)).toEqual([0, 40]);
+});
+
+test("tells demuxed audio and video apart when both use track 1", () => {
+  const videoInit = fixtureInit([{ trackId: 1, timescale: 90000 }]);
+  const audioInit = fixtureInit([{ trackId: 1, timescale: 48000, handler: "soun", codec: "mp4a" }]);
+  const nal = Uint8Array.from([0, 0, 0, 4, 0x65, 1, 2, 3]);
+  const aac = Uint8Array.from([0x21, 0x10, 5, 6, 7, 8, 9, 10]);
+  const v = fixtureFragment({ seq: 1, dts: 0, durations: [3000], sample: nal });
+  const a = fixtureFragment({ seq: 1, dts: 0, durations: [1024], sample: aac });
+
+  const items = [item("init", videoInit), item("init", audioInit), item("media", v), item("media", a)];
+  expect(assignInits(items)).toEqual([0, 1, 0, 1]);
+});
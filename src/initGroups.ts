@@ -0,0 +1,154 @@
+// Matches media fragments to the init segment they were encoded against (track IDs,
+// sample description indices, timescale plausibility, payload shape, decode-time continuity)
+// and splits an ordered list into runs that share an init.
+
+import { parseBoxTree, readInitInfo, readMoof, childBox, type InitInfo, type InitTrack, type TrafInfo } from "./mp4Boxes";
+
+// What an init's tracks carry: one SourceBuffer per type when audio and video are demuxed.
+export type TrackType = "video" | "audio" | "muxed";
+
+export function initTrackType(info: InitInfo | undefined): TrackType {
+  const handlers = new Set(info?.tracks.map(t => t.handler) ?? []);
+  if (handlers.size === 1 && handlers.has("soun")) return "audio";
+  if (handlers.size === 1 && handlers.has("vide")) return "video";
+  return "muxed";
+}
+
+const NAL_CODECS = new Set(["avc1", "avc3", "hvc1", "hev1", "dvh1", "dvhe"]);
+
+// NAL unit length field size from avcC / hvcC (defaults to 4).
+function nalLengthSize(buf: Uint8Array, track: InitTrack, sdi: number): number {
+  const entry = track.sampleEntries[sdi - 1];
+  const avcC = childBox(entry, "avcC");
+  const hvcC = childBox(entry, "hvcC");
+  if (avcC && avcC.start + avcC.headerSize + 5 <= avcC.end) return (buf[avcC.start + avcC.headerSize + 4] & 3) + 1;
+  if (hvcC && hvcC.start + hvcC.headerSize + 22 <= hvcC.end) return (buf[hvcC.start + hvcC.headerSize + 21] & 3) + 1;
+  return 4;
+}
+
+// True when the bytes are a chain of length-prefixed NAL units ending exactly at the sample end.
+function looksLikeNalSample(u8: Uint8Array, start: number, size: number, lengthSize: number): boolean {
+  const end = start + size;
+  if (end > u8.length || size <= lengthSize) return false;
+  let p = start;
+  while (p < end) {
+    if (p + lengthSize > end) return false;
+    let len = 0;
+    for (let k = 0; k < lengthSize; k++) len = len * 256 + u8[p + k];
+    p += lengthSize;
+    if (len === 0 || p + len > end || (u8[p] & 0x80)) return false;
+    p += len;
+  }
+  return true;
+}
+
+// Demuxed streams often reuse track_ID 1, so peek at the first sample: video (AVC/HEVC)
+// samples are NAL chains, audio frames practically never are.
+function payloadScore(buf: ArrayBuffer, initBuf: ArrayBuffer, track: InitTrack, traf: TrafInfo, sdi: number): number {
+  const run = traf.runs[0];
+  const sample = run?.samples[0];
+  if (!run || !sample) return 0;
+  const entry = track.sampleEntries[sdi - 1];
+  const isNal = looksLikeNalSample(new Uint8Array(buf), run.dataStart, sample.size,
+    entry ? nalLengthSize(new Uint8Array(initBuf), track, sdi) : 4);
+  if (entry && NAL_CODECS.has(entry.type)) return isNal ? 3 : -3;
+  if (track.handler === "soun") return isNal ? -3 : 1;
+  return 0;
+}
+
+export interface GroupItem {
+  kind: string;        // ProbeKind of the item
+  buf: ArrayBuffer;
+}
+
+// One stretch of the play order that uses a single init.
+export interface InitRun<T> {
+  init: T;
+  media: T[];
+}
+
+// Scores a media buffer against an init; null when the init can't describe it.
+function scoreMatch(buf: ArrayBuffer, initBuf: ArrayBuffer, info: InitInfo, lastEnd: Map<number, number> | undefined): number | null {
+  const trex = info.tracks.flatMap(t => (t.trex ? [t.trex] : []));
+  const moofs = parseBoxTree(buf).boxes.filter(b => b.type === "moof");
+  if (!moofs.length) return 0;   // bare mdat: nothing to check against
+
+  let score = 0;
+  let peeked = false;
+  for (const moofBox of moofs) {
+    for (const traf of readMoof(buf, moofBox, trex).trafs) {
+      const track = info.tracks.find(t => t.trackId === traf.tfhd.trackId);
+      if (!track) return null;
+
+      const sdi = traf.tfhd.sampleDescriptionIndex ?? track.trex?.defaultSampleDescriptionIndex ?? 1;
+      if (track.sampleEntries.length && sdi > track.sampleEntries.length) return null;
+
+      if (!peeked) { score += payloadScore(buf, initBuf, track, traf, sdi); peeked = true; }
+
+      // A sample lasting more than 10 s (or nothing at all) means the timescale is off.
+      const samples = traf.runs.flatMap(r => r.samples);
+      if (samples.length && traf.duration > 0) {
+        const perSample = traf.duration / samples.length / (track.timescale || 1);
+        score += perSample > 0 && perSample <= 10 ? 1 : -2;
+      }
+
+      if (traf.baseDecodeTime !== undefined && lastEnd?.get(track.trackId) === traf.baseDecodeTime) score += 4;
+    }
+  }
+  return score;
+}
+
+// For each item: the index of the init it belongs to (inits map to themselves), or null.
+export function assignInits(items: GroupItem[]): (number | null)[] {
+  const inits = items
+    .map((it, i) => (it.kind === "init" ? { i, buf: it.buf, info: readInitInfo(it.buf, parseBoxTree(it.buf).boxes) } : null))
+    .filter((x): x is { i: number; buf: ArrayBuffer; info: InitInfo } => !!x && !!x.info);
+  const lastEnd = new Map<number, Map<number, number>>();   // init index -> track -> decode end
+  const out: (number | null)[] = items.map(() => null);
+
+  let preceding: number | null = null;
+  items.forEach((it, i) => {
+    if (it.kind === "init") { out[i] = i; preceding = i; return; }
+    if (it.kind !== "media") return;
+
+    let best: { i: number; buf: ArrayBuffer; info: InitInfo } | null = null;
+    let bestScore = -Infinity;
+    for (const init of inits) {
+      const s = scoreMatch(it.buf, init.buf, init.info, lastEnd.get(init.i));
+      if (s === null) continue;
+      const bias = init.i === preceding ? 2 : init.i < i ? 1 : 0;
+      if (s + bias > bestScore) { best = init; bestScore = s + bias; }
+    }
+    if (!best) return;
+
+    out[i] = best.i;
+    const trex = best.info.tracks.flatMap(t => (t.trex ? [t.trex] : []));
+    const ends = lastEnd.get(best.i) ?? new Map<number, number>();
+    for (const moofBox of parseBoxTree(it.buf).boxes.filter(b => b.type === "moof")) {
+      for (const traf of readMoof(it.buf, moofBox, trex).trafs) {
+        if (traf.baseDecodeTime !== undefined) ends.set(traf.tfhd.trackId, traf.baseDecodeTime + traf.duration);
+      }
+    }
+    lastEnd.set(best.i, ends);
+  });
+
+  return out;
+}
+
+// Splits media (in list order) into consecutive runs sharing an init. Media without a
+// matching init stays with the run before it, or with the first init if it leads the list.
+export function sequenceRuns<T extends GroupItem>(items: T[], assignment = assignInits(items)): InitRun<T>[] {
+  const firstInit = items.find(it => it.kind === "init");
+  if (!firstInit) return [];
+
+  const runs: InitRun<T>[] = [];
+  items.forEach((it, i) => {
+    if (it.kind !== "media") return;
+    const a = assignment[i];
+    const init = a === null ? runs[runs.length - 1]?.init ?? firstInit : items[a];
+    const last = runs[runs.length - 1];
+    if (last && last.init === init) last.media.push(it);
+    else runs.push({ init, media: [it] });
+  });
+  return runs;
+}
@@ -0,0 +1,48 @@
+import { fragmentStart, planSeams, fixLeadingSamples } from "./keyframes";
+import { checkFormatCompatibility } from "./mergeMP4";
+import { parseBoxTree, readInitInfo, readMoof, type InitInfo } from "./mp4Boxes";
+import { fixtureInit, fixtureFragment } from "./testFixtures";
+
+const init = fixtureInit([{ trackId: 1, timescale: 1000 }]);
+const info = readInitInfo(init, parseBoxTree(init).boxes) as InitInfo;
+
+// Three 400 ms fragments of one stream; b's keyframe is its third sample.
+const a = fixtureFragment({ seq: 1, dts: 0, durations: Array(4).fill(100), payload: 1 });
+const b = fixtureFragment({ seq: 2, dts: 400, durations: Array(4).fill(100), keyframes: [2], payload: 2 });
+const c = fixtureFragment({ seq: 3, dts: 800, durations: Array(4).fill(100), payload: 3 });
+
+// Decode time and sample count of every moof.
+const moofs = (buf: ArrayBuffer | null) => parseBoxTree(buf!).boxes.filter(m => m.type === "moof")
+  .map(m => readMoof(buf!, m).trafs[0]).map(t => [t.baseDecodeTime, t.runs[0].samples.length]);
+
+test("finds leading non-sync samples and flags them only at seams", () => {
+  expect(fragmentStart(b, info)).toEqual({ trackId: 1, leading: 2, keyframe: 0.2, startDts: 400, endDts: 800 });
+  const items = (bufs: ArrayBuffer[]) => bufs.map(buf => ({ start: fragmentStart(buf, info), group: info }));
+  expect(planSeams(items([a, b, c]), "drop").seams).toEqual([]);
+  expect(planSeams(items([b, a, c]), "keep")).toEqual({ seams: [0], fixes: new Map() });
+  expect(planSeams(items([b, a, c]), "attach").fixes).toEqual(new Map([[0, { cut: 0.2, attach: [] }], [1, { attach: [0] }]]));
+  // Encrypted fragments are flagged but left whole: cutting would drop their senc / saiz / saio.
+  const locked = items([b, a, c]).map(it => ({ ...it, encrypted: true }));
+  expect(planSeams(locked, "attach")).toEqual({ seams: [0], fixes: new Map() });
+
+  const names = ["init.mp4", "b.m4s", "a.m4s", "c.m4s"];
+  const diags = checkFormatCompatibility([init, b, a, c].map((buf, i) => ({ name: names[i], buf })));
+  expect(diags).toEqual([expect.objectContaining({ severity: "warning", file: "b.m4s", message: expect.stringMatching(/2 non-keyframe sample\(s\).*0\.200 s/) })]);
+  expect(checkFormatCompatibility([init, a, b, c].map((buf, i) => ({ name: `${i}`, buf })))).toEqual([]);
+});
+
+test("drops leading samples, or moves them to the end of the fragment they continue", () => {
+  const list = [b, a, c].map(buf => ({ buf, info }));
+  const [bDropped, aSame] = fixLeadingSamples(list, "drop");
+  expect(moofs(bDropped)).toEqual([[600, 2]]);
+  expect(aSame).toBe(a);
+
+  const [bCut, aLonger, cSame] = fixLeadingSamples(list, "attach");
+  expect(moofs(bCut)).toEqual([[600, 2]]);
+  expect(moofs(aLonger)).toEqual([[0, 4], [400, 2]]);
+  expect(cSame).toBe(c);
+
+  // A fragment with no keyframe at a seam has nothing decodable left.
+  const none = fixtureFragment({ seq: 4, dts: 5000, durations: [100, 100], keyframe: false });
+  expect(fixLeadingSamples([{ buf: none, info }], "drop")).toEqual([null]);
+});
@@ -0,0 +1,126 @@
+// Keyframe boundaries of media fragments. A fragment whose reference (video) track starts on
+// non-sync samples only decodes cleanly right after the fragment it continues; anywhere else
+// (a reordered list, a gap, the first fragment played) those samples show as corrupt frames
+// until the next keyframe. At such seams the leading samples can be dropped, or attached to
+// the end of the fragment they continue from, which then carries its whole GOP.
+
+import { isSyncSample, type InitInfo } from "./mp4Boxes";
+import { concatBytes } from "./mp4Write";
+import { readTimed, referenceTrack, trimFragment, type TrimPoints } from "./trim";
+
+export type LeadingPolicy = "keep" | "drop" | "attach";
+
+// How a fragment starts, on its reference track (decode times in that track's ticks).
+export interface FragmentStart {
+  trackId: number;
+  leading: number;        // non-sync samples before the first keyframe
+  keyframe?: number;      // first keyframe, seconds from the fragment start; unset when there is none
+  startDts: number;
+  endDts: number;
+}
+
+export interface SeamItem {
+  start?: FragmentStart;  // unset for inits and unreadable media
+  group?: unknown;        // fragments only continue one another within a group (their init)
+  trim?: TrimPoints;
+  encrypted?: boolean;    // flagged but never fixed: cutting loses the senc / saiz / saio data
+}
+
+// What to do with one fragment: cut its leading samples off (or drop it when it has no
+// keyframe at all), and append the leading samples of the fragments listed in `attach`.
+export interface SeamFix {
+  cut?: number;
+  drop?: boolean;
+  attach: number[];
+}
+
+export interface SeamPlan {
+  seams: number[];               // fragments starting on non-sync samples after something else
+  fixes: Map<number, SeamFix>;
+}
+
+// Counts the reference track's samples up to its first sync sample, across all moofs of the
+// fragment; the App calls it on probes, so the list can flag seams before any media is read.
+export function fragmentStart(buf: ArrayBuffer, info: InitInfo): FragmentStart | undefined {
+  const { moofs } = readTimed(buf, info);
+  const ref = referenceTrack(moofs, info);
+  const samples = moofs.flatMap(m => m.trafs.filter(tt => tt.traf.tfhd.trackId === ref)).flatMap(tt => tt.samples);
+  if (ref === undefined || !samples.length) return undefined;
+  const first = samples.findIndex(s => isSyncSample(s.sample.flags));
+  const last = samples[samples.length - 1];
+  return {
+    trackId: ref,
+    leading: first < 0 ? samples.length : first,
+    keyframe: first < 0 ? undefined : samples[first].t,
+    startDts: samples[0].dts,
+    endDts: last.dts + last.sample.duration,
+  };
+}
+
+// `b` plays seamlessly after `a`: same init and reference track, and decode time carries on.
+function continues(a: SeamItem, b: SeamItem): boolean {
+  return !!a.start && !!b.start && a.group === b.group && a.start.trackId === b.start.trackId
+    && a.start.endDts === b.start.startDts && a.trim?.out === undefined;
+}
+
+// Items in play order. A fragment is at a seam when it starts on non-sync samples and the
+// media before it (in its group) isn't the fragment it continues. With "attach", leading
+// samples go to that fragment wherever it is in the list, else they are dropped.
+export function planSeams(items: SeamItem[], policy: LeadingPolicy): SeamPlan {
+  const seams: number[] = [];
+  const fixes = new Map<number, SeamFix>();
+  const fixOf = (i: number) => fixes.get(i) ?? fixes.set(i, { attach: [] }).get(i)!;
+  const prevOf = new Map<unknown, number>();
+
+  items.forEach((it, i) => {
+    if (!it.start) return;
+    const prev = prevOf.get(it.group);
+    prevOf.set(it.group, i);
+    if (!it.start.leading || (it.trim?.in ?? 0) > 0) return;
+    if (prev !== undefined && continues(items[prev], it)) return;
+    seams.push(i);
+    if (policy === "keep" || it.encrypted) return;
+
+    const own = fixOf(i);
+    if (it.start.keyframe === undefined) own.drop = true;
+    else own.cut = it.start.keyframe;
+    if (policy !== "attach") return;
+    const to = items.findIndex((other, j) => j !== i && continues(other, it));
+    if (to >= 0) fixOf(to).attach.push(i);
+  });
+  return { seams, fixes };
+}
+
+// The samples a fix takes off the front of its fragment.
+export function leadingSamples(buf: ArrayBuffer, info: InitInfo, fix: SeamFix): ArrayBuffer | null {
+  if (fix.drop) return buf;
+  return fix.cut === undefined ? null : trimFragment(buf, info, { out: fix.cut }).buf;
+}
+
+// Fragment bytes with its trim and fix applied and the `attached` leading samples of the
+// fragments that continue it appended (as further moof + mdat pairs); null when nothing is left.
+export function applySeamFix(buf: ArrayBuffer, info: InitInfo, fix: SeamFix | undefined, trim: TrimPoints = {}, attached: ArrayBuffer[] = []): ArrayBuffer | null {
+  let own: ArrayBuffer | null = buf;
+  if (fix?.drop) own = null;
+  else if (fix?.cut !== undefined || trim.in !== undefined || trim.out !== undefined) {
+    own = trimFragment(buf, info, { in: fix?.cut ?? trim.in, out: trim.out }).buf;
+  }
+  const parts = [own, ...attached].flatMap(p => (p ? [new Uint8Array(p)] : []));
+  if (!parts.length) return null;
+  return parts.length === 1 && own ? own : concatBytes(parts).buffer;
+}
+
+// The same over buffers already in memory (items in play order; `info` unset for non-media).
+export function fixLeadingSamples(items: Array<{ buf: ArrayBuffer; info?: InitInfo; encrypted?: boolean }>, policy: LeadingPolicy): Array<ArrayBuffer | null> {
+  const seamItems = items.map(it => ({ start: it.info && fragmentStart(it.buf, it.info), group: it.info, encrypted: it.encrypted }));
+  const { fixes } = planSeams(seamItems, policy);
+  return items.map((it, i) => {
+    const fix = fixes.get(i);
+    if (!fix || !it.info) return it.buf;
+    const attached = fix.attach.flatMap(j => {
+      const lead = leadingSamples(items[j].buf, it.info!, fixes.get(j)!);
+      return lead ? [lead] : [];
+    });
+    return applySeamFix(it.buf, it.info, fix, {}, attached);
+  });
+}
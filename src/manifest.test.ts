@@ -0,0 +1,110 @@
+import { parseHls, parseMpd, manifestOrder, writeHls, writeMpd, uriBasename, type PlaylistRun } from "./manifest";
+
+test("reads HLS segments, EXT-X-MAP inits and byte ranges in playlist order", () => {
+  const tracks = parseHls([
+    "#EXTM3U", "#EXT-X-VERSION:7", "#EXT-X-TARGETDURATION:4",
+    '#EXT-X-MAP:URI="init.mp4"',
+    "#EXTINF:4.000,", "seg%201.m4s?token=x",
+    "#EXTINF:3.5,", "#EXT-X-BYTERANGE:100@0", "all.m4s",
+    "#EXTINF:2,", "#EXT-X-BYTERANGE:50", "all.m4s",
+    "#EXT-X-DISCONTINUITY", '#EXT-X-MAP:URI="init2.mp4"', "#EXTINF:1,", "other.m4s",
+    "#EXT-X-ENDLIST",
+  ].join("\n"));
+
+  expect(tracks[0].entries).toEqual([
+    { kind: "init", uri: "init.mp4", range: undefined },
+    { kind: "media", uri: "seg%201.m4s?token=x", seconds: 4, range: undefined },
+    { kind: "media", uri: "all.m4s", seconds: 3.5, range: { offset: 0, length: 100 } },
+    { kind: "media", uri: "all.m4s", seconds: 2, range: { offset: 100, length: 50 } },
+    { kind: "init", uri: "init2.mp4", range: undefined },
+    { kind: "media", uri: "other.m4s", seconds: 1, range: undefined },
+  ]);
+  expect(uriBasename(tracks[0].entries[1].uri)).toBe("seg 1.m4s");
+  expect(() => parseHls("#EXTM3U\n#EXT-X-STREAM-INF:BANDWIDTH=1\nlow.m3u8")).toThrow(/master playlist.*low\.m3u8/);
+});
+
+test("expands DASH SegmentTemplate timelines and picks the representation whose files are present", () => {
+  const mpd = `<?xml version="1.0"?>
+    <MPD xmlns="urn:mpeg:dash:schema:mpd:2011" type="static" mediaPresentationDuration="PT6S">
+      <Period>
+        <AdaptationSet contentType="audio">
+          <SegmentTemplate timescale="48000" initialization="a-init.mp4" media="a-$Number$.m4s" duration="96000"/>
+          <Representation id="a" bandwidth="128000"/>
+        </AdaptationSet>
+        <AdaptationSet contentType="video">
+          <SegmentTemplate timescale="1000" initialization="$RepresentationID$/init.mp4" media="$RepresentationID$/$Time$-$Number%03d$.m4s" startNumber="5">
+            <SegmentTimeline><S t="0" d="2000" r="1"/><S d="1500"/></SegmentTimeline>
+          </SegmentTemplate>
+          <Representation id="hi" bandwidth="5000000"/>
+          <Representation id="lo" bandwidth="800000"/>
+        </AdaptationSet>
+      </Period>
+    </MPD>`;
+  const tracks = parseMpd(mpd);
+  expect(tracks.map(t => [t.id, t.type, t.entries.length])).toEqual([["a", "audio", 4], ["hi", "video", 4], ["lo", "video", 4]]);
+
+  const order = manifestOrder(tracks, new Set(["init.mp4", "0-005.m4s", "2000-006.m4s"]));
+  expect(order.map(e => [e.uri, e.seconds])).toEqual([
+    ["hi/init.mp4", undefined], ["hi/0-005.m4s", 2], ["hi/2000-006.m4s", 2], ["hi/4000-007.m4s", 1.5],
+    ["a-init.mp4", undefined], ["a-1.m4s", 2], ["a-2.m4s", 2], ["a-3.m4s", 2],
+  ]);
+});
+
+const run = (type: PlaylistRun["type"], init: string, uris: string[]): PlaylistRun => ({
+  type, init, codecs: type === "audio" ? "mp4a.40.2" : "avc1.64001f", width: type === "audio" ? undefined : 1280, height: 720,
+  segments: uris.map(uri => ({ uri, seconds: 2, bytes: 250000 })),
+});
+
+test("writes a VOD playlist with a discontinuity and EXT-X-MAP per init change", () => {
+  const [file] = writeHls([run("muxed", "a.mp4", ["1.m4s", "2.m4s"]), run("muxed", "b.mp4", ["3.m4s"])]);
+  expect(file.name).toBe("playlist.m3u8");
+  expect(file.text).toContain('#EXT-X-MAP:URI="a.mp4"\n#EXTINF:2.000,\n1.m4s\n#EXTINF:2.000,\n2.m4s\n#EXT-X-DISCONTINUITY\n#EXT-X-MAP:URI="b.mp4"');
+  expect(file.text.trim().endsWith("#EXT-X-ENDLIST")).toBe(true);
+
+  const demuxed = writeHls([run("video", "v.mp4", ["v1.m4s"]), run("audio", "a.mp4", ["a1.m4s"])]);
+  expect(demuxed.map(f => f.name)).toEqual(["master.m3u8", "video.m3u8", "audio.m3u8"]);
+  expect(demuxed[0].text).toContain('CODECS="avc1.64001f,mp4a.40.2",RESOLUTION=1280x720,AUDIO="audio"');
+});
+
+test("writes an MPD that reads back in the same order", () => {
+  const mpd = writeMpd([run("video", "v.mp4", ["v1.m4s", "v2.m4s"]), run("audio", "a.mp4", ["a1.m4s", "a2.m4s"])]);
+  const order = manifestOrder(parseMpd(mpd), new Set());
+  expect(order.map(e => [e.kind, e.uri, e.seconds])).toEqual([
+    ["init", "v.mp4", undefined], ["media", "v1.m4s", 2], ["media", "v2.m4s", 2],
+    ["init", "a.mp4", undefined], ["media", "a1.m4s", 2], ["media", "a2.m4s", 2],
+  ]);
+  expect(() => writeMpd([run("video", "v.mp4", ["v1.m4s"]), run("video", "w.mp4", ["w1.m4s"]), run("audio", "a.mp4", ["a1.m4s"])]))
+    .toThrow(/paired/);
+});
+
+test("writes an MPD on the media's own decode times, with a Period per discontinuity", () => {
+  const segments = [
+    { uri: "a.m4s", seconds: 2, bytes: 1, start: 900000, sync: true },
+    { uri: "b.m4s", seconds: 2, bytes: 1, start: 1080000, sync: true },
+    { uri: "c.m4s", seconds: 2, bytes: 1, start: 90000, sync: true, discontinuity: true },
+  ];
+  const mpd = writeMpd([{ type: "muxed", init: "init.mp4", timescale: 90000, segments }]);
+
+  expect(mpd.match(/<Period /g)).toHaveLength(2);
+  expect(mpd).toContain('<SegmentList timescale="90000" presentationTimeOffset="900000">');
+  expect(mpd).toContain('<S t="900000" d="180000" r="1"/>');
+  expect(mpd).toContain('<SegmentList timescale="90000" presentationTimeOffset="90000">');
+  expect(mpd).toContain('<S t="90000" d="180000"/>');
+  expect(manifestOrder(parseMpd(mpd), new Set()).filter(e => e.kind === "media").map(e => [e.uri, e.seconds]))
+    .toEqual([["a.m4s", 2], ["b.m4s", 2], ["c.m4s", 2]]);
+});
+
+test("claims independent segments only when all start on a sync sample, and encodes names", () => {
+  const clip = (sync: boolean): PlaylistRun => ({
+    type: "muxed",
+    init: "my init.mp4",
+    segments: [{ uri: "part #1.m4s", seconds: 2, bytes: 1, sync }, { uri: "b.m4s", seconds: 2, bytes: 1, sync: true }],
+  });
+  const [file] = writeHls([clip(true)]);
+  expect(file.text).toContain("#EXT-X-INDEPENDENT-SEGMENTS");
+  expect(file.text).toContain('#EXT-X-MAP:URI="my%20init.mp4"\n#EXTINF:2.000,\npart%20%231.m4s\n');
+  expect(writeHls([clip(false)])[0].text).not.toContain("#EXT-X-INDEPENDENT-SEGMENTS");
+
+  const entries = parseHls(file.text)[0].entries;
+  expect(entries.map(e => uriBasename(e.uri))).toEqual(["my init.mp4", "part #1.m4s", "b.m4s"]);
+});
@@ -0,0 +1,402 @@
+// HLS (.m3u8) and DASH (.mpd) manifests: reading the play order, init segments, durations and
+// byte ranges of local segment files, and writing the current arrangement as a VOD playlist/MPD.
+// Segment URIs are matched to local files by their last path component.
+
+import type { TrackType } from "./initGroups";
+
+export interface ByteRange {
+  offset: number;
+  length: number;
+}
+
+export interface ManifestEntry {
+  kind: "init" | "media";
+  uri: string;
+  seconds?: number;
+  range?: ByteRange;
+}
+
+// One rendition of the manifest; DASH alternatives (several Representations) share a `group`.
+export interface ManifestTrack {
+  group: string;
+  id: string;
+  type: "video" | "audio" | "other";
+  bandwidth: number;
+  entries: ManifestEntry[];
+}
+
+export function isManifestName(name: string): boolean {
+  return /\.(m3u8|mpd)$/i.test(name);
+}
+
+// Last path component without query/fragment, percent-decoded.
+export function uriBasename(uri: string): string {
+  const path = uri.split(/[?#]/)[0];
+  const last = path.slice(path.lastIndexOf("/") + 1);
+  try { return decodeURIComponent(last); } catch { return last; }
+}
+
+function hlsAttrs(s: string): Record<string, string> {
+  const out: Record<string, string> = {};
+  for (const m of Array.from(s.matchAll(/([A-Z0-9-]+)=("[^"]*"|[^,]*)/g))) out[m[1]] = m[2].replace(/^"|"$/g, "");
+  return out;
+}
+
+// "length[@offset]"; without an offset the range continues where the previous one for the URI ended.
+function hlsRange(s: string | undefined, uri: string, ends: Map<string, number>): ByteRange | undefined {
+  if (!s) return undefined;
+  const [len, off] = s.split("@");
+  const range = { offset: off !== undefined ? Number(off) : ends.get(uri) ?? 0, length: Number(len) };
+  ends.set(uri, range.offset + range.length);
+  return range;
+}
+
+export function parseHls(text: string): ManifestTrack[] {
+  const lines = text.split(/\r?\n/).map(l => l.trim()).filter(Boolean);
+  if (lines[0] !== "#EXTM3U") throw new Error("Not an HLS playlist (missing #EXTM3U)");
+  const variants = lines.filter((l, i) => lines[i - 1]?.startsWith("#EXT-X-STREAM-INF"));
+  if (variants.length) throw new Error(`This is a master playlist; load one of its media playlists (${variants.join(", ")})`);
+
+  const entries: ManifestEntry[] = [];
+  const ends = new Map<string, number>();
+  let map: ManifestEntry | undefined;
+  let seconds: number | undefined;
+  let range: string | undefined;
+  for (const line of lines) {
+    if (line.startsWith("#EXT-X-MAP:")) {
+      const a = hlsAttrs(line.slice(11));
+      const next: ManifestEntry = { kind: "init", uri: a.URI, range: hlsRange(a.BYTERANGE, a.URI, new Map()) };
+      if (!map || map.uri !== next.uri || map.range?.offset !== next.range?.offset) entries.push(next);
+      map = next;
+    } else if (line.startsWith("#EXTINF:")) {
+      seconds = parseFloat(line.slice(8));
+    } else if (line.startsWith("#EXT-X-BYTERANGE:")) {
+      range = line.slice(17);
+    } else if (!line.startsWith("#")) {
+      entries.push({ kind: "media", uri: line, seconds, range: hlsRange(range, line, ends) });
+      seconds = undefined;
+      range = undefined;
+    }
+  }
+  if (!entries.some(e => e.kind === "media")) throw new Error("Playlist lists no segments");
+  return [{ group: "0", id: "playlist", type: "other", bandwidth: 0, entries }];
+}
+
+// ISO 8601 duration as used by MPDs (PnDTnHnMnS).
+export function parseIsoDuration(s: string | null | undefined): number | undefined {
+  const m = s?.match(/^P(?:(\d+(?:\.\d+)?)D)?(?:T(?:(\d+(?:\.\d+)?)H)?(?:(\d+(?:\.\d+)?)M)?(?:(\d+(?:\.\d+)?)S)?)?$/);
+  if (!m) return undefined;
+  const [d, h, min, sec] = m.slice(1).map(v => Number(v ?? 0));
+  return d * 86400 + h * 3600 + min * 60 + sec;
+}
+
+const kids = (el: Element | undefined, name: string) => Array.from(el?.children ?? []).filter(c => c.localName === name);
+const kid = (el: Element | undefined, name: string) => kids(el, name)[0];
+
+// $RepresentationID$, $Bandwidth$, $Number$ / $Time$ with optional %0Nd width, and $$.
+function fillTemplate(t: string, vars: Record<string, string | number>): string {
+  return t.replace(/\$(\w*)(?:%0(\d+)d)?\$/g, (all, name: string, width?: string) => {
+    if (!name) return "$";
+    const v = vars[name];
+    if (v === undefined) return all;
+    return width ? String(v).padStart(Number(width), "0") : String(v);
+  });
+}
+
+// Attribute from the Representation's element, else the AdaptationSet's (DASH inheritance).
+function inherited(els: Array<Element | undefined>, attr: string): string | undefined {
+  for (const el of els) {
+    const v = el?.getAttribute(attr);
+    if (v !== null && v !== undefined) return v;
+  }
+  return undefined;
+}
+
+// (start, duration) pairs in timescale units from a SegmentTimeline; r = -1 repeats until `end`.
+function timelineSegments(tl: Element, end: number | undefined): { t: number; d: number }[] {
+  const out: { t: number; d: number }[] = [];
+  let t = 0;
+  const ss = kids(tl, "S");
+  ss.forEach((s, i) => {
+    if (s.hasAttribute("t")) t = Number(s.getAttribute("t"));
+    const d = Number(s.getAttribute("d"));
+    let r = Number(s.getAttribute("r") ?? 0);
+    if (r < 0) {
+      const next = ss[i + 1]?.getAttribute("t");
+      const until = next !== null && next !== undefined ? Number(next) : end;
+      r = until !== undefined && d > 0 ? Math.ceil((until - t) / d) - 1 : 0;
+    }
+    for (let k = 0; k <= r; k++, t += d) out.push({ t, d });
+  });
+  return out;
+}
+
+function representationEntries(set: Element, rep: Element, periodSeconds: number | undefined): ManifestEntry[] {
+  const vars = { RepresentationID: rep.getAttribute("id") ?? "", Bandwidth: rep.getAttribute("bandwidth") ?? "" };
+  const tmpl = [kid(rep, "SegmentTemplate"), kid(set, "SegmentTemplate")];
+  const list = kid(rep, "SegmentList") ?? kid(set, "SegmentList");
+  const entries: ManifestEntry[] = [];
+
+  if (tmpl[0] || tmpl[1]) {
+    const timescale = Number(inherited(tmpl, "timescale") ?? 1);
+    const init = inherited(tmpl, "initialization");
+    const media = inherited(tmpl, "media");
+    const startNumber = Number(inherited(tmpl, "startNumber") ?? 1);
+    if (init) entries.push({ kind: "init", uri: fillTemplate(init, vars) });
+    if (!media) return entries;
+    const tl = kid(tmpl[0], "SegmentTimeline") ?? kid(tmpl[1], "SegmentTimeline");
+    const end = periodSeconds !== undefined ? periodSeconds * timescale : undefined;
+    const segs = tl
+      ? timelineSegments(tl, end)
+      : Array.from({ length: Math.ceil((end ?? 0) / Number(inherited(tmpl, "duration") ?? Infinity)) }, (_, i) => {
+        const d = Number(inherited(tmpl, "duration"));
+        return { t: i * d, d };
+      });
+    segs.forEach((s, i) => entries.push({
+      kind: "media",
+      uri: fillTemplate(media, { ...vars, Number: startNumber + i, Time: s.t }),
+      seconds: s.d / timescale,
+    }));
+    return entries;
+  }
+
+  if (list) {
+    const timescale = Number(list.getAttribute("timescale") ?? 1);
+    const initEl = kid(list, "Initialization");
+    const initUri = initEl?.getAttribute("sourceURL");
+    if (initUri) entries.push({ kind: "init", uri: initUri, range: dashRange(initEl?.getAttribute("range")) });
+    const tl = kid(list, "SegmentTimeline");
+    const durations = tl ? timelineSegments(tl, undefined).map(s => s.d) : [];
+    kids(list, "SegmentURL").forEach((u, i) => entries.push({
+      kind: "media",
+      uri: u.getAttribute("media") ?? "",
+      range: dashRange(u.getAttribute("mediaRange")),
+      seconds: (durations[i] ?? Number(list.getAttribute("duration") ?? 0)) / timescale || undefined,
+    }));
+    return entries;
+  }
+
+  // SegmentBase: one self-initializing file.
+  const base = kid(rep, "BaseURL")?.textContent?.trim();
+  if (base) entries.push({ kind: "init", uri: base, seconds: periodSeconds });
+  return entries;
+}
+
+// "first-last", inclusive
+function dashRange(s: string | null | undefined): ByteRange | undefined {
+  const m = s?.match(/^(\d+)-(\d+)$/);
+  return m ? { offset: Number(m[1]), length: Number(m[2]) - Number(m[1]) + 1 } : undefined;
+}
+
+export function parseMpd(text: string): ManifestTrack[] {
+  const doc = new DOMParser().parseFromString(text, "application/xml");
+  const mpd = doc.documentElement;
+  if (mpd?.localName !== "MPD") throw new Error("Not a DASH manifest (no MPD element)");
+  if (mpd.getAttribute("type") === "dynamic") throw new Error("Live (dynamic) MPDs aren't supported");
+
+  const total = parseIsoDuration(mpd.getAttribute("mediaPresentationDuration"));
+  const periods = kids(mpd, "Period");
+  const tracks: ManifestTrack[] = [];
+  let elapsed = 0;
+  periods.forEach((period, p) => {
+    const start = parseIsoDuration(period.getAttribute("start")) ?? elapsed;
+    const nextStart = parseIsoDuration(periods[p + 1]?.getAttribute("start"));
+    const seconds = parseIsoDuration(period.getAttribute("duration"))
+      ?? (nextStart !== undefined ? nextStart - start : total !== undefined ? total - start : undefined);
+    elapsed = start + (seconds ?? 0);
+
+    kids(period, "AdaptationSet").forEach((set, s) => {
+      const kind = set.getAttribute("contentType") ?? set.getAttribute("mimeType")?.split("/")[0]
+        ?? kids(set, "Representation")[0]?.getAttribute("mimeType")?.split("/")[0];
+      const type = kind === "video" || kind === "audio" ? kind : "other";
+      for (const rep of kids(set, "Representation")) {
+        tracks.push({
+          group: `${p}:${set.getAttribute("id") ?? s}`,
+          id: rep.getAttribute("id") ?? "",
+          type,
+          bandwidth: Number(rep.getAttribute("bandwidth") ?? 0),
+          entries: representationEntries(set, rep, seconds),
+        });
+      }
+    });
+  });
+  if (!tracks.length) throw new Error("MPD has no Representations");
+  return tracks;
+}
+
+export function parseManifest(name: string, text: string): ManifestTrack[] {
+  return /\.mpd$/i.test(name) ? parseMpd(text) : parseHls(text);
+}
+
+// Picks one rendition per group (the one with most of its files present, then the highest
+// bandwidth) and returns their entries in play order: per period, video before audio.
+export function manifestOrder(tracks: ManifestTrack[], available: Set<string>): ManifestEntry[] {
+  const groups = new Map<string, ManifestTrack[]>();
+  tracks.forEach(t => groups.set(t.group, [...(groups.get(t.group) ?? []), t]));
+  const present = (t: ManifestTrack) => t.entries.filter(e => available.has(uriBasename(e.uri))).length;
+  const rank = { video: 0, other: 1, audio: 2 };
+
+  const chosen = Array.from(groups.values()).map(alts =>
+    alts.slice().sort((a, b) => present(b) - present(a) || b.bandwidth - a.bandwidth)[0]);
+  const period = (t: ManifestTrack) => Number(t.group.split(":")[0]) || 0;
+  chosen.sort((a, b) => period(a) - period(b) || rank[a.type] - rank[b.type]);
+  return chosen.flatMap(t => t.entries);
+}
+
+// --- Export ---
+
+export interface PlaylistSegment {
+  uri: string;               // file name; percent-encoded when written
+  seconds: number;
+  bytes: number;
+  start?: number;            // decode time of the first sample, in the run's timescale
+  sync?: boolean;            // starts on a sync sample
+  discontinuity?: boolean;   // timestamps don't continue from the previous segment
+}
+
+// A stretch of segments that share one init.
+export interface PlaylistRun {
+  type: TrackType;
+  init: string;
+  codecs?: string;
+  width?: number;
+  height?: number;
+  timescale?: number;        // ticks per second of the segments' `start`
+  segments: PlaylistSegment[];
+}
+
+export interface ManifestFile {
+  name: string;
+  text: string;
+}
+
+// Names are written as URI path components; uriBasename decodes them again on import.
+const uriOf = (name: string) => encodeURIComponent(name);
+// Only claimed when known for every segment.
+const independent = (runs: PlaylistRun[]) => runs.every(r => r.segments.every(s => s.sync));
+
+const runSeconds = (r: PlaylistRun) => r.segments.reduce((n, s) => n + s.seconds, 0);
+const runBytes = (r: PlaylistRun) => r.segments.reduce((n, s) => n + s.bytes, 0);
+
+function bandwidth(runs: PlaylistRun[]): number {
+  const seconds = runs.reduce((n, r) => n + runSeconds(r), 0);
+  return Math.max(1, Math.round((runs.reduce((n, r) => n + runBytes(r), 0) * 8) / (seconds || 1)));
+}
+
+function mediaPlaylist(runs: PlaylistRun[]): string {
+  const segments = runs.flatMap(r => r.segments);
+  const target = Math.max(1, ...segments.map(s => Math.ceil(s.seconds)));
+  const lines = ["#EXTM3U", "#EXT-X-VERSION:7", `#EXT-X-TARGETDURATION:${target}`, "#EXT-X-MEDIA-SEQUENCE:0",
+    "#EXT-X-PLAYLIST-TYPE:VOD", ...(independent(runs) ? ["#EXT-X-INDEPENDENT-SEGMENTS"] : [])];
+  runs.forEach((r, i) => r.segments.forEach((s, k) => {
+    if ((k === 0 && i > 0) || (k > 0 && s.discontinuity)) lines.push("#EXT-X-DISCONTINUITY");
+    if (k === 0) lines.push(`#EXT-X-MAP:URI="${uriOf(r.init)}"`);
+    lines.push(`#EXTINF:${s.seconds.toFixed(3)},`, uriOf(s.uri));
+  }));
+  lines.push("#EXT-X-ENDLIST");
+  return lines.join("\n") + "\n";
+}
+
+const codecList = (runs: PlaylistRun[]) => Array.from(new Set(runs.flatMap(r => r.codecs?.split(",") ?? [])));
+
+// One media playlist, or video + audio media playlists under a master playlist when demuxed.
+export function writeHls(runs: PlaylistRun[]): ManifestFile[] {
+  const video = runs.filter(r => r.type === "video");
+  const audio = runs.filter(r => r.type === "audio");
+  if (!video.length || !audio.length || runs.some(r => r.type === "muxed")) {
+    return [{ name: "playlist.m3u8", text: mediaPlaylist(runs) }];
+  }
+  const res = video.find(r => r.width && r.height);
+  const codecs = codecList([...video, ...audio]);
+  const master = [
+    "#EXTM3U", "#EXT-X-VERSION:7", ...(independent(runs) ? ["#EXT-X-INDEPENDENT-SEGMENTS"] : []),
+    '#EXT-X-MEDIA:TYPE=AUDIO,GROUP-ID="audio",NAME="audio",DEFAULT=YES,AUTOSELECT=YES,URI="audio.m3u8"',
+    `#EXT-X-STREAM-INF:BANDWIDTH=${bandwidth(video) + bandwidth(audio)}` +
+      (codecs.length ? `,CODECS="${codecs.join(",")}"` : "") +
+      (res ? `,RESOLUTION=${res.width}x${res.height}` : "") + ',AUDIO="audio"',
+    "video.m3u8",
+  ];
+  return [
+    { name: "master.m3u8", text: master.join("\n") + "\n" },
+    { name: "video.m3u8", text: mediaPlaylist(video) },
+    { name: "audio.m3u8", text: mediaPlaylist(audio) },
+  ];
+}
+
+const xml = (s: string) => s.replace(/&/g, "&amp;").replace(/</g, "&lt;").replace(/>/g, "&gt;").replace(/"/g, "&quot;");
+const isoSeconds = (s: number) => `PT${s.toFixed(3)}S`;
+
+// SegmentTimeline in the run's timescale: S@t on the first segment and wherever a segment
+// doesn't start where the one before ended, and equal neighbours folded into r.
+function segmentTimeline(segments: PlaylistSegment[], timescale: number): string[] {
+  const rows: { t?: number; d: number; r: number }[] = [];
+  let next = segments[0]?.start ?? 0;
+  for (const s of segments) {
+    const d = Math.round(s.seconds * timescale);
+    const t = s.start ?? next;
+    const last = rows[rows.length - 1];
+    if (last && t === next && last.d === d) last.r++;
+    else rows.push({ t: last && t === next ? undefined : t, d, r: 0 });
+    next = t + d;
+  }
+  return rows.map(row => `<S${row.t !== undefined ? ` t="${row.t}"` : ""} d="${row.d}"${row.r ? ` r="${row.r}"` : ""}/>`);
+}
+
+// A run cut where its timestamps jump; each part becomes a Period of its own.
+function periodRuns(r: PlaylistRun): PlaylistRun[] {
+  const out: PlaylistRun[] = [];
+  r.segments.forEach((s, k) => {
+    if (k === 0 || s.discontinuity) out.push({ ...r, segments: [s] });
+    else out[out.length - 1].segments.push(s);
+  });
+  return out;
+}
+
+// Static MPD with explicit SegmentLists. A Period per init run, and a new one at each
+// discontinuity, with presentationTimeOffset taking the media's own decode times back to the
+// Period start. Demuxed audio/video need the same number of Periods per type so they pair up.
+export function writeMpd(runs: PlaylistRun[]): string {
+  const byType = new Map<TrackType, PlaylistRun[]>();
+  runs.flatMap(periodRuns).forEach(r => byType.set(r.type, [...(byType.get(r.type) ?? []), r]));
+  const counts = new Set(Array.from(byType.values()).map(rs => rs.length));
+  if (counts.size > 1) throw new Error("Audio and video switch init segments or jump in time at different points; DASH export needs them paired");
+  const periodCount = Math.max(0, ...Array.from(counts));
+
+  const out = ['<?xml version="1.0" encoding="UTF-8"?>'];
+  let start = 0;
+  const periods: string[] = [];
+  for (let p = 0; p < periodCount; p++) {
+    const inPeriod = Array.from(byType.values()).map(rs => rs[p]);
+    const seconds = Math.max(...inPeriod.map(runSeconds));
+    periods.push(`  <Period id="${p}" start="${isoSeconds(start)}" duration="${isoSeconds(seconds)}">`);
+    inPeriod.forEach((r, i) => {
+      const content = r.type === "audio" ? "audio" : "video";
+      const timescale = r.timescale ?? 1000;
+      const offset = r.segments[0].start ?? 0;
+      periods.push(
+        `    <AdaptationSet id="${i}" contentType="${content}" mimeType="${content}/mp4" segmentAlignment="true">`,
+        `      <Representation id="${content}${p}" bandwidth="${bandwidth([r])}"` +
+          (r.codecs ? ` codecs="${xml(r.codecs)}"` : "") +
+          (r.width && r.height ? ` width="${r.width}" height="${r.height}"` : "") + ">",
+        `        <SegmentList timescale="${timescale}"${offset ? ` presentationTimeOffset="${offset}"` : ""}>`,
+        `          <Initialization sourceURL="${xml(uriOf(r.init))}"/>`,
+        "          <SegmentTimeline>",
+        ...segmentTimeline(r.segments, timescale).map(s => `            ${s}`),
+        "          </SegmentTimeline>",
+        ...r.segments.map(s => `          <SegmentURL media="${xml(uriOf(s.uri))}"/>`),
+        "        </SegmentList>",
+        "      </Representation>",
+        "    </AdaptationSet>",
+      );
+    });
+    periods.push("  </Period>");
+    start += seconds;
+  }
+  out.push(
+    '<MPD xmlns="urn:mpeg:dash:schema:mpd:2011" type="static" profiles="urn:mpeg:dash:profile:isoff-live:2011"' +
+      ` minBufferTime="PT2S" mediaPresentationDuration="${isoSeconds(start)}">`,
+    ...periods,
+    "</MPD>",
+  );
+  return out.join("\n") + "\n";
+}
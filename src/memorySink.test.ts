@@ -0,0 +1,58 @@
+import fs from "fs";
+import os from "os";
+import path from "path";
+import { SafeMSE, type RecoveryEvent, type SafeMSEOptions } from "./mergeMP4";
+import { MemorySink, type MemorySinkOptions } from "./memorySink";
+import { parseBoxTree, readMfhd } from "./mp4Boxes";
+import { fixtureStream } from "./testFixtures";
+
+const settle = async () => { for (let i = 0; i < 50; i++) await new Promise(r => setTimeout(r)); };
+
+async function play(count: number, opts: MemorySinkOptions = {}, mseOpts: SafeMSEOptions = {}) {
+  const sink = new MemorySink(opts);
+  const warn: string[] = [];
+  const events: RecoveryEvent[] = [];
+  const mse = new SafeMSE(sink, m => warn.push(m), () => {}, { ...mseOpts, onEvent: e => events.push(e) });
+  await mse.open("video/mp4");
+  const { init, media } = fixtureStream(count);
+  mse.enqueueGroups([{ init, mime: "video/mp4", media, labels: media.map((_, i) => `f${i + 1}`) }]);
+  await settle();
+  return { sink, mse, warn, events };
+}
+
+test("places fragments back to back and writes the sequenced stream", async () => {
+  const { sink, mse, warn, events } = await play(4);
+  expect([warn, events]).toEqual([[], []]);
+  expect(mse.getTimeIndex().map(e => [e.label, e.start, e.end])).toEqual([["f1", 0, 2], ["f2", 2, 4], ["f3", 4, 6], ["f4", 6, 8]]);
+  const sb = sink.buffers[0];
+  expect([sb.buffered.length, sb.buffered.start(0), sb.buffered.end(0)]).toEqual([1, 0, 8]);
+  expect(sink.appends.map(a => a.kind)).toEqual(["init", "media", "media", "media", "media"]);
+  expect(sink.ended).toBe(true);
+
+  const file = path.join(os.tmpdir(), `memory-sink-${process.pid}.mp4`);
+  fs.writeFileSync(file, new Uint8Array(sink.stream()));
+  const written = new Uint8Array(fs.readFileSync(file)).buffer;
+  fs.unlinkSync(file);
+  const { boxes } = parseBoxTree(written);
+  expect(boxes.map(b => b.type)).toEqual(["ftyp", "moov", ...Array(4).fill(["moof", "mdat"]).flat()]);
+  expect(boxes.filter(b => b.type === "moof").map(m => readMfhd(written, m.children![0]))).toEqual([1, 2, 3, 4]);
+  mse.destroy();
+  expect(sink.closed).toBe(true);
+});
+
+test("injects errors, throws and stalls per append", async () => {
+  const faults: MemorySinkOptions["fail"] = a => (a.index === 2 ? "error" : a.index === 3 ? "throw" : a.index === 4 ? "stall" : undefined);
+  const { sink, mse, events } = await play(5, { fail: faults, stallMs: 40 }, { appendTimeoutMs: 10, retries: 0, rebuilds: 0 });
+  await new Promise(r => setTimeout(r, 60));
+  await settle();
+  expect(events.map(e => [e.label, e.reason, e.action])).toEqual([
+    ["f2", "error", "skip"], ["f3", "threw", "skip"], ["f4", "stalled", "skip"],
+  ]);
+  expect(mse.getTimeIndex().map(e => [e.label, e.state, e.start])).toEqual([
+    ["f1", "buffered", 0], ["f2", "skipped", 2], ["f3", "skipped", 2], ["f4", "skipped", 2], ["f5", "buffered", 2],
+  ]);
+  expect(sink.appends.map(a => a.outcome)).toEqual(["ok", "ok", "error", "throw", "stall", "ok"]);
+  const moofs = parseBoxTree(sink.stream()).boxes.filter(b => b.type === "moof");
+  expect(moofs).toHaveLength(2);
+  mse.destroy();
+});
@@ -0,0 +1,181 @@
+// A PlaybackSink that keeps everything in memory: it records each append, simulates the
+// buffered ranges a SourceBuffer in sequence mode would report, and can inject errors, stalls
+// and quota failures. Drives SafeMSE in tests without a browser, and its sequenced stream
+// (what a player would have been fed) can be written out as a file.
+
+import { fragmentSeconds } from "./mergeMP4";
+import { parseBoxTree, readInitInfo, type InitInfo } from "./mp4Boxes";
+import { concatBytes } from "./mp4Write";
+import type { PlaybackSink, SinkBuffer } from "./playbackSink";
+
+// "error" fires error + updateend, "throw" and "quota" throw from appendBuffer, "stall" sends
+// updateend only after `stallMs` and buffers nothing.
+export type AppendFault = "error" | "throw" | "quota" | "stall";
+
+export interface MemoryAppend {
+  lane: number;
+  index: number;              // position among this lane's appends
+  kind: "init" | "media";
+  buf: ArrayBuffer;
+  start: number;              // timestampOffset when appended
+  end: number;                // start + media duration
+  outcome: "ok" | AppendFault;
+}
+
+export interface MemorySinkOptions {
+  capacity?: number;          // media bytes a lane holds before QuotaExceededError
+  fail?: (append: Omit<MemoryAppend, "outcome" | "end">) => AppendFault | void;
+  stallMs?: number;           // how late a stalled append finishes (default 10000)
+}
+
+interface Range { start: number; end: number; bytes: number }
+
+class MemorySourceBuffer extends EventTarget implements SinkBuffer {
+  updating = false;
+  timestampOffset = 0;
+  ranges: Range[] = [];
+  private info: InitInfo | undefined;
+
+  constructor(private sink: MemorySink, private lane: number, public mime: string) { super(); }
+
+  get buffered() {
+    // Touching ranges read as one, like a real SourceBuffer.
+    const merged: Range[] = [];
+    for (const r of [...this.ranges].sort((a, b) => a.start - b.start)) {
+      const last = merged[merged.length - 1];
+      if (last && r.start <= last.end + 1e-6) last.end = Math.max(last.end, r.end);
+      else merged.push({ ...r });
+    }
+    return { length: merged.length, start: (i: number) => merged[i].start, end: (i: number) => merged[i].end };
+  }
+
+  appendBuffer(buf: ArrayBuffer) {
+    if (this.updating) throw new DOMException("Still updating", "InvalidStateError");
+    const { boxes } = parseBoxTree(buf);
+    const isInit = boxes.some(b => b.type === "moov");
+    const start = this.timestampOffset;
+    const append = {
+      lane: this.lane,
+      index: this.sink.appends.filter(a => a.lane === this.lane).length,
+      kind: isInit ? "init" as const : "media" as const,
+      buf,
+      start,
+    };
+    const used = this.ranges.reduce((n, r) => n + r.bytes, 0);
+    const over = !isInit && used + buf.byteLength > (this.sink.capacity ?? Infinity);
+    const fault = over ? "quota" : this.sink.fail?.(append) ?? undefined;
+    const seconds = isInit ? 0 : fragmentSeconds(this.info, buf);
+    this.sink.appends.push({ ...append, end: start + seconds, outcome: fault ?? "ok" });
+
+    if (fault === "quota") throw new DOMException("SourceBuffer is full", "QuotaExceededError");
+    if (fault === "throw") throw new Error("appendBuffer failed");
+    this.updating = true;
+    this.sink.ended = false;
+    if (fault) {
+      this.finish(fault === "error", fault === "stall" ? this.sink.stallMs : 0);
+      return;
+    }
+    if (isInit) this.info = readInitInfo(buf, boxes);
+    else if (seconds > 0) {
+      this.ranges.push({ start, end: start + seconds, bytes: buf.byteLength });
+      this.timestampOffset = start + seconds;   // sequence mode carries on after the group
+    }
+    this.finish();
+  }
+
+  remove(from: number, to: number) {
+    this.ranges = this.ranges.flatMap(r => {
+      if (r.end <= from || r.start >= to) return [r];
+      const len = r.end - r.start;
+      const kept = [{ start: r.start, end: from }, { start: to, end: r.end }].filter(p => p.end > p.start);
+      return kept.map(p => ({ ...p, bytes: Math.round(r.bytes * (p.end - p.start) / len) }));
+    });
+    this.updating = true;
+    this.finish();
+  }
+
+  changeType(mime: string) {
+    this.mime = mime;
+  }
+
+  abort() {
+    this.updating = false;
+  }
+
+  private finish(error = false, delay = 0) {
+    setTimeout(() => {
+      this.updating = false;
+      if (error) this.dispatchEvent(new Event("error"));
+      this.dispatchEvent(new Event("updateend"));
+    }, delay);
+  }
+}
+
+export class MemorySink implements PlaybackSink {
+  currentTime = 0;
+  appends: MemoryAppend[] = [];
+  buffers: MemorySourceBuffer[] = [];
+  ended = false;
+  closed = false;
+  rebuilds = 0;
+  readonly capacity?: number;
+  readonly fail?: MemorySinkOptions["fail"];
+  readonly stallMs: number;
+  private listeners = new Set<() => void>();
+
+  constructor(opts: MemorySinkOptions = {}) {
+    this.capacity = opts.capacity;
+    this.fail = opts.fail;
+    this.stallMs = opts.stallMs ?? 10000;
+  }
+
+  async open(mimes: string[]) {
+    this.buffers = mimes.map((m, i) => new MemorySourceBuffer(this, i, m));
+    return this.buffers;
+  }
+
+  // The old buffers are dropped as they are; late updateends from them still fire.
+  async rebuild(mimes: string[]) {
+    this.rebuilds++;
+    return this.open(mimes);
+  }
+
+  endOfStream() {
+    this.ended = true;
+  }
+
+  onPlayhead(listener: () => void) {
+    this.listeners.add(listener);
+    return () => { this.listeners.delete(listener); };
+  }
+
+  close() {
+    this.buffers.forEach(b => b.abort());
+    this.listeners.clear();
+    this.closed = true;
+  }
+
+  // Moves the playhead (playback or a seek) and tells SafeMSE.
+  seek(t: number) {
+    this.currentTime = t;
+    this.listeners.forEach(l => l());
+  }
+
+  // One lane's accepted appends in timeline order as a single fMP4: each init where it
+  // changes, then the media. Re-appends of evicted fragments are written once.
+  stream(lane = 0): ArrayBuffer {
+    const parts: Uint8Array[] = [];
+    let init: ArrayBuffer | undefined;
+    let end = -Infinity;
+    for (const a of this.appends.filter(x => x.lane === lane && x.outcome === "ok")) {
+      if (a.kind === "init") {
+        if (a.buf !== init) parts.push(new Uint8Array(a.buf));
+        init = a.buf;
+      } else if (a.start >= end - 1e-6) {
+        parts.push(new Uint8Array(a.buf));
+        end = a.end;
+      }
+    }
+    return concatBytes(parts).buffer;
+  }
+}
@@ -0,0 +1,45 @@
+import { checkFormatCompatibility } from "./mergeMP4";
+import { fixtureInit, fixtureFragment } from "./testFixtures";
+
+const named = (name: string, buf: ArrayBuffer) => ({ name, buf });
+
+test("reports codec, resolution and timescale switches between inits", () => {
+  const a = fixtureInit([{ trackId: 1, timescale: 1000, width: 1280, height: 720 }]);
+  const b = fixtureInit([{ trackId: 1, timescale: 90000, width: 1920, height: 1080, codec: "avc3", config: 5 }]);
+  const diags = checkFormatCompatibility([named("a.mp4", a), named("b.mp4", b)]);
+
+  expect(diags.map(d => [d.severity, d.file])).toEqual([["info", "b.mp4"], ["warning", "b.mp4"], ["info", "b.mp4"]]);
+  expect(diags[1].message).toMatch(/avc1 to avc3/);
+  expect(diags[2].message).toMatch(/1920×1080 differs from 1280×720/);
+});
+
+const KID = "00112233445566778899aabbccddeeff";
+
+test("flags unknown track IDs, missing keys and unsupported codecs as errors", () => {
+  const clear = fixtureInit([{ trackId: 1, timescale: 1000 }]);
+  const locked = fixtureInit([{ trackId: 1, timescale: 1000, scheme: "cenc", kid: KID }]);
+  const stray = fixtureFragment({ seq: 1, trackId: 7, dts: 0, durations: [10] });
+  const diags = checkFormatCompatibility(
+    [named("clear.mp4", clear), named("locked.mp4", locked), named("stray.m4s", stray)],
+    mime => !mime.includes("avc1.000000"),
+  );
+
+  const errors = diags.filter(d => d.severity === "error");
+  expect(errors.map(d => [d.index, d.message])).toEqual([
+    [0, "Track 1: this browser can't play avc1.000000"],
+    [1, `Track 1 is encrypted (cenc, KID ${KID}); enter its ClearKey key to play it`],
+    [1, "Track 1: this browser can't play avc1.000000"],
+    [2, "Track ID(s) 7 aren't described by any init"],
+  ]);
+});
+
+test("accepts encrypted tracks once their ClearKey key is known", () => {
+  const locked = fixtureInit([{ trackId: 1, timescale: 1000, scheme: "cbcs", kid: KID }]);
+  const diags = checkFormatCompatibility([named("locked.mp4", locked)], undefined, new Set([KID]));
+  expect(diags).toEqual([expect.objectContaining({ severity: "info", message: `Track 1 is encrypted (cbcs); decrypted with the ClearKey key for ${KID}` })]);
+});
+
+test("needs an init before media can be checked", () => {
+  const diags = checkFormatCompatibility([named("f.m4s", fixtureFragment({ seq: 1, dts: 0, durations: [10] }))]);
+  expect(diags).toEqual([expect.objectContaining({ severity: "error", index: 0, file: "f.m4s" })]);
+});
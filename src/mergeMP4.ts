@@ -1,246 +1,835 @@
-// Classifier + SafeMSE in SEQUENCE mode.
-// Now tracks buffered end after each media fragment to map currentTime -> label.
+// Classifier + SafeMSE in SEQUENCE mode, plus the file merge and the format checks run before
+// playback. SafeMSE feeds fragment groups to one SourceBuffer per lane (muxed, or demuxed video
+// and audio) in a window around the playhead, keeps a time index to map currentTime -> label,
+// and recovers from failed appends per a RecoveryPolicy.
+
+import {
+  parseBoxTree, childBox, childBoxes, findBoxPath, readMfhd, readTfdt, readTfhd, readMoof, readInitInfo,
+  type InitInfo, type InitTrack,
+} from "./mp4Boxes";
+import { remuxGroups, type RemuxOptions } from "./remux";
+import { assignInits, sequenceRuns, type TrackType } from "./initGroups";
+import { describeSampleEntry, type SampleEntryInfo } from "./sampleEntry";
+import type { ClearKeyPair } from "./clearKey";
+import { MediaSourceSink, type PlaybackSink, type SinkBuffer } from "./playbackSink";
+import { fixLeadingSamples, fragmentStart, planSeams, type LeadingPolicy } from "./keyframes";
+import { detectProtection } from "./protection";
+
+// "progressive" is a regular MP4 (moov + mdat, no fragments) that must be transmuxed first.
+export type ProbeKind = "init" | "media" | "progressive" | "unknown";
+
+export function classifyFragment(ab: ArrayBuffer): ProbeKind {
+  const { boxes } = parseBoxTree(ab);
+  const top = new Set(boxes.map(b => b.type));
+
+  if (top.has("ftyp") && top.has("moov")) {
+    const fragmented = top.has("moof") || !!findBoxPath(boxes, ["moov", "mvex"]);
+    return !fragmented && top.has("mdat") ? "progressive" : "init";
+  }
+  if (top.has("moof") || top.has("mdat")) return "media";
+  return "unknown";
+}
 
-export type ProbeKind = "init" | "media" | "unknown";
+type Listener = (msg: string) => void;
 
-function findBoxOffsets(buf: Uint8Array, type: string): number[] {
-  const t0 = type.charCodeAt(0), t1 = type.charCodeAt(1), t2 = type.charCodeAt(2), t3 = type.charCodeAt(3);
-  const hits: number[] = [];
-  for (let i = 0; i + 7 < buf.length; i++) {
-    if (buf[i+4] === t0 && buf[i+5] === t1 && buf[i+6] === t2 && buf[i+7] === t3) hits.push(i);
-  }
-  return hits;
+// One init segment and the media fragments (with labels) that play against it.
+// `track` routes the group to the audio or video SourceBuffer when those are separate.
+export interface PlaybackGroup {
+  init: ArrayBuffer;
+  mime: string;
+  media: Array<Blob | ArrayBuffer>;
+  labels: string[];
+  keys?: string[];     // caller's ids for the media (aligned with `media`), echoed in the time index
+  track?: TrackType;
 }
 
-export function classifyFragment(ab: ArrayBuffer): "init" | "media" | "unknown" {
-  const u8 = new Uint8Array(ab);
-  const hasFtyp = findBoxOffsets(u8, "ftyp").length > 0;
-  const hasMoov = findBoxOffsets(u8, "moov").length > 0;
-  const hasMoof = findBoxOffsets(u8, "moof").length > 0;
-  const hasMdat = findBoxOffsets(u8, "mdat").length > 0;
+// MIME per SourceBuffer for demuxed (CMAF-style) audio and video.
+export type LaneMimes = Partial<Record<"video" | "audio", string>>;
 
-  if (hasFtyp && hasMoov) return "init";
-  if (hasMoof || hasMdat) return "media";
-  return "unknown";
+// An init as appended to one lane; identity tells whether it must be re-appended.
+interface InitRef {
+  buf: ArrayBuffer;
+  mime: string;
 }
 
-type Listener = (msg: string) => void;
+// One media fragment in a lane's play order and where it sits on the MSE timeline.
+// `src` stays a Blob for lazy inputs; `buf` only holds bytes between load and append.
+interface Slot {
+  index: number;                    // position among all enqueued media
+  src: Blob | ArrayBuffer;
+  label: string;
+  key?: string;
+  init?: InitRef;
+  info?: InitInfo;
+  seconds?: number;
+  buf?: ArrayBuffer;
+  loading?: Promise<ArrayBuffer>;
+  start?: number;                   // set once the fragment has been placed (appended or skipped)
+  end?: number;
+  state: "queued" | "buffered" | "evicted" | "skipped";
+  appended?: boolean;
+  failures: FailureReason[];
+}
+
+// Why an append failed: a SourceBuffer "error" (usually a decode error, which leaves the
+// buffer unusable), an exception from appendBuffer, no updateend in time, or a Blob read error.
+export type FailureReason = "error" | "threw" | "stalled" | "unreadable";
+export type RecoveryAction = "retry" | "skip" | "rebuild-and-retry" | "rebuild-and-skip";
+
+export interface RecoveryPolicy {
+  retries: number;           // further attempts at a fragment whose append threw or stalled
+  rebuilds: number;          // times the MediaSource may be rebuilt in one session
+  appendTimeoutMs: number;   // an append without updateend by then counts as stalled
+}
+
+export const DEFAULT_RECOVERY: RecoveryPolicy = { retries: 1, rebuilds: 3, appendTimeoutMs: 5000 };
+
+// One failed append and what SafeMSE did about it. `init` is set when the fragment's init
+// segment was the one rejected (its other fragments are skipped along with it).
+export interface RecoveryEvent {
+  index: number;
+  label: string;
+  key?: string;
+  track: TrackType;
+  reason: FailureReason;
+  action: RecoveryAction;
+  attempt: number;
+  init?: boolean;
+  detail?: string;
+}
+
+const REASON_TEXT: Record<FailureReason, string> = {
+  error: "SourceBuffer error",
+  threw: "append threw",
+  stalled: "append stalled",
+  unreadable: "could not be read",
+};
+
+const ACTION_TEXT: Record<RecoveryAction, string> = {
+  "retry": "retrying",
+  "skip": "skipped",
+  "rebuild-and-retry": "rebuilt the player, retrying",
+  "rebuild-and-skip": "rebuilt the player, skipped",
+};
+
+export function describeRecovery(e: RecoveryEvent): string {
+  const what = e.init ? `init segment rejected (${REASON_TEXT[e.reason]})` : REASON_TEXT[e.reason];
+  return `${e.label || `Fragment ${e.index + 1}`}: ${what}${e.detail ? ` (${e.detail})` : ""} — ${ACTION_TEXT[e.action]}`;
+}
+
+export interface FragmentReport {
+  index: number;
+  label: string;
+  key?: string;
+  track: TrackType;
+  outcome: "played" | "recovered" | "skipped" | "pending";   // recovered: appended after a failed attempt
+  failures: FailureReason[];
+}
+
+export interface PlaybackReport {
+  fragments: FragmentReport[];
+  rebuilds: number;
+}
+
+// Per-fragment time index entry (primary lane), for labels and seeking UIs.
+export interface TimeIndexEntry {
+  label: string;
+  key?: string;
+  start: number;
+  end: number;
+  state: Slot["state"];
+}
+
+// One SourceBuffer with its fragments in play order.
+interface Lane {
+  type: TrackType;
+  sb: SinkBuffer;
+  mime: string;
+  slots: Slot[];
+  pending: boolean;
+  failed: boolean;                  // "error" fired for the in-flight append
+  appendedInit: InitRef | null;     // init the SourceBuffer currently parses media against
+  tail: number;                     // end of the last fragment placed in play order
+  ahead: number;                    // seconds to buffer ahead of currentTime (shrinks on quota errors)
+  quotaWait: boolean;               // buffer full and nothing to evict; wait for playback
+  incoming: Incoming[];             // added fragments, spliced in by pump() between appends
+}
+
+// Fragments added to a running session, to go in front of the fragment with key `before`.
+interface Incoming {
+  slots: Slot[];
+  before?: string;
+}
+
+// Window kept buffered around currentTime, in seconds.
+const KEEP_BEHIND = 30;
+const KEEP_AHEAD = 90;
+const MIN_AHEAD = 10;
+
+// Longest track duration of a media buffer, in seconds.
+export function fragmentSeconds(info: InitInfo | undefined, buf: ArrayBuffer): number {
+  if (!info) return 0;
+  const trex = info.tracks.flatMap(t => (t.trex ? [t.trex] : []));
+  const perTrack = new Map<number, number>();
+  for (const moof of parseBoxTree(buf).boxes.filter(b => b.type === "moof")) {
+    for (const traf of readMoof(buf, moof, trex).trafs) {
+      const ts = info.tracks.find(t => t.trackId === traf.tfhd.trackId)?.timescale || 1;
+      perTrack.set(traf.tfhd.trackId, (perTrack.get(traf.tfhd.trackId) ?? 0) + traf.duration / ts);
+    }
+  }
+  return Math.max(0, ...Array.from(perTrack.values()));
+}
 
+function isQuotaError(e: unknown): boolean {
+  return e instanceof DOMException && (e.name === "QuotaExceededError" || e.code === 22);
+}
+
+export interface SafeMSEOptions extends Partial<RecoveryPolicy> {
+  onEvent?: (e: RecoveryEvent) => void;
+}
+
+// Media may be Blobs (lazy File slices), read just before each append. Played fragments are
+// evicted and re-appended when the user seeks back.
 export class SafeMSE {
-  private mediaSource: MediaSource | null = null;
-  private sourceBuffer: SourceBuffer | null = null;
-  private queue: ArrayBuffer[] = [];
-  private labels: string[] = [];      // labels for media fragments only (no label for init)
-  private pending = false;
-  private video: HTMLVideoElement;
+  private sink: PlaybackSink;
+  private lanes: Lane[] = [];
   private onWarn: Listener;
   private onInfo: Listener;
-
-  // Timing map (end times after each media append, in seconds)
-  private boundaries: number[] = [];
-
-  constructor(video: HTMLVideoElement, onWarn: Listener, onInfo: Listener) {
-    this.video = video;
+  private onEvent: (e: RecoveryEvent) => void;
+  private policy: RecoveryPolicy;
+  private rebuilds = 0;
+  private inits = new Map<ArrayBuffer, InitRef>();   // one ref per init buffer, so repeats aren't re-appended
+  private nextIndex = 0;
+  private finalized = true;
+  private generation = 0;           // bumped per rebuild; callbacks from older buffers are ignored
+  private readonly onPlayhead = () => this.lanes.forEach(l => this.pump(l));
+  private unsubscribe: (() => void) | null = null;
+  private releaseKeys: (() => void) | null = null;
+
+  // A <video> element plays through MSE; any other PlaybackSink receives the appends instead.
+  constructor(output: HTMLVideoElement | PlaybackSink, onWarn: Listener, onInfo: Listener, opts: SafeMSEOptions = {}) {
+    this.sink = "onPlayhead" in output ? output : new MediaSourceSink(output);
     this.onWarn = onWarn;
     this.onInfo = onInfo;
+    const { onEvent, ...policy } = opts;
+    this.onEvent = onEvent ?? (() => {});
+    this.policy = { ...DEFAULT_RECOVERY, ...policy };
   }
 
-  async open(mime: string) {
-    if (!("MediaSource" in window)) throw new Error("MediaSource not supported in this browser");
-    this.mediaSource = new MediaSource();
-    this.video.src = URL.createObjectURL(this.mediaSource);
-
-    await new Promise<void>((resolve, reject) => {
-      const ms = this.mediaSource!;
-      const onOpen = () => {
-        ms.removeEventListener("sourceopen", onOpen);
-        try {
-          this.sourceBuffer = ms.addSourceBuffer(mime);
-          try { (this.sourceBuffer as any).mode = "sequence"; } catch {}
-          try { ms.duration = Infinity; } catch {}
-          this.sourceBuffer.addEventListener("error", () => {
-            this.onWarn("SourceBuffer error — skipping fragment");
-            this.skipCurrent();
-          });
-          resolve();
-        } catch (e) { reject(e); }
+  // Attaches ClearKey MediaKeys with the given keys; call before open() so encrypted inits
+  // find them in place. `mimes` are the SourceBuffer types that will be opened.
+  async useClearKeys(keys: ClearKeyPair[], mimes: string[]) {
+    if (!this.sink.useClearKeys) throw new Error("This output can't decrypt");
+    this.releaseKeys?.();
+    this.releaseKeys = await this.sink.useClearKeys(keys, mimes, this.onWarn);
+  }
+
+  // A single MIME opens one SourceBuffer; separate audio/video MIMEs open one per track type.
+  async open(mime: string | LaneMimes) {
+    const wanted: [TrackType, string][] = typeof mime === "string"
+      ? [["muxed", mime]]
+      : (["video", "audio"] as const).flatMap(t => (mime[t] ? [[t, mime[t]!] as [TrackType, string]] : []));
+    if (!wanted.length) throw new Error("No MIME type given for any SourceBuffer");
+
+    const buffers = await this.sink.open(wanted.map(([, m]) => m));
+    wanted.forEach(([type, m], i) => {
+      const lane: Lane = {
+        type, sb: buffers[i], mime: m, slots: [], pending: false, failed: false,
+        appendedInit: null, tail: 0, ahead: KEEP_AHEAD, quotaWait: false, incoming: [],
       };
-      ms.addEventListener("sourceopen", onOpen);
-      ms.addEventListener("error", () => reject(new Error("MediaSource error")));
+      this.watch(lane);
+      this.lanes.push(lane);
     });
+    this.unsubscribe = this.sink.onPlayhead(this.onPlayhead);
+  }
+
+  // "error" is followed by "updateend"; the append handler turns it into a recovery.
+  private watch(lane: Lane) {
+    const sb = lane.sb;
+    sb.addEventListener("error", () => { if (lane.sb === sb) lane.failed = true; });
   }
 
   // Enqueue init (if any) + media buffers; 'labels' aligns with media only
   enqueueInitAndMedia(init: ArrayBuffer | null, media: ArrayBuffer[], labels: string[]) {
-    this.queue = [];
-    this.labels = [...labels];
-    this.boundaries = [];
+    const lane = this.lanes[0];
+    if (init) {
+      this.enqueueGroups([{ init, mime: lane?.mime ?? "", media, labels, track: lane?.type }]);
+      return;
+    }
+    this.resetQueue();
+    this.finalized = true;
+    if (!lane) return;
+    media.forEach((src, i) => lane.slots.push({ index: this.nextIndex++, src, label: labels[i] ?? "", state: "queued", failures: [] }));
+    this.pump(lane);
+  }
+
+  // Enqueue several init + media groups; a group's init is (re-)appended, with changeType when
+  // the codecs differ, whenever the SourceBuffer last parsed a different one. With `live` the
+  // stream stays open for addGroups() until finalize().
+  enqueueGroups(groups: PlaybackGroup[], opts: { live?: boolean } = {}) {
+    this.resetQueue();
+    this.finalized = !opts.live;
+    this.addGroups(groups);
+  }
+
+  // Adds fragments to the running session, at the end or in front of the fragment with key
+  // `before`. Fragments placed from there on are taken out of the SourceBuffer and placed again
+  // after the new ones; the one playing is never displaced, so the new ones may land after it.
+  addGroups(groups: PlaybackGroup[], before?: string) {
+    const added = new Map<Lane, Slot[]>();
+    for (const g of groups) {
+      const lane = this.laneFor(g.track);
+      if (!lane) continue;
+      const init = this.inits.get(g.init) ?? { buf: g.init, mime: g.mime };
+      this.inits.set(g.init, init);
+      const info = readInitInfo(g.init, parseBoxTree(g.init).boxes);
+      const slots = added.get(lane) ?? added.set(lane, []).get(lane)!;
+      g.media.forEach((src, i) => slots.push({
+        index: this.nextIndex++, src, label: g.labels[i] ?? "", key: g.keys?.[i], init, info, state: "queued", failures: [],
+      }));
+    }
+    added.forEach((slots, lane) => lane.incoming.push({ slots, before }));
+    this.lanes.forEach(l => this.pump(l));
+  }
 
-    if (init) this.queue.push(init);
-    for (const b of media) this.queue.push(b);
+  // Ends the stream once everything added so far is placed.
+  finalize() {
+    this.finalized = true;
+    this.maybeEnd();
+  }
+
+  private laneFor(track: TrackType | undefined): Lane | undefined {
+    return this.lanes.find(l => l.type === track) ?? this.lanes[0];
+  }
 
-    this.pump();
+  // Labels and the time index follow the video lane when audio and video are separate.
+  private get primary(): Lane | undefined {
+    return this.lanes.find(l => l.type === "video") ?? this.lanes[0];
   }
 
-  private getBufferedEnd(): number {
-    const sb = this.sourceBuffer!;
-    const br = sb.buffered;
+  private resetQueue() {
+    this.inits.clear();
+    this.nextIndex = 0;
+    for (const l of this.lanes) {
+      l.slots = [];
+      l.appendedInit = null;
+      l.tail = 0;
+      l.ahead = KEEP_AHEAD;
+      l.quotaWait = false;
+      l.incoming = [];
+    }
+  }
+
+  private getBufferedEnd(lane: Lane): number {
+    const br = lane.sb.buffered;
     if (!br || br.length === 0) return 0;
-    // In sequence mode there should be one contiguous range; use the last end just in case.
     return br.end(br.length - 1);
   }
 
-  private pump() {
-    if (!this.sourceBuffer || this.pending) return;
-    if (this.queue.length === 0) {
-      if (this.mediaSource && this.mediaSource.readyState === "open") {
-        try { this.mediaSource.endOfStream(); } catch {}
+  // endOfStream() shrinks the duration to what is buffered, so wait while the last fragment is evicted.
+  private maybeEnd() {
+    if (!this.finalized) return;
+    if (this.lanes.some(l => l.pending || l.incoming.length || l.slots.some(s => s.start === undefined))) return;
+    if (this.lanes.some(l => l.slots[l.slots.length - 1]?.state === "evicted")) return;
+    this.sink.endOfStream();
+  }
+
+  // First fragment at or after the playhead that isn't in the SourceBuffer.
+  private nextSlot(lane: Lane, t: number): Slot | undefined {
+    let i = lane.slots.findIndex(s => s.end !== undefined && s.end > t + 1e-3);
+    if (i < 0) i = lane.slots.findIndex(s => s.start === undefined);
+    if (i < 0) return undefined;
+    return lane.slots.slice(i).find(s => s.state === "queued" || s.state === "evicted");
+  }
+
+  // Removes whole fragments outside [t - behind, t + ahead]; true when a remove() was started.
+  private evict(lane: Lane, t: number, behind = KEEP_BEHIND): boolean {
+    const buffered = lane.slots.filter(s => s.state === "buffered");
+    const old = buffered.filter(s => s.end! <= t - behind);
+    const far = buffered.filter(s => s.start! >= t + lane.ahead * 2);
+    const [victims, from, to] = old.length
+      ? [old, 0, Math.max(...old.map(s => s.end!))]
+      : far.length ? [far, Math.min(...far.map(s => s.start!)), Infinity] : [[], 0, 0];
+    if (!victims.length || !this.removeRange(lane, from, to)) return false;
+    victims.forEach(s => { s.state = "evicted"; });
+    return true;
+  }
+
+  // Starts a remove(); the lane is pumped again after its updateend.
+  private removeRange(lane: Lane, from: number, to: number): boolean {
+    try {
+      lane.sb.remove(from, to);
+    } catch {
+      return false;
+    }
+    lane.pending = true;
+    const gen = this.generation;
+    lane.sb.addEventListener("updateend", () => {
+      if (gen !== this.generation) return;
+      lane.pending = false;
+      this.pump(lane);
+    }, { once: true });
+    return true;
+  }
+
+  // Splices added fragments into the play order; true when a remove() was started to clear
+  // the placed fragments they go in front of.
+  private takeIncoming(lane: Lane, t: number): boolean {
+    let cut = Infinity;
+    for (const { slots, before } of lane.incoming) {
+      let at = before === undefined ? -1 : lane.slots.findIndex(s => s.key === before);
+      if (at < 0) at = lane.slots.length;
+      while (at < lane.slots.length && lane.slots[at].start !== undefined && lane.slots[at].start! <= t) at++;
+      // Whatever was placed from here on goes back in the queue (skipped ones get another try).
+      for (const s of lane.slots.slice(at).filter(s => s.start !== undefined)) {
+        cut = Math.min(cut, s.start!);
+        s.start = s.end = undefined;
+        s.state = "queued";
       }
-      return;
+      lane.slots.splice(at, 0, ...slots);
     }
+    lane.incoming = [];
+    if (cut === Infinity) return false;
+    lane.tail = cut;
+    return this.getBufferedEnd(lane) > cut && this.removeRange(lane, cut, Infinity);
+  }
+
+  // QuotaExceededError: evict close behind the playhead, or else buffer less ahead and wait for playback.
+  private onQuota(lane: Lane, t: number) {
+    if (this.evict(lane, t, 2)) return;
+    lane.ahead = Math.max(MIN_AHEAD, Math.min(lane.ahead, (this.getBufferedEnd(lane) - t) * 0.8));
+    if (!lane.quotaWait) this.onInfo("SourceBuffer is full — waiting for playback to free space");
+    lane.quotaWait = true;
+  }
 
-    const sb = this.sourceBuffer;
+  private pump(lane: Lane) {
+    if (!this.lanes.includes(lane) || lane.pending) return;
+    const sb = lane.sb;
     if (sb.updating) {
-      sb.addEventListener("updateend", () => this.pump(), { once: true });
+      sb.addEventListener("updateend", () => this.pump(lane), { once: true });
       return;
     }
 
-    const fragment = this.queue[0];
-    const isInitAppend = (this.boundaries.length === 0) && (this.labels.length === this.queue.length - 1);
-    const prevEnd = this.getBufferedEnd();
-    this.pending = true;
+    const t = this.sink.currentTime;
+    if (lane.incoming.length && this.takeIncoming(lane, t)) return;
+    if (this.evict(lane, t)) return;
+    const slot = this.nextSlot(lane, t);
+    if (!slot) {
+      this.maybeEnd();
+      return;
+    }
+    const start = slot.start ?? lane.tail;
+    if (start > t + lane.ahead) return;   // window full; timeupdate resumes
+    if (lane.quotaWait && start > t) {
+      // Retry only once playback has moved past some of what is buffered.
+      if (!lane.slots.some(s => s.state === "buffered" && s.end! <= t - 2)) return;
+      lane.quotaWait = false;
+    }
 
-    const onOk = () => {
-      cleanup();
-      // After append, if this was a media fragment, record new boundary end
-      const newEnd = this.getBufferedEnd();
-      const delta = newEnd - prevEnd;
+    if (slot.init && lane.appendedInit !== slot.init) {
+      this.appendInit(lane, slot.init);
+      return;
+    }
+    if (!slot.buf) {
+      if (slot.src instanceof ArrayBuffer) slot.buf = slot.src;
+      else {
+        this.loadAndPump(lane, slot);
+        return;
+      }
+    }
+    slot.seconds ??= fragmentSeconds(slot.info, slot.buf);
+    this.appendMedia(lane, slot, start);
+  }
 
-      // Init usually doesn't change buffered time; only record for media
-      if (!isInitAppend && delta > 0.005) {
-        this.boundaries.push(newEnd);
+  private appendInit(lane: Lane, init: InitRef) {
+    const sb = lane.sb;
+    if (init.mime !== lane.mime) {
+      try {
+        sb.changeType(init.mime);
+        this.onInfo(`Switched SourceBuffer to ${init.mime}`);
+      } catch {
+        this.onWarn(`Could not switch SourceBuffer to ${init.mime} — later fragments may fail`);
       }
+      lane.mime = init.mime;
+    }
+    this.append(lane, init.buf, (ok, why) => {
+      if (ok) lane.appendedInit = init;
+      else if (why !== "quota") {
+        // No retries: the same init would fail the same way.
+        const waiting = lane.slots.filter(s => s.init === init && s.start === undefined);
+        waiting.forEach(s => s.failures.push(why!));
+        const action = this.decide(why!, Infinity);
+        if (waiting.length) this.emit(lane, waiting[0], why!, action, { init: true });
+        waiting.forEach(s => this.place(lane, s, lane.tail, false));
+        if (action === "rebuild-and-skip") return "rebuild";
+      }
+    });
+  }
 
-      // Shift queue; if media, shift a label too
-      this.queue.shift();
-      if (!isInitAppend) {
-        // when not init append, consume one media label
-        // (labels array aligns with number of media fragments appended so far)
-      } else {
-        // do nothing to labels on init append
+  private appendMedia(lane: Lane, slot: Slot, start: number) {
+    // Sequence mode starts the next coded frame group at timestampOffset, which also puts
+    // re-appended (previously evicted) fragments back where they were.
+    try { lane.sb.timestampOffset = start; } catch {}
+    this.append(lane, slot.buf!, (ok, why) => {
+      slot.buf = undefined;
+      slot.loading = undefined;
+      if (ok) {
+        this.place(lane, slot, start, true);
+        return;
       }
-      this.pending = false;
-      this.pump();
-    };
+      if (why === "quota") return;
+      slot.failures.push(why!);
+      const action = this.decide(why!, slot.failures.length);
+      this.emit(lane, slot, why!, action);
+      if (action === "skip" || action === "rebuild-and-skip") this.place(lane, slot, start, false);
+      if (action === "rebuild-and-retry" || action === "rebuild-and-skip") return "rebuild";
+    });
+  }
 
-    const onTimeout = () => {
-      cleanup();
-      this.onWarn("Append stalled — skipping fragment");
-      this.skipCurrent();
-    };
+  // Per the policy: a SourceBuffer error means the bytes broke the decoder, so the fragment is
+  // not retried; a throw is retried as is; a stall leaves the buffer busy, so it is retried on a
+  // fresh one. A failure that spoils the buffer rebuilds it while rebuilds are left.
+  private decide(reason: FailureReason, attempts: number): RecoveryAction {
+    const canRebuild = !!this.sink.rebuild && this.rebuilds < this.policy.rebuilds;
+    const retry = attempts <= this.policy.retries;
+    if (reason === "unreadable") return "skip";
+    if (reason === "threw" && retry) return "retry";
+    if (!canRebuild) return "skip";
+    return reason === "stalled" && retry ? "rebuild-and-retry" : "rebuild-and-skip";
+  }
 
-    const cleanup = () => {
+  private emit(lane: Lane, slot: Slot, reason: FailureReason, action: RecoveryAction, extra: Partial<RecoveryEvent> = {}) {
+    this.onEvent({
+      index: slot.index, label: slot.label, key: slot.key, track: lane.type,
+      reason, action, attempt: slot.failures.length, ...extra,
+    });
+  }
+
+  // Replaces the MediaSource and its SourceBuffers. Everything buffered is gone, so buffered
+  // fragments count as evicted (re-appended on a seek back) and each lane re-appends its init
+  // before carrying on from the playhead.
+  private async rebuild() {
+    this.rebuilds++;
+    this.generation++;
+    this.lanes.forEach(l => { l.pending = true; });
+    let buffers: SinkBuffer[];
+    try {
+      buffers = await this.sink.rebuild!(this.lanes.map(l => l.mime));
+    } catch (e) {
+      this.onWarn(`Could not rebuild the player (${(e as Error).message})`);
+      return;
+    }
+    if (!this.lanes.length) {
+      this.sink.close();   // destroyed meanwhile
+      return;
+    }
+    this.lanes.forEach((l, i) => {
+      l.sb = buffers[i];
+      this.watch(l);
+      l.slots.filter(s => s.state === "buffered").forEach(s => { s.state = "evicted"; });
+      l.appendedInit = null;
+      l.pending = false;
+      l.failed = false;
+      l.ahead = KEEP_AHEAD;
+      l.quotaWait = false;
+    });
+    this.onInfo("Rebuilt the MediaSource after a failed append");
+    this.lanes.forEach(l => this.pump(l));
+  }
+
+  // Records where a fragment sits. Skipped fragments keep their duration as a hole only when
+  // other lanes must stay aligned; a single lane just closes up.
+  private place(lane: Lane, slot: Slot, start: number, buffered: boolean) {
+    const firstTime = slot.start === undefined;
+    const seconds = slot.seconds ?? 0;
+    slot.start = start;
+    if (buffered) {
+      slot.end = seconds > 0 ? start + seconds : Math.max(this.getBufferedEnd(lane), start);
+      slot.state = "buffered";
+      slot.appended = true;
+    } else {
+      slot.end = slot.end ?? (this.lanes.length > 1 ? start + seconds : start);
+      slot.state = "skipped";
+    }
+    if (firstTime) lane.tail = Math.max(lane.tail, slot.end);
+  }
+
+  // Appends bytes; `done` runs after updateend (or failure) and the lane is pumped again, or
+  // the MediaSource rebuilt when `done` asks for it.
+  private append(lane: Lane, buf: ArrayBuffer, done: (ok: boolean, why?: FailureReason | "quota") => "rebuild" | void) {
+    const sb = lane.sb;
+    const gen = this.generation;
+    lane.pending = true;
+    lane.failed = false;
+
+    const finish = (ok: boolean, why?: FailureReason | "quota") => {
       clearTimeout(timer);
-      sb.removeEventListener("updateend", onOk);
+      sb.removeEventListener("updateend", onEnd);
+      if (!this.lanes.includes(lane) || gen !== this.generation) return;
+      const next = done(ok, why);
+      lane.pending = false;
+      if (next === "rebuild") void this.rebuild();
+      else if (why === "quota") this.onQuota(lane, this.sink.currentTime);
+      else this.pump(lane);
     };
-
-    const timer = setTimeout(onTimeout, 5000);
-    sb.addEventListener("updateend", onOk, { once: true });
+    const onEnd = () => finish(!lane.failed, lane.failed ? "error" : undefined);
+    const timer = setTimeout(() => finish(false, "stalled"), this.policy.appendTimeoutMs);
+    sb.addEventListener("updateend", onEnd, { once: true });
 
     try {
-      sb.appendBuffer(fragment);
-    } catch {
-      cleanup();
-      this.onWarn("Append threw — skipping fragment");
-      this.skipCurrent();
+      sb.appendBuffer(buf);
+    } catch (e) {
+      finish(false, isQuotaError(e) ? "quota" : "threw");
     }
   }
 
-  private skipCurrent() {
-    if (this.queue.length > 0) this.queue.shift();
-    // No label shift here; labels aren’t consumed directly, we only use boundaries to map times.
-    this.pending = false;
-    this.pump();
+  // Reads a Blob-backed fragment (and starts reading the next one) before appending it.
+  private loadAndPump(lane: Lane, slot: Slot) {
+    const gen = this.generation;
+    lane.pending = true;
+    const load = (s: Slot | undefined) => {
+      if (s && !s.buf && !(s.src instanceof ArrayBuffer)) s.loading ??= s.src.arrayBuffer();
+      return s?.loading;
+    };
+    load(slot)!.then(buf => {
+      if (!this.lanes.includes(lane)) return;
+      if (lane.slots.includes(slot)) slot.buf = buf;
+      if (gen !== this.generation) return;
+      lane.pending = false;
+      this.pump(lane);
+    }, (err: Error) => {
+      if (!this.lanes.includes(lane)) return;
+      if (lane.slots.includes(slot)) {
+        slot.loading = undefined;
+        slot.failures.push("unreadable");
+        this.emit(lane, slot, "unreadable", "skip", { detail: err.message });
+        this.place(lane, slot, slot.start ?? lane.tail, false);
+      }
+      if (gen !== this.generation) return;
+      lane.pending = false;
+      this.pump(lane);
+    });
+    const i = lane.slots.indexOf(slot);
+    void load(lane.slots[i + 1])?.catch(() => {});
+  }
+
+  // Per-fragment time index of the primary lane (placed fragments only).
+  getTimeIndex(): TimeIndexEntry[] {
+    return (this.primary?.slots ?? [])
+      .filter(s => s.start !== undefined)
+      .map(s => ({ label: s.label, key: s.key, start: s.start!, end: s.end!, state: s.state }));
+  }
+
+  // The fragment playing at currentTime `t` (the last placed one past the end).
+  getEntryForTime(t: number): TimeIndexEntry | undefined {
+    const placed = this.getTimeIndex().filter(e => e.state !== "skipped");
+    return placed.find(e => t <= e.end + 1e-3) ?? placed[placed.length - 1];
   }
 
-  // Map currentTime to label: find first boundary >= t
+  // Map currentTime to the label of the fragment playing at that time
   getLabelForTime(t: number): string {
-    if (this.labels.length === 0 || this.boundaries.length === 0) return "";
-    for (let i = 0; i < this.boundaries.length; i++) {
-      if (t <= this.boundaries[i] + 1e-3) {
-        return this.labels[i] ?? "";
-      }
-    }
-    return this.labels[this.labels.length - 1] ?? "";
+    return this.getEntryForTime(t)?.label ?? "";
+  }
+
+  // Every enqueued fragment with what became of it so far, in enqueue order.
+  getReport(): PlaybackReport {
+    const fragments = this.lanes.flatMap(l => l.slots.map(s => ({
+      index: s.index,
+      label: s.label,
+      key: s.key,
+      track: l.type,
+      outcome: s.appended ? (s.failures.length ? "recovered" as const : "played" as const) : s.state === "skipped" ? "skipped" as const : "pending" as const,
+      failures: [...s.failures],
+    })));
+    return { fragments: fragments.sort((a, b) => a.index - b.index), rebuilds: this.rebuilds };
   }
 
   destroy() {
-    try {
-      if (this.sourceBuffer && this.mediaSource?.readyState === "open") {
-        this.sourceBuffer.abort();
-        this.mediaSource.endOfStream();
-      }
-    } catch {}
-    if (this.video.src) URL.revokeObjectURL(this.video.src);
-    this.sourceBuffer = null;
-    this.mediaSource = null;
-    this.queue = [];
-    this.labels = [];
-    this.boundaries = [];
-    this.pending = false;
+    this.unsubscribe?.();
+    this.unsubscribe = null;
+    this.releaseKeys?.();
+    this.releaseKeys = null;
+    this.sink.close();
+    this.generation++;
+    this.resetQueue();
+    this.lanes = [];
   }
 }
 
-// Optional stubs to keep old imports compiling
-export async function mergeMP4(_files: File[]): Promise<Blob> {
-  throw new Error("mergeMP4 is not used for playback. MSE streams fragments directly in append order.");
+export interface MergeOptions extends RemuxOptions {
+  labels?: string[];   // chapter title per input (aligned with `files`), used with `chapters`
+  leading?: LeadingPolicy;   // non-sync samples at the start of fragments after a seam (default "keep")
 }
 
-export async function checkFormatCompatibility(files: File[]): Promise<string[]> {
-  const warns: string[] = [];
-  for (const f of files) {
-    if (f.type !== "video/mp4") warns.push(`File ${f.name} is not an MP4 file`);
+// Merges init segments and media fragments (in the given order) into one continuous
+// fragmented MP4. Unknown inputs are skipped; media is matched to the init it belongs to.
+export async function mergeMP4(files: Array<Blob | ArrayBuffer>, opts: MergeOptions = {}): Promise<Blob> {
+  const bufs = await Promise.all(files.map(f => (f instanceof ArrayBuffer ? f : f.arrayBuffer())));
+  const items = bufs.map((buf, i) => ({ kind: classifyFragment(buf), buf, label: opts.labels?.[i] }));
+  const firstInit = items.find(it => it.kind === "init");
+  if (!firstInit) throw new Error("No init segment (ftyp + moov) among the inputs");
+
+  let runs = sequenceRuns(items);
+  if (opts.leading && opts.leading !== "keep") {
+    const infos = new Map(runs.map(r => [r.init, readInitInfo(r.init.buf, parseBoxTree(r.init.buf).boxes)]));
+    const media = runs.flatMap(r => r.media.map(m => ({ buf: m.buf, info: infos.get(r.init), encrypted: !!detectProtection(m.buf) })));
+    const fixed = fixLeadingSamples(media, opts.leading);
+    let n = 0;
+    runs = runs.map(r => ({
+      init: r.init,
+      media: r.media.flatMap(m => {
+        const buf = fixed[n++];
+        return buf ? [{ ...m, buf }] : [];
+      }),
+    })).filter(r => r.media.length);
   }
-  return warns;
+  const groups = runs.length
+    ? runs.map(r => ({ init: r.init.buf, media: r.media.map(m => m.buf), labels: r.media.map(m => m.label ?? "") }))
+    : [{ init: firstInit.buf, media: [] }];
+  return new Blob(remuxGroups(groups, opts), { type: "video/mp4" });
 }
 
+export type Severity = "error" | "warning" | "info";
 
-// Reads ordering hints from a fragmented MP4 media fragment.
-// Returns either a decode-time (tfdt) and/or a sequence number (mfhd).
-export function probeOrderKey(ab: ArrayBuffer): { seq?: number; dts?: number } {
-  try {
-    const u8 = new Uint8Array(ab);
-    const dv = new DataView(ab);
-
-    // --- mfhd (sequence number) ---
-    const mfhdHits = findBoxOffsets(u8, "mfhd");
-    let seq: number | undefined = undefined;
-    if (mfhdHits.length) {
-      const off = mfhdHits[0];
-      // size(4) + type(4) + version/flags(4) + sequence_number(4)
-      seq = dv.getUint32(off + 8 + 4, false);
-    }
-
-    // --- tfdt (baseMediaDecodeTime) ---
-    const tfdtHits = findBoxOffsets(u8, "tfdt");
-    let dts: number | undefined = undefined;
-    if (tfdtHits.length) {
-      const off = tfdtHits[0];
-      const version = dv.getUint8(off + 8); // version/flags
-      if (version === 1) {
-        // 64-bit base decode time
-        const hi = dv.getUint32(off + 12, false);
-        const lo = dv.getUint32(off + 16, false);
-        const big = (BigInt(hi) << BigInt(32)) | BigInt(lo);
-        const maybe = Number(big);
-        dts = Number.isFinite(maybe) ? maybe : undefined;
-      } else {
-        dts = dv.getUint32(off + 12, false);
+// One pre-flight finding; `index` is the offending input's position in the list.
+export interface CompatDiagnostic {
+  severity: Severity;
+  index: number;
+  file: string;
+  message: string;
+}
+
+export interface CompatInput {
+  name: string;
+  buf: ArrayBuffer;
+}
+
+// Pre-flight check across all inits and media fragments: codecs and decoder configuration,
+// resolution / audio format, timescales, track IDs and encryption. Errors mean playback
+// can't work; warnings and info describe switches the player has to handle.
+// Encrypted tracks need their default KID among `keyIds` (ClearKey keys the user entered).
+export function checkFormatCompatibility(
+  inputs: CompatInput[], isTypeSupported?: (mime: string) => boolean, keyIds: Set<string> = new Set(),
+): CompatDiagnostic[] {
+  const out: CompatDiagnostic[] = [];
+  const add = (severity: Severity, index: number, message: string) => out.push({ severity, index, file: inputs[index].name, message });
+  const items = inputs.map(i => ({ kind: classifyFragment(i.buf), buf: i.buf }));
+  const initIdx = items.flatMap((it, i) => (it.kind === "init" ? [i] : []));
+  const firstMedia = items.findIndex(it => it.kind === "media");
+
+  if (!initIdx.length) {
+    if (firstMedia >= 0) add("error", firstMedia, "No init segment (ftyp + moov) in the list to decode this media against");
+    return out;
+  }
+
+  // First track seen per handler is the reference later inits are compared with.
+  const reference = new Map<string, { index: number; track: InitTrack; entry?: SampleEntryInfo }>();
+  const infos = new Map<number, InitInfo | undefined>();
+  const supported = new Map<string, boolean>();
+  for (const i of initIdx) {
+    const { buf } = items[i];
+    const info = readInitInfo(buf, parseBoxTree(buf).boxes);
+    infos.set(i, info);
+    if (!info?.tracks.length) { add("error", i, "Init has no readable tracks"); continue; }
+
+    for (const track of info.tracks) {
+      const name = `Track ${track.trackId}`;
+      if (!track.sampleEntries.length) add("error", i, `${name} has no sample description (stsd)`);
+      const entries = track.sampleEntries.map(e => describeSampleEntry(buf, e));
+
+      for (const e of entries) {
+        if (e.encrypted) {
+          const scheme = e.scheme ?? "unknown scheme";
+          if (!e.kid) add("warning", i, `${name} is encrypted (${scheme}) without a default KID; playback needs keys for its sample groups`);
+          else if (keyIds.has(e.kid)) add("info", i, `${name} is encrypted (${scheme}); decrypted with the ClearKey key for ${e.kid}`);
+          else add("error", i, `${name} is encrypted (${scheme}, KID ${e.kid}); enter its ClearKey key to play it`);
+        }
+        const mime = `${track.handler === "soun" ? "audio" : "video"}/mp4; codecs="${e.codec}"`;
+        if (isTypeSupported && (track.handler === "vide" || track.handler === "soun")) {
+          if (!supported.has(mime)) supported.set(mime, isTypeSupported(mime));
+          if (!supported.get(mime)) add("error", i, `${name}: this browser can't play ${e.codec}`);
+        }
       }
+
+      const ref = reference.get(track.handler);
+      const entry = entries[0];
+      if (!ref) { reference.set(track.handler, { index: i, track, entry }); continue; }
+      const vs = ` (vs ${inputs[ref.index].name})`;
+      if (ref.track.trackId !== track.trackId) {
+        add("info", i, `${name} uses ID ${track.trackId} where the first ${track.handler} track uses ${ref.track.trackId}; IDs are remapped on export${vs}`);
+      }
+      if (ref.track.timescale !== track.timescale) {
+        add("info", i, `${name} timescale ${track.timescale} differs from ${ref.track.timescale}; durations are rescaled on export${vs}`);
+      }
+      if (!entry || !ref.entry) continue;
+      if (entry.originalFormat !== ref.entry.originalFormat) {
+        add("warning", i, `${name} switches codec from ${ref.entry.originalFormat} to ${entry.originalFormat}; needs SourceBuffer.changeType${vs}`);
+      } else if (entry.codec !== ref.entry.codec) {
+        add("info", i, `${name} changes profile/level from ${ref.entry.codec} to ${entry.codec}${vs}`);
+      } else if (entry.config !== ref.entry.config) {
+        add("info", i, `${name} has different decoder parameter sets; the decoder is re-initialized here${vs}`);
+      }
+      if (entry.width !== ref.entry.width || entry.height !== ref.entry.height) {
+        add("info", i, `${name} resolution ${entry.width}×${entry.height} differs from ${ref.entry.width}×${ref.entry.height}${vs}`);
+      }
+      if (entry.channels !== ref.entry.channels || entry.sampleRate !== ref.entry.sampleRate) {
+        add("warning", i, `${name} audio ${entry.channels} ch @ ${entry.sampleRate} Hz differs from ${ref.entry.channels} ch @ ${ref.entry.sampleRate} Hz${vs}`);
+      }
+      if (entry.encrypted !== ref.entry.encrypted) add("warning", i, `${name} mixes encrypted and clear content${vs}`);
     }
+  }
+
+  const knownIds = new Set(Array.from(infos.values()).flatMap(info => info?.tracks.map(t => t.trackId) ?? []));
+  const assignment = assignInits(items);
+  items.forEach((it, i) => {
+    if (it.kind !== "media") return;
+    const moofs = parseBoxTree(it.buf).boxes.filter(b => b.type === "moof");
+    const trafs = moofs.flatMap(m => childBoxes(m, "traf"));
+    const ids = trafs.map(t => childBox(t, "tfhd")).flatMap(b => {
+      const tfhd = b && readTfhd(it.buf, b);
+      return tfhd ? [tfhd.trackId] : [];
+    });
+
+    const unknown = Array.from(new Set(ids.filter(id => !knownIds.has(id))));
+    if (unknown.length) add("error", i, `Track ID(s) ${unknown.join(", ")} aren't described by any init`);
+    else if (assignment[i] === null && moofs.length) add("warning", i, "Doesn't match any init (sample description index or timescale) — played against the init before it");
+    else if (!moofs.length) add("warning", i, "Has no moof; it can't be decoded on its own");
 
-    return { seq, dts };
-  } catch {
-    return {};
+    const init = assignment[i];
+    const protectedInit = init !== null && infos.get(init)?.tracks.some(t => t.sampleEntries.some(e => e.type === "encv" || e.type === "enca"));
+    if (init !== null && !protectedInit && trafs.some(t => childBox(t, "senc"))) {
+      add("warning", i, `Carries encryption data (senc) but its init ${inputs[init].name} is clear`);
+    }
+  });
+
+  // Fragments starting mid-GOP only decode right after the fragment they continue.
+  const starts = items.map((it, i) => {
+    const info = it.kind === "media" && assignment[i] !== null ? infos.get(assignment[i]!) : undefined;
+    return { start: info ? fragmentStart(it.buf, info) : undefined, group: assignment[i] };
+  });
+  for (const i of planSeams(starts, "keep").seams) {
+    const { leading, keyframe } = starts[i].start!;
+    add("warning", i, keyframe === undefined
+      ? "Has no keyframe and doesn't follow the fragment it continues; it can't be decoded here"
+      : `Starts on ${leading} non-keyframe sample(s) and doesn't follow the fragment it continues; expect corrupt frames until its keyframe at ${keyframe.toFixed(3)} s`);
   }
+
+  return out;
+}
+
+// Reads ordering hints from a fragmented MP4 media fragment.
+// Returns either a decode-time (tfdt) and/or a sequence number (mfhd), taken from the
+// first top-level moof and its first traf.
+export function probeOrderKey(ab: ArrayBuffer): { seq?: number; dts?: number } {
+  const { boxes } = parseBoxTree(ab);
+  const moof = boxes.find(b => b.type === "moof");
+  if (!moof) return {};
+
+  const mfhd = childBox(moof, "mfhd");
+  const tfdt = childBox(childBox(moof, "traf"), "tfdt");
+
+  return {
+    seq: mfhd ? readMfhd(ab, mfhd) : undefined,
+    dts: tfdt ? readTfdt(ab, tfdt) : undefined,
+  };
 }
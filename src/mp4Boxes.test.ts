@@ -0,0 +1,72 @@
+import { parseBoxTree, findBoxPath, findAllBoxes } from "./mp4Boxes";
+import { classifyFragment, probeOrderKey } from "./mergeMP4";
+
+function box(type: string, ...payload: Uint8Array[]): Uint8Array {
+  const len = 8 + payload.reduce((n, p) => n + p.length, 0);
+  const out = new Uint8Array(len);
+  new DataView(out.buffer).setUint32(0, len, false);
+  for (let i = 0; i < 4; i++) out[4 + i] = type.charCodeAt(i);
+  let off = 8;
+  for (const p of payload) { out.set(p, off); off += p.length; }
+  return out;
+}
+
+function u32(...vals: number[]): Uint8Array {
+  const out = new Uint8Array(vals.length * 4);
+  const dv = new DataView(out.buffer);
+  vals.forEach((v, i) => dv.setUint32(i * 4, v, false));
+  return out;
+}
+
+function ascii(s: string): Uint8Array {
+  return Uint8Array.from(s, c => c.charCodeAt(0));
+}
+
+function concat(...parts: Uint8Array[]): ArrayBuffer {
+  const out = new Uint8Array(parts.reduce((n, p) => n + p.length, 0));
+  let off = 0;
+  for (const p of parts) { out.set(p, off); off += p.length; }
+  return out.buffer;
+}
+
+// mdat whose payload contains a fake "moof" header to trip byte scanners.
+const decoyMdat = box("mdat", u32(16), ascii("moofjunkjunk"));
+
+test("walks nested containers and reads mfhd/tfdt from the first traf", () => {
+  const moof = box("moof",
+    box("mfhd", u32(0, 7)),
+    box("traf", box("tfhd", u32(0, 1)), box("tfdt", u32(0, 9000))),
+  );
+  const ab = concat(moof, decoyMdat);
+  const { boxes, issues } = parseBoxTree(ab);
+
+  expect(issues).toEqual([]);
+  expect(boxes.map(b => b.type)).toEqual(["moof", "mdat"]);
+  expect(findBoxPath(boxes, ["moof", "traf", "tfdt"])).toBeDefined();
+  expect(findAllBoxes(boxes, "moof")).toHaveLength(1);
+  expect(probeOrderKey(ab)).toEqual({ seq: 7, dts: 9000 });
+  expect(classifyFragment(ab)).toBe("media");
+});
+
+test("handles 64-bit largesize and size 0 boxes", () => {
+  const large = concat(u32(1), ascii("free"), u32(0, 20), u32(0));
+  const zero = concat(u32(0), ascii("mdat"), u32(1, 2, 3));
+  const { boxes, issues } = parseBoxTree(concat(new Uint8Array(large), new Uint8Array(zero)));
+
+  expect(issues).toEqual([]);
+  expect(boxes[0]).toMatchObject({ type: "free", headerSize: 16, size: 20 });
+  expect(boxes[1]).toMatchObject({ type: "mdat", size: 20, truncated: false });
+});
+
+test("reports truncated boxes", () => {
+  const full = box("mdat", u32(1, 2, 3, 4));
+  const { boxes, issues } = parseBoxTree(full.slice(0, 12));
+
+  expect(boxes[0]).toMatchObject({ type: "mdat", truncated: true, end: 12 });
+  expect(issues).toHaveLength(1);
+});
+
+test("does not classify mdat-only payload bytes as boxes", () => {
+  expect(classifyFragment(concat(u32(0xdeadbeef), decoyMdat))).toBe("unknown");
+  expect(classifyFragment(concat(box("ftyp", u32(0)), box("moov", box("mvhd"))))).toBe("init");
+});
@@ -0,0 +1,465 @@
+// Structural ISO-BMFF box walker.
+// Follows size fields (32-bit, 64-bit largesize, size 0 = to end of data) instead of
+// scanning bytes for four-character codes, so box-like patterns inside mdat are ignored.
+
+export interface Mp4Box {
+  type: string;
+  start: number;       // absolute offset of the box header in the parsed buffer
+  size: number;        // declared size (size 0 resolved to "until end of data")
+  headerSize: number;  // 8, or 16 when a largesize is present
+  end: number;         // start + size, clamped to the available data when truncated
+  truncated: boolean;  // declared size runs past the parent / end of data
+  children?: Mp4Box[];
+}
+
+export interface BoxParseIssue {
+  offset: number;
+  type?: string;
+  message: string;
+}
+
+export interface BoxTree {
+  boxes: Mp4Box[];
+  issues: BoxParseIssue[];
+}
+
+// Containers and how many payload bytes precede their first child box.
+// Full-box containers (meta) carry version/flags before the children; stsd also has an
+// entry count, and sample entries have fixed visual (78) / audio (28) headers.
+const CONTAINERS: Record<string, number> = {
+  moov: 0, trak: 0, mdia: 0, minf: 0, stbl: 0, dinf: 0, edts: 0, mvex: 0,
+  moof: 0, traf: 0, mfra: 0, udta: 0, meco: 0, strk: 0, sinf: 0,
+  schi: 0, tref: 0, trgr: 0, ipro: 0, meta: 4, stsd: 8,
+  avc1: 78, avc3: 78, hvc1: 78, hev1: 78, dvh1: 78, dvhe: 78, vp08: 78, vp09: 78, av01: 78, encv: 78,
+  mp4a: 28, enca: 28, "ac-3": 28, "ec-3": 28, Opus: 28, fLaC: 28,
+};
+
+function isBoxType(u8: Uint8Array, off: number): boolean {
+  for (let i = 0; i < 4; i++) {
+    const c = u8[off + i];
+    // Printable ASCII, plus © which iTunes-style metadata uses.
+    if (!((c >= 0x20 && c <= 0x7e) || c === 0xa9)) return false;
+  }
+  return true;
+}
+
+function toU8(data: ArrayBuffer | Uint8Array): Uint8Array {
+  return data instanceof Uint8Array ? data : new Uint8Array(data);
+}
+
+function fourCC(u8: Uint8Array, off: number): string {
+  return String.fromCharCode(u8[off], u8[off + 1], u8[off + 2], u8[off + 3]);
+}
+
+function walk(u8: Uint8Array, dv: DataView, from: number, to: number, depth: number, issues: BoxParseIssue[]): Mp4Box[] {
+  const boxes: Mp4Box[] = [];
+  let off = from;
+
+  while (off < to) {
+    if (to - off < 8) {
+      issues.push({ offset: off, message: `${to - off} trailing byte(s) too short for a box header` });
+      break;
+    }
+    if (!isBoxType(u8, off + 4)) {
+      issues.push({ offset: off, message: "Invalid box type — stopping walk at this level" });
+      break;
+    }
+
+    const type = fourCC(u8, off + 4);
+    let size = dv.getUint32(off, false);
+    let headerSize = 8;
+
+    if (size === 1) {
+      if (to - off < 16) {
+        issues.push({ offset: off, type, message: "Truncated largesize header" });
+        boxes.push({ type, start: off, size: to - off, headerSize: to - off, end: to, truncated: true });
+        break;
+      }
+      const hi = dv.getUint32(off + 8, false);
+      const lo = dv.getUint32(off + 12, false);
+      size = hi * 0x100000000 + lo;
+      headerSize = 16;
+    } else if (size === 0) {
+      size = to - off;
+    }
+
+    if (size < headerSize) {
+      issues.push({ offset: off, type, message: `Box size ${size} is smaller than its header` });
+      break;
+    }
+
+    const truncated = off + size > to;
+    const end = truncated ? to : off + size;
+    if (truncated) {
+      issues.push({ offset: off, type, message: `Box declares ${size} bytes but only ${to - off} are available` });
+    }
+
+    const box: Mp4Box = { type, start: off, size, headerSize, end, truncated };
+
+    const skip = CONTAINERS[type];
+    if (skip !== undefined && depth < 32) {
+      const childStart = off + headerSize + skip;
+      box.children = childStart < end ? walk(u8, dv, childStart, end, depth + 1, issues) : [];
+    }
+
+    boxes.push(box);
+    off = end;
+  }
+
+  return boxes;
+}
+
+// Parses the full box hierarchy of a buffer. Never throws; structural problems are
+// collected in `issues` and truncated boxes are flagged on the box itself.
+export function parseBoxTree(data: ArrayBuffer | Uint8Array): BoxTree {
+  const u8 = toU8(data);
+  const dv = new DataView(u8.buffer, u8.byteOffset, u8.byteLength);
+  const issues: BoxParseIssue[] = [];
+  const boxes = walk(u8, dv, 0, u8.length, 0, issues);
+  return { boxes, issues };
+}
+
+// First direct child of the given type.
+export function childBox(box: Mp4Box | undefined, type: string): Mp4Box | undefined {
+  return box?.children?.find(b => b.type === type);
+}
+
+// All direct children of the given type.
+export function childBoxes(box: Mp4Box | undefined, type: string): Mp4Box[] {
+  return box?.children?.filter(b => b.type === type) ?? [];
+}
+
+// Follows a path of box types from a list of sibling boxes, e.g. ["moov", "trak", "mdia"].
+export function findBoxPath(boxes: Mp4Box[], path: string[]): Mp4Box | undefined {
+  let level: Mp4Box[] | undefined = boxes;
+  let found: Mp4Box | undefined;
+  for (const type of path) {
+    found = level?.find(b => b.type === type);
+    if (!found) return undefined;
+    level = found.children;
+  }
+  return found;
+}
+
+// Depth-first search for every box of the given type.
+export function findAllBoxes(boxes: Mp4Box[], type: string): Mp4Box[] {
+  const out: Mp4Box[] = [];
+  const visit = (list: Mp4Box[]) => {
+    for (const b of list) {
+      if (b.type === type) out.push(b);
+      if (b.children) visit(b.children);
+    }
+  };
+  visit(boxes);
+  return out;
+}
+
+// --- Payload readers for the fragment-level boxes we care about ---
+
+function viewOf(data: ArrayBuffer | Uint8Array): DataView {
+  const u8 = toU8(data);
+  return new DataView(u8.buffer, u8.byteOffset, u8.byteLength);
+}
+
+// Full-box payload offset (after size/type/[largesize]/version/flags) if it fits, else -1.
+function fullBoxPayload(box: Mp4Box, need: number): number {
+  const p = box.start + box.headerSize + 4;
+  return p + need <= box.end ? p : -1;
+}
+
+// Reads a 64-bit big-endian unsigned value as a JS number (exact up to 2^53).
+export function readU64(dv: DataView, off: number): number {
+  return dv.getUint32(off, false) * 0x100000000 + dv.getUint32(off + 4, false);
+}
+
+export function readFullBoxHeader(data: ArrayBuffer | Uint8Array, box: Mp4Box): { version: number; flags: number } | null {
+  const off = box.start + box.headerSize;
+  if (off + 4 > box.end) return null;
+  const dv = viewOf(data);
+  const word = dv.getUint32(off, false);
+  return { version: word >>> 24, flags: word & 0xffffff };
+}
+
+// mfhd: sequence_number
+export function readMfhd(data: ArrayBuffer | Uint8Array, box: Mp4Box): number | undefined {
+  const p = fullBoxPayload(box, 4);
+  if (p < 0) return undefined;
+  return viewOf(data).getUint32(p, false);
+}
+
+// tfdt: baseMediaDecodeTime (32-bit for version 0, 64-bit for version 1)
+export function readTfdt(data: ArrayBuffer | Uint8Array, box: Mp4Box): number | undefined {
+  const hdr = readFullBoxHeader(data, box);
+  if (!hdr) return undefined;
+  const p = fullBoxPayload(box, hdr.version === 1 ? 8 : 4);
+  if (p < 0) return undefined;
+  const dv = viewOf(data);
+  return hdr.version === 1 ? readU64(dv, p) : dv.getUint32(p, false);
+}
+
+export interface TfhdInfo {
+  trackId: number;
+  flags: number;
+  baseDataOffset?: number;
+  sampleDescriptionIndex?: number;
+  defaultSampleDuration?: number;
+  defaultSampleSize?: number;
+  defaultSampleFlags?: number;
+}
+
+// tfhd: track_ID plus the optional defaults selected by tf_flags
+export function readTfhd(data: ArrayBuffer | Uint8Array, box: Mp4Box): TfhdInfo | undefined {
+  const hdr = readFullBoxHeader(data, box);
+  if (!hdr) return undefined;
+  let p = fullBoxPayload(box, 4);
+  if (p < 0) return undefined;
+  const dv = viewOf(data);
+  const f = hdr.flags;
+  const info: TfhdInfo = { trackId: dv.getUint32(p, false), flags: f };
+  p += 4;
+  const take = (n: number) => { if (p + n > box.end) throw new RangeError("tfhd truncated"); const at = p; p += n; return at; };
+  try {
+    if (f & 0x000001) info.baseDataOffset = readU64(dv, take(8));
+    if (f & 0x000002) info.sampleDescriptionIndex = dv.getUint32(take(4), false);
+    if (f & 0x000008) info.defaultSampleDuration = dv.getUint32(take(4), false);
+    if (f & 0x000010) info.defaultSampleSize = dv.getUint32(take(4), false);
+    if (f & 0x000020) info.defaultSampleFlags = dv.getUint32(take(4), false);
+  } catch {
+    // Keep whatever fields were readable.
+  }
+  return info;
+}
+
+export interface TrunSample {
+  duration?: number;
+  size?: number;
+  flags?: number;
+  compositionTimeOffset?: number;
+}
+
+export interface TrunInfo {
+  version: number;
+  flags: number;
+  sampleCount: number;
+  dataOffset?: number;
+  firstSampleFlags?: number;
+  samples: TrunSample[];
+  truncated: boolean;  // fewer sample records present than sample_count declares
+}
+
+// trun: sample table of one run; optional fields selected by tr_flags
+export function readTrun(data: ArrayBuffer | Uint8Array, box: Mp4Box): TrunInfo | undefined {
+  const hdr = readFullBoxHeader(data, box);
+  if (!hdr) return undefined;
+  let p = fullBoxPayload(box, 4);
+  if (p < 0) return undefined;
+  const dv = viewOf(data);
+  const f = hdr.flags;
+  const info: TrunInfo = { version: hdr.version, flags: f, sampleCount: dv.getUint32(p, false), samples: [], truncated: false };
+  p += 4;
+
+  if (f & 0x000001) {
+    if (p + 4 > box.end) return { ...info, truncated: true };
+    info.dataOffset = dv.getInt32(p, false);
+    p += 4;
+  }
+  if (f & 0x000004) {
+    if (p + 4 > box.end) return { ...info, truncated: true };
+    info.firstSampleFlags = dv.getUint32(p, false);
+    p += 4;
+  }
+
+  const per = ((f & 0x100) ? 4 : 0) + ((f & 0x200) ? 4 : 0) + ((f & 0x400) ? 4 : 0) + ((f & 0x800) ? 4 : 0);
+  for (let i = 0; i < info.sampleCount; i++) {
+    if (p + per > box.end) { info.truncated = true; break; }
+    const s: TrunSample = {};
+    if (f & 0x100) { s.duration = dv.getUint32(p, false); p += 4; }
+    if (f & 0x200) { s.size = dv.getUint32(p, false); p += 4; }
+    if (f & 0x400) { s.flags = dv.getUint32(p, false); p += 4; }
+    if (f & 0x800) { s.compositionTimeOffset = hdr.version === 0 ? dv.getUint32(p, false) : dv.getInt32(p, false); p += 4; }
+    info.samples.push(s);
+  }
+  return info;
+}
+
+export interface TrexInfo {
+  trackId: number;
+  defaultSampleDescriptionIndex: number;
+  defaultSampleDuration: number;
+  defaultSampleSize: number;
+  defaultSampleFlags: number;
+}
+
+// trex: per-track fragment defaults from moov/mvex
+export function readTrex(data: ArrayBuffer | Uint8Array, box: Mp4Box): TrexInfo | undefined {
+  const p = fullBoxPayload(box, 20);
+  if (p < 0) return undefined;
+  const dv = viewOf(data);
+  return {
+    trackId: dv.getUint32(p, false),
+    defaultSampleDescriptionIndex: dv.getUint32(p + 4, false),
+    defaultSampleDuration: dv.getUint32(p + 8, false),
+    defaultSampleSize: dv.getUint32(p + 12, false),
+    defaultSampleFlags: dv.getUint32(p + 16, false),
+  };
+}
+
+export interface InitTrack {
+  trackId: number;
+  timescale: number;
+  handler: string;     // "vide", "soun", ...
+  trex?: TrexInfo;
+  trak: Mp4Box;
+  stsd?: Mp4Box;
+  sampleEntries: Mp4Box[];   // stsd entries, index 0 = sample_description_index 1
+}
+
+export interface InitInfo {
+  movieTimescale: number;
+  tracks: InitTrack[];
+}
+
+// Track ids, media timescales, handler types and trex defaults from an init segment's moov.
+export function readInitInfo(data: ArrayBuffer | Uint8Array, boxes: Mp4Box[]): InitInfo | undefined {
+  const moov = boxes.find(b => b.type === "moov");
+  if (!moov) return undefined;
+  const dv = viewOf(data);
+  const u8 = toU8(data);
+
+  let movieTimescale = 1000;
+  const mvhd = childBox(moov, "mvhd");
+  const mvhdHdr = mvhd && readFullBoxHeader(data, mvhd);
+  if (mvhd && mvhdHdr) {
+    const p = fullBoxPayload(mvhd, mvhdHdr.version === 1 ? 20 : 12);
+    if (p >= 0) movieTimescale = dv.getUint32(p + (mvhdHdr.version === 1 ? 16 : 8), false);
+  }
+
+  const trexes = childBoxes(childBox(moov, "mvex"), "trex")
+    .map(b => readTrex(data, b))
+    .filter((t): t is TrexInfo => !!t);
+
+  const tracks: InitTrack[] = [];
+  for (const trak of childBoxes(moov, "trak")) {
+    const tkhd = childBox(trak, "tkhd");
+    const mdia = childBox(trak, "mdia");
+    const mdhd = childBox(mdia, "mdhd");
+    const hdlr = childBox(mdia, "hdlr");
+    const tkhdHdr = tkhd && readFullBoxHeader(data, tkhd);
+    const mdhdHdr = mdhd && readFullBoxHeader(data, mdhd);
+    if (!tkhd || !tkhdHdr || !mdhd || !mdhdHdr) continue;
+
+    const tp = fullBoxPayload(tkhd, tkhdHdr.version === 1 ? 20 : 12);
+    const mp = fullBoxPayload(mdhd, mdhdHdr.version === 1 ? 20 : 12);
+    if (tp < 0 || mp < 0) continue;
+    const trackId = dv.getUint32(tp + (tkhdHdr.version === 1 ? 16 : 8), false);
+    const timescale = dv.getUint32(mp + (mdhdHdr.version === 1 ? 16 : 8), false);
+
+    // hdlr: version/flags, pre_defined(4), handler_type(4)
+    const hp = hdlr ? fullBoxPayload(hdlr, 8) : -1;
+    const handler = hp >= 0 ? fourCC(u8, hp + 4) : "";
+
+    const stsd = findBoxPath(mdia?.children ?? [], ["minf", "stbl", "stsd"]);
+    tracks.push({
+      trackId, timescale, handler,
+      trex: trexes.find(t => t.trackId === trackId),
+      trak,
+      stsd,
+      sampleEntries: stsd?.children ?? [],
+    });
+  }
+
+  return { movieTimescale, tracks };
+}
+
+// Sample with tfhd / trex defaults applied.
+export interface ResolvedSample {
+  duration: number;
+  size: number;
+  flags: number;
+  compositionTimeOffset: number;
+}
+
+export interface TrafRun {
+  box: Mp4Box;
+  info: TrunInfo;
+  dataStart: number;   // absolute offset of the run's first sample byte in the parsed buffer
+  samples: ResolvedSample[];
+}
+
+export interface TrafInfo {
+  box: Mp4Box;
+  tfhd: TfhdInfo;
+  baseDecodeTime?: number;
+  baseDataOffset: number;  // absolute base the trun data_offsets are relative to
+  runs: TrafRun[];
+  duration: number;        // sum of sample durations, in the track timescale
+}
+
+export interface MoofInfo {
+  box: Mp4Box;
+  sequence?: number;
+  trafs: TrafInfo[];
+}
+
+// Sample flag bit: sample_is_non_sync_sample
+export const SAMPLE_NON_SYNC = 0x10000;
+
+export function isSyncSample(flags: number): boolean {
+  return (flags & SAMPLE_NON_SYNC) === 0;
+}
+
+// Resolves every traf of a moof: base data offsets, sample tables with defaults applied,
+// absolute sample data positions and per-traf durations.
+export function readMoof(data: ArrayBuffer | Uint8Array, moof: Mp4Box, trex: TrexInfo[] = []): MoofInfo {
+  const mfhd = childBox(moof, "mfhd");
+  const info: MoofInfo = { box: moof, sequence: mfhd ? readMfhd(data, mfhd) : undefined, trafs: [] };
+  let prevDataEnd = moof.start;
+
+  for (const traf of childBoxes(moof, "traf")) {
+    const tfhdBox = childBox(traf, "tfhd");
+    const tfhd = tfhdBox && readTfhd(data, tfhdBox);
+    if (!tfhd) continue;
+    const tx = trex.find(t => t.trackId === tfhd.trackId);
+    const tfdt = childBox(traf, "tfdt");
+
+    // Base data offset: explicit, default-base-is-moof, or (legacy) end of the previous traf's data.
+    let base: number;
+    if (tfhd.baseDataOffset !== undefined) base = tfhd.baseDataOffset;
+    else if (tfhd.flags & 0x020000) base = moof.start;
+    else base = info.trafs.length === 0 ? moof.start : prevDataEnd;
+
+    const defDuration = tfhd.defaultSampleDuration ?? tx?.defaultSampleDuration ?? 0;
+    const defSize = tfhd.defaultSampleSize ?? tx?.defaultSampleSize ?? 0;
+    const defFlags = tfhd.defaultSampleFlags ?? tx?.defaultSampleFlags ?? 0;
+
+    const runs: TrafRun[] = [];
+    let cursor = base;
+    let duration = 0;
+    for (const trunBox of childBoxes(traf, "trun")) {
+      const trun = readTrun(data, trunBox);
+      if (!trun) continue;
+      const dataStart = trun.dataOffset !== undefined ? base + trun.dataOffset : cursor;
+      const samples = trun.samples.map((s, i) => ({
+        duration: s.duration ?? defDuration,
+        size: s.size ?? defSize,
+        flags: i === 0 && trun.firstSampleFlags !== undefined ? trun.firstSampleFlags : s.flags ?? defFlags,
+        compositionTimeOffset: s.compositionTimeOffset ?? 0,
+      }));
+      cursor = dataStart + samples.reduce((n, s) => n + s.size, 0);
+      duration += samples.reduce((n, s) => n + s.duration, 0);
+      runs.push({ box: trunBox, info: trun, dataStart, samples });
+    }
+    prevDataEnd = cursor;
+
+    info.trafs.push({
+      box: traf,
+      tfhd,
+      baseDecodeTime: tfdt ? readTfdt(data, tfdt) : undefined,
+      baseDataOffset: base,
+      runs,
+      duration,
+    });
+  }
+
+  return info;
+}
@@ -0,0 +1,102 @@
+// Small helpers for serializing ISO-BMFF boxes.
+
+import type { Mp4Box } from "./mp4Boxes";
+
+export function concatBytes(parts: Uint8Array[]): Uint8Array {
+  const out = new Uint8Array(parts.reduce((n, p) => n + p.length, 0));
+  let off = 0;
+  for (const p of parts) { out.set(p, off); off += p.length; }
+  return out;
+}
+
+export function u8(...vals: number[]): Uint8Array {
+  return Uint8Array.from(vals);
+}
+
+export function u16(...vals: number[]): Uint8Array {
+  const out = new Uint8Array(vals.length * 2);
+  const dv = new DataView(out.buffer);
+  vals.forEach((v, i) => dv.setUint16(i * 2, v, false));
+  return out;
+}
+
+export function u32(...vals: number[]): Uint8Array {
+  const out = new Uint8Array(vals.length * 4);
+  const dv = new DataView(out.buffer);
+  vals.forEach((v, i) => dv.setUint32(i * 4, v >>> 0, false));
+  return out;
+}
+
+// 64-bit big-endian from a JS number (exact up to 2^53).
+export function u64(...vals: number[]): Uint8Array {
+  const out = new Uint8Array(vals.length * 8);
+  const dv = new DataView(out.buffer);
+  vals.forEach((v, i) => {
+    dv.setUint32(i * 8, Math.floor(v / 0x100000000), false);
+    dv.setUint32(i * 8 + 4, v % 0x100000000, false);
+  });
+  return out;
+}
+
+export function ascii(s: string): Uint8Array {
+  return Uint8Array.from(s, c => c.charCodeAt(0) & 0xff);
+}
+
+export function utf8(s: string): Uint8Array {
+  const out: number[] = [];
+  for (const ch of s) {
+    const c = ch.codePointAt(0)!;
+    if (c < 0x80) out.push(c);
+    else if (c < 0x800) out.push(0xc0 | (c >> 6), 0x80 | (c & 0x3f));
+    else if (c < 0x10000) out.push(0xe0 | (c >> 12), 0x80 | ((c >> 6) & 0x3f), 0x80 | (c & 0x3f));
+    else out.push(0xf0 | (c >> 18), 0x80 | ((c >> 12) & 0x3f), 0x80 | ((c >> 6) & 0x3f), 0x80 | (c & 0x3f));
+  }
+  return Uint8Array.from(out);
+}
+
+// Plain box: size + type + payload (uses a largesize header when needed).
+export function box(type: string, ...payload: Uint8Array[]): Uint8Array {
+  const body = payload.reduce((n, p) => n + p.length, 0);
+  if (body + 8 > 0xffffffff) {
+    return concatBytes([u32(1), ascii(type), u64(body + 16), ...payload]);
+  }
+  return concatBytes([u32(body + 8), ascii(type), ...payload]);
+}
+
+// Full box: adds the version/flags word in front of the payload.
+export function fullBox(type: string, version: number, flags: number, ...payload: Uint8Array[]): Uint8Array {
+  return box(type, u32(((version & 0xff) << 24) | (flags & 0xffffff)), ...payload);
+}
+
+// Box header only, for payloads that are emitted separately (e.g. a large mdat view).
+export function boxHeader(type: string, payloadSize: number): Uint8Array {
+  if (payloadSize + 8 > 0xffffffff) return concatBytes([u32(1), ascii(type), u64(payloadSize + 16)]);
+  return concatBytes([u32(payloadSize + 8), ascii(type)]);
+}
+
+function ancestorsOf(list: Mp4Box[], target: Mp4Box, path: Mp4Box[] = []): Mp4Box[] | null {
+  for (const b of list) {
+    if (b === target) return path;
+    if (b.children && target.start >= b.start && target.end <= b.end) {
+      const found = ancestorsOf(b.children, target, [...path, b]);
+      if (found) return found;
+    }
+  }
+  return null;
+}
+
+// Replaces `target` (from a tree parsed over `src`) with new bytes and fixes every ancestor's
+// size field. Only safe where nothing refers to absolute file offsets (e.g. an init's moov).
+export function replaceBox(src: Uint8Array, tree: Mp4Box[], target: Mp4Box, replacement: Uint8Array): Uint8Array {
+  const ancestors = ancestorsOf(tree, target);
+  if (!ancestors) throw new Error(`Box ${target.type} is not part of the given tree`);
+  const delta = replacement.length - (target.end - target.start);
+  const out = concatBytes([src.subarray(0, target.start), replacement, src.subarray(target.end)]);
+  const dv = new DataView(out.buffer);
+  for (const a of ancestors) {
+    const size = a.end - a.start + delta;
+    if (a.headerSize === 16) out.set(u64(size), a.start + 8);
+    else dv.setUint32(a.start, size, false);
+  }
+  return out;
+}
@@ -0,0 +1,68 @@
+import { planOrder, naturalCompare } from "./ordering";
+import { fixtureInit, fixtureFragment, type FixtureFragment } from "./testFixtures";
+
+const init = { name: "init.mp4", kind: "init", buf: fixtureInit([{ trackId: 1, timescale: 1000 }, { trackId: 2, timescale: 48000, handler: "soun" }]) };
+const frag = (name: string, f: FixtureFragment) => ({ name, kind: "media", buf: fixtureFragment(f) });
+const names = (r: ReturnType<typeof planOrder>) => r.placements.map(p => p.item.name);
+
+test("orders by per-track decode time in seconds and undoes 32-bit wraparound", () => {
+  // 0.5 s of audio (track 2) comes before 1 s of video, though its raw tfdt is larger.
+  const perTrack = planOrder([init, frag("video.m4s", { seq: 2, trackId: 1, dts: 1000, durations: [1000] }), frag("audio.m4s", { seq: 1, trackId: 2, dts: 24000, durations: [24000] })]);
+  expect(names(perTrack)).toEqual(["init.mp4", "audio.m4s", "video.m4s"]);
+
+  const near = 2 ** 32;
+  const wrapped = planOrder([
+    init,
+    frag("c.m4s", { seq: 3, dts: 0, durations: [1000] }),
+    frag("a.m4s", { seq: 1, dts: near - 2000, durations: [1000] }),
+    frag("d.m4s", { seq: 4, dts: 1000, durations: [1000] }),
+    frag("b.m4s", { seq: 2, dts: near - 1000, durations: [1000] }),
+  ]);
+  expect(names(wrapped)).toEqual(["init.mp4", "a.m4s", "b.m4s", "c.m4s", "d.m4s"]);
+  expect(wrapped.placements.map(p => p.confidence)).toEqual([1, 1, 1, 1, 1]);
+  expect(wrapped.notes).toEqual([expect.stringMatching(/wrap around/)]);
+});
+
+test("splits runs on a clock reset, drops duplicates and reports what it could not place", () => {
+  const a1 = frag("run-a-frag1.m4s", { seq: 1, dts: 0, durations: [1000], payload: 1 });
+  const r = planOrder([
+    init,
+    frag("run-b-frag2.m4s", { seq: 2, dts: 1000, durations: [1000], payload: 4 }),
+    frag("run-a-frag2.m4s", { seq: 2, dts: 1000, durations: [1000], payload: 2 }),
+    { ...a1, name: "copy.m4s" },
+    frag("run-b-frag1.m4s", { seq: 1, dts: 0, durations: [1000], payload: 3 }),
+    a1,
+    { name: "junk10.bin", kind: "unknown", buf: new Uint8Array([1]).buffer },
+    { name: "junk2.bin", kind: "unknown", buf: new Uint8Array([2]).buffer },
+  ]);
+
+  expect(names(r)).toEqual(["init.mp4", "copy.m4s", "run-a-frag2.m4s", "run-b-frag1.m4s", "run-b-frag2.m4s", "junk2.bin", "junk10.bin"]);
+  expect(r.duplicates.map(d => [d.item.name, d.of.name])).toEqual([["run-a-frag1.m4s", "copy.m4s"]]);
+  expect(r.placements[3]).toMatchObject({ confidence: 0.5, reason: expect.stringMatching(/restarts/) });
+  expect(r.unplaced.map(u => u.reason)).toEqual(["not an MP4 fragment", "not an MP4 fragment"]);
+  expect(r.notes).toEqual([expect.stringMatching(/restart 1 time/)]);
+  expect(naturalCompare("frag2", "frag10")).toBeLessThan(0);
+});
+
+test("only drops probes of the same name; lookalike probes are kept with a note", () => {
+  const probe = (name: string) => ({ ...frag(name, { seq: 1, dts: 0, durations: [1000], payload: 1 }), size: 5000 });
+  const r = planOrder([init, probe("a.m4s"), probe("a.m4s"), probe("b.m4s")]);
+
+  expect(r.duplicates.map(d => [d.item.name, d.of.name, d.reason])).toEqual([["a.m4s", "a.m4s", "same name, size and headers"]]);
+  expect(names(r)).toEqual(["init.mp4", "a.m4s", "b.m4s"]);
+  expect(r.notes).toEqual(expect.arrayContaining([expect.stringMatching(/b\.m4s has the same size and headers as a\.m4s; both kept/)]));
+});
+
+test("takes sequence numbers that go back in decode time as a restart", () => {
+  const r = planOrder([
+    init,
+    frag("b.m4s", { seq: 3, dts: 0, durations: [1000], payload: 3 }),
+    frag("a2.m4s", { seq: 2, dts: 11000, durations: [1000], payload: 2 }),
+    frag("a1.m4s", { seq: 1, dts: 10000, durations: [1000], payload: 1 }),
+  ]);
+
+  expect(names(r)).toEqual(["init.mp4", "a1.m4s", "a2.m4s", "b.m4s"]);
+  expect(r.placements.slice(1).map(p => p.confidence)).toEqual([0.8, 0.8, 0.6]);
+  expect(r.placements[3].reason).toMatch(/restarts here \(after a2\.m4s by sequence number\)/);
+  expect(r.notes).toEqual([expect.stringMatching(/sequence numbers go back in decode time 1 time/)]);
+});
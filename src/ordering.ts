@@ -0,0 +1,206 @@
+// Auto-order engine. Media is grouped under the init it matches and ordered by the decode time
+// of the init's reference track (first video track) read from every traf, with 32-bit tfdt /
+// mfhd wraparound undone. When decode times restart (an encoder reset), runs are split where
+// the time drops and put in mfhd order, else in natural file name order. A restart is seen in
+// repeated decode times, or in mfhd order going back in time. Without timing it
+// falls back to mfhd, then to natural name order (frag2 before frag10). Copies are left out:
+// byte-identical buffers, or for probes (see probe.ts) the same name, size and probe bytes.
+// Every placement carries a confidence (0..1) and the reason it was made.
+
+import { parseBoxTree, readInitInfo, readMoof, type InitInfo } from "./mp4Boxes";
+import { assignInits, type GroupItem } from "./initGroups";
+import { crc32 } from "./zip";
+
+export interface OrderItem extends GroupItem {
+  name: string;
+  size?: number;       // file size when `buf` is only a probe (see probe.ts)
+}
+
+export interface Placement<T> {
+  item: T;
+  confidence: number;
+  reason: string;
+}
+
+export interface OrderReport<T> {
+  placements: Placement<T>[];                 // the order: each init, then its media; unplaced media last
+  duplicates: Array<{ item: T; of: T; reason: string }>;   // left out, with the copy that was kept
+  unplaced: Array<{ item: T; reason: string }>;
+  notes: string[];
+}
+
+const WRAP = 2 ** 32;
+const TOLERANCE = 1e-3;   // seconds between one fragment's end and the next one's start
+
+// Timing of one media item on its init's reference track.
+interface Keyed<T> {
+  item: T;
+  t?: number;          // seconds
+  end?: number;
+  seq?: number;
+}
+
+export function naturalCompare(a: string, b: string): number {
+  return a.localeCompare(b, undefined, { numeric: true, sensitivity: "base" });
+}
+
+// Undoes a 32-bit wrap: with a hole wider than half the range, the low values come after it.
+function unwrap(values: number[]): (v: number) => number {
+  const sorted = Array.from(new Set(values)).sort((a, b) => a - b);
+  if (!sorted.length || sorted[sorted.length - 1] >= WRAP) return v => v;
+  let hole = -1;
+  for (let i = 1; i < sorted.length; i++) {
+    if (sorted[i] - sorted[i - 1] > WRAP / 2) hole = sorted[i];
+  }
+  return hole < 0 ? v => v : v => (v < hole ? v + WRAP : v);
+}
+
+// First decode time and total duration per track, and the first mfhd sequence number.
+function readTiming(buf: ArrayBuffer, info: InitInfo | undefined) {
+  const trex = info?.tracks.flatMap(t => (t.trex ? [t.trex] : [])) ?? [];
+  const tracks = new Map<number, { dts?: number; duration: number }>();
+  let seq: number | undefined;
+  for (const b of parseBoxTree(buf).boxes.filter(b => b.type === "moof")) {
+    const moof = readMoof(buf, b, trex);
+    seq = seq ?? moof.sequence;
+    for (const traf of moof.trafs) {
+      const t = tracks.get(traf.tfhd.trackId) ?? { dts: traf.baseDecodeTime, duration: 0 };
+      t.duration += traf.duration;
+      tracks.set(traf.tfhd.trackId, t);
+    }
+  }
+  return { tracks, seq };
+}
+
+// One init's media in play order, with a confidence and reason per item.
+// Media without decode times among timed media can't be placed; it goes last and is reported.
+function orderGroup<T extends OrderItem>(
+  media: T[], info: InitInfo | undefined, initName: string, notes: string[], unplaced: OrderReport<T>["unplaced"],
+) {
+  const timings = media.map(m => readTiming(m.buf, info));
+  const present = new Set(timings.flatMap(t => Array.from(t.tracks.keys())));
+  const ref = info?.tracks.find(t => t.handler === "vide" && present.has(t.trackId))?.trackId ?? Array.from(present)[0];
+  const timescale = (id: number) => info?.tracks.find(t => t.trackId === id)?.timescale || 1;
+
+  // Per-track wrap, then seconds on the reference track (any other track when it's missing).
+  const dtsOf = (i: number, id: number) => timings[i].tracks.get(id)?.dts;
+  const unwrapped = new Map(Array.from(present).map(id => [id, unwrap(media.flatMap((_, i) => dtsOf(i, id) ?? []))]));
+  const seqs = timings.flatMap(t => t.seq ?? []);
+  const seqUnwrap = unwrap(seqs);
+  if (Array.from(present).some(id => media.some((_, i) => dtsOf(i, id) !== undefined && unwrapped.get(id)!(dtsOf(i, id)!) !== dtsOf(i, id)))) {
+    notes.push(`${initName}: decode times wrap around 2^32; fragments after the wrap were put after the ones before it.`);
+  }
+  if (seqs.some(v => seqUnwrap(v) !== v)) notes.push(`${initName}: sequence numbers wrap around 2^32.`);
+  const keyed: Keyed<T>[] = media.map((item, i) => {
+    const tr = timings[i].tracks;
+    const id = ref !== undefined && dtsOf(i, ref) !== undefined ? ref : Array.from(tr.keys()).find(k => dtsOf(i, k) !== undefined);
+    const seq = timings[i].seq !== undefined ? seqUnwrap(timings[i].seq!) : undefined;
+    if (id === undefined) return { item, seq };
+    const t = unwrapped.get(id)!(dtsOf(i, id)!) / timescale(id);
+    return { item, t, end: t + tr.get(id)!.duration / timescale(id), seq };
+  });
+
+  const byName = (a: Keyed<T>, b: Keyed<T>) => naturalCompare(a.item.name, b.item.name);
+  const bySeq = (a: Keyed<T>, b: Keyed<T>) => (a.seq ?? Infinity) - (b.seq ?? Infinity) || byName(a, b);
+  const timed = keyed.filter(k => k.t !== undefined);
+  const untimed = keyed.filter(k => k.t === undefined);
+  const seqUnique = timed.every(k => k.seq !== undefined) && new Set(timed.map(k => k.seq)).size === timed.length;
+  const out: Placement<T>[] = [];
+
+  // Decode times that repeat mean the clock restarted; so does time going back in mfhd order
+  // (run A at 10 s numbered 1-2, run B at 0 s numbered 3), though that's only inferred.
+  // Runs are cut where time goes back.
+  const starts = timed.map(k => k.t!).sort((a, b) => a - b);
+  const repeats = starts.some((t, i) => i > 0 && t - starts[i - 1] < TOLERANCE);
+  const inSeq = seqUnique ? timed.slice().sort(bySeq) : [];
+  const inferred = !repeats && inSeq.some((k, i) => i > 0 && k.t! < inSeq[i - 1].t! - TOLERANCE);
+  const resets = repeats || inferred;
+  let sorted: Keyed<T>[];
+  let runStarts = new Set<Keyed<T>>();
+  if (!resets) {
+    sorted = timed.slice().sort((a, b) => a.t! - b.t! || bySeq(a, b));
+  } else {
+    const bySecondary = timed.slice().sort(seqUnique ? bySeq : byName);
+    const runs: Keyed<T>[][] = [];
+    for (const k of bySecondary) {
+      const run = runs[runs.length - 1];
+      if (run && k.t! > run[run.length - 1].t!) run.push(k);
+      else runs.push([k]);
+    }
+    runs.forEach(r => r.sort((a, b) => a.t! - b.t!));
+    sorted = runs.flat();
+    runStarts = new Set(runs.slice(1).map(r => r[0]));
+    notes.push(inferred
+      ? `${initName}: sequence numbers go back in decode time ${runs.length - 1} time(s); taken as restarts and runs were put in sequence number order.`
+      : `${initName}: decode times restart ${runs.length - 1} time(s); runs were put in ${seqUnique ? "sequence number" : "file name"} order.`);
+  }
+
+  sorted.forEach((k, i) => {
+    const prev = sorted[i - 1];
+    if (runStarts.has(k)) {
+      out.push({ item: k.item, confidence: inferred ? 0.6 : seqUnique ? 0.7 : 0.5, reason: `decode time restarts here (after ${prev.item.name} by ${seqUnique ? "sequence number" : "file name"})` });
+    } else if (!prev || Math.abs(k.t! - prev.end!) <= TOLERANCE) {
+      out.push({ item: k.item, confidence: inferred ? 0.8 : resets ? 0.9 : 1, reason: prev ? "decode time continues the previous fragment" : "earliest decode time" });
+    } else {
+      const d = k.t! - prev.end!;
+      out.push({ item: k.item, confidence: 0.7, reason: `decode time ${d > 0 ? "leaves a gap" : "overlaps"} of ${Math.abs(d).toFixed(3)} s` });
+    }
+  });
+
+  // Without decode times: sequence numbers, else file names.
+  if (timed.length) untimed.forEach(k => unplaced.push({ item: k.item, reason: `no decode time (among timed fragments of ${initName})` }));
+  const bySeqOnly = untimed.filter(k => k.seq !== undefined).sort(bySeq);
+  bySeqOnly.forEach((k, i) => {
+    const prev = bySeqOnly[i - 1];
+    const consecutive = prev && k.seq === prev.seq! + 1;
+    out.push({ item: k.item, confidence: timed.length ? 0.4 : consecutive || !prev ? 0.7 : 0.6, reason: "no decode time; by sequence number" });
+  });
+  untimed.filter(k => k.seq === undefined).sort(byName)
+    .forEach(k => out.push({ item: k.item, confidence: 0.3, reason: "no decode time or sequence number; by file name" }));
+  return out;
+}
+
+export function planOrder<T extends OrderItem>(items: T[]): OrderReport<T> {
+  const notes: string[] = [];
+  const duplicates: OrderReport<T>["duplicates"] = [];
+  const seen = new Map<string, T>();
+  const lookalikes = new Map<string, T>();
+  const unique = items.filter(it => {
+    // A probe only holds the headers and the start of each mdat, so matching probes alone don't
+    // make two files the same; with the same name too they are taken as the same file added twice.
+    const whole = it.size === undefined || it.size === it.buf.byteLength;
+    const fingerprint = `${it.size ?? it.buf.byteLength}:${crc32(new Uint8Array(it.buf))}`;
+    const key = whole ? fingerprint : `${it.name}:${fingerprint}`;
+    const first = seen.get(key);
+    if (first) {
+      duplicates.push({ item: it, of: first, reason: whole ? "same bytes" : "same name, size and headers" });
+      return false;
+    }
+    seen.set(key, it);
+    const like = whole ? undefined : lookalikes.get(fingerprint);
+    if (like) notes.push(`${it.name} has the same size and headers as ${like.name}; both kept (only headers and the start of the media were compared).`);
+    else if (!whole) lookalikes.set(fingerprint, it);
+    return true;
+  });
+
+  const assignment = assignInits(unique);
+  const inits = unique.filter(it => it.kind === "init");
+  const placements: Placement<T>[] = [];
+  const unplaced: OrderReport<T>["unplaced"] = [];
+  for (const init of inits) {
+    const info = readInitInfo(init.buf, parseBoxTree(init.buf).boxes);
+    const media = unique.filter((it, i) => it.kind !== "init" && assignment[i] !== null && unique[assignment[i]!] === init);
+    placements.push({ item: init, confidence: 1, reason: "init, in list order" }, ...orderGroup(media, info, init.name, notes, unplaced));
+  }
+
+  const orphans = unique
+    .filter((it, i) => it.kind !== "init" && assignment[i] === null)
+    .sort((a, b) => naturalCompare(a.name, b.name))
+    .map(item => ({ item, reason: item.kind === "media" ? "matches no init" : "not an MP4 fragment" }));
+  placements.push(...orphans.map(u => ({ item: u.item, confidence: 0, reason: u.reason })));
+  return { placements, duplicates, unplaced: [...unplaced, ...orphans], notes };
+}
+
+export function autoOrder<T extends OrderItem>(items: T[]): T[] {
+  return planOrder(items).placements.map(p => p.item);
+}
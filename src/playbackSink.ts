@@ -0,0 +1,124 @@
+// Where SafeMSE's appends go. SafeMSE keeps the queue, the buffering window and the
+// append / skip / timeout logic; a sink provides SourceBuffer-like buffers and the playhead.
+// MediaSourceSink plays in a <video> through MSE; MemorySink (memorySink.ts) records appends
+// for tests and non-playback outputs.
+
+import { attachClearKey, type ClearKeyPair } from "./clearKey";
+
+// The part of SourceBuffer SafeMSE uses. Appends and removes finish with "updateend"; a
+// failed append fires "error" before it.
+export interface SinkBuffer extends EventTarget {
+  readonly updating: boolean;
+  readonly buffered: { readonly length: number; start(i: number): number; end(i: number): number };
+  timestampOffset: number;
+  appendBuffer(buf: ArrayBuffer): void;
+  remove(from: number, to: number): void;
+  changeType(mime: string): void;
+  abort(): void;
+}
+
+export interface PlaybackSink {
+  readonly currentTime: number;
+  // One buffer per MIME, in sequence mode.
+  open(mimes: string[]): Promise<SinkBuffer[]>;
+  // Called when every fragment is placed; a later eviction may still reopen the stream.
+  endOfStream(): void;
+  // Calls `listener` whenever the playhead moves or jumps; returns the unsubscribe function.
+  onPlayhead(listener: () => void): () => void;
+  // Decryption with ClearKey keys, where the sink can decrypt. Returns the release function.
+  useClearKeys?(keys: ClearKeyPair[], mimes: string[], onWarn: (msg: string) => void): Promise<() => void>;
+  // Fresh buffers for the same MIMEs after the old ones broke (a new MediaSource, for MSE),
+  // keeping the playhead where it was.
+  rebuild?(mimes: string[]): Promise<SinkBuffer[]>;
+  close(): void;
+}
+
+// MSE on a media element: a MediaSource behind an object URL, one SourceBuffer per MIME.
+export class MediaSourceSink implements PlaybackSink {
+  private mediaSource: MediaSource | null = null;
+  private buffers: SourceBuffer[] = [];
+
+  constructor(private video: HTMLVideoElement) {}
+
+  get currentTime() {
+    return this.video.currentTime;
+  }
+
+  async open(mimes: string[]): Promise<SinkBuffer[]> {
+    if (!("MediaSource" in window)) throw new Error("MediaSource not supported in this browser");
+    const ms = new MediaSource();
+    this.mediaSource = ms;
+    this.video.src = URL.createObjectURL(ms);
+
+    await new Promise<void>((resolve, reject) => {
+      const onOpen = () => {
+        ms.removeEventListener("sourceopen", onOpen);
+        try {
+          this.buffers = mimes.map(m => {
+            const sb = ms.addSourceBuffer(m);
+            try { (sb as any).mode = "sequence"; } catch {}
+            return sb;
+          });
+          try { ms.duration = Infinity; } catch {}
+          resolve();
+        } catch (e) { reject(e); }
+      };
+      ms.addEventListener("sourceopen", onOpen);
+      ms.addEventListener("error", () => reject(new Error("MediaSource error")));
+    });
+    return this.buffers;
+  }
+
+  endOfStream() {
+    if (this.mediaSource?.readyState === "open") {
+      try { this.mediaSource.endOfStream(); } catch {}
+    }
+  }
+
+  // Playback frees room behind the playhead; seeking may need evicted fragments back.
+  onPlayhead(listener: () => void) {
+    this.video.addEventListener("timeupdate", listener);
+    this.video.addEventListener("seeking", listener);
+    return () => {
+      this.video.removeEventListener("timeupdate", listener);
+      this.video.removeEventListener("seeking", listener);
+    };
+  }
+
+  // Call before open() so encrypted inits find the MediaKeys in place.
+  async useClearKeys(keys: ClearKeyPair[], mimes: string[], onWarn: (msg: string) => void) {
+    const video = this.video;
+    const closeSession = await attachClearKey(video, keys, mimes, onWarn);
+    const onWaitingForKey = () => onWarn("Playback is waiting for a decryption key that wasn't entered");
+    video.addEventListener("waitingforkey", onWaitingForKey);
+    return () => {
+      closeSession();
+      video.removeEventListener("waitingforkey", onWaitingForKey);
+      video.setMediaKeys(null).catch(() => {});
+    };
+  }
+
+  // A new object URL reloads the element, which pauses it and resets currentTime.
+  async rebuild(mimes: string[]) {
+    const video = this.video;
+    const t = video.currentTime;
+    const playing = !video.paused;
+    this.close();
+    const buffers = await this.open(mimes);
+    try { video.currentTime = t; } catch {}
+    if (playing) video.play().catch(() => {});
+    return buffers;
+  }
+
+  close() {
+    try {
+      if (this.mediaSource?.readyState === "open") {
+        for (const sb of this.buffers) sb.abort();
+        this.mediaSource.endOfStream();
+      }
+    } catch {}
+    if (this.video.src) URL.revokeObjectURL(this.video.src);
+    this.buffers = [];
+    this.mediaSource = null;
+  }
+}
@@ -0,0 +1,20 @@
+import { Blob as NodeBlob } from "buffer";
+import { probeFile, PROBE_MDAT_BYTES } from "./probe";
+import { parseBoxTree, readMoof } from "./mp4Boxes";
+import { fixtureFragment } from "./testFixtures";
+
+test("keeps every box but cuts mdat payloads, so later moofs still parse", async () => {
+  const big = fixtureFragment({ seq: 1, dts: 0, durations: [10, 10], sampleSize: PROBE_MDAT_BYTES });
+  const small = fixtureFragment({ seq: 2, dts: 20, durations: [10] });
+  const { kind, probe } = await probeFile(new NodeBlob([big, small]) as unknown as Blob);   // jsdom's Blob lacks arrayBuffer()
+
+  expect(kind).toBe("media");
+  const { boxes, issues } = parseBoxTree(probe);
+  expect(issues).toEqual([]);
+  const moofSize = (ab: ArrayBuffer) => parseBoxTree(ab).boxes[0].size;
+  expect(boxes.map(b => [b.type, b.size])).toEqual([
+    ["moof", moofSize(big)], ["mdat", 8 + PROBE_MDAT_BYTES], ["moof", moofSize(small)], ["mdat", 12],
+  ]);
+  expect(readMoof(probe, boxes[2]).sequence).toBe(2);
+  expect(probe.byteLength).toBeLessThan(big.byteLength);
+});
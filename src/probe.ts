@@ -0,0 +1,74 @@
+// Reads just enough of a (possibly multi-gigabyte) Blob to classify and probe it: every
+// top-level box in full except mdat, whose payload is cut to its first PROBE_MDAT_BYTES
+// (with the size field rewritten), so the result parses like the real file.
+
+import { classifyFragment, type ProbeKind } from "./mergeMP4";
+
+export const PROBE_MDAT_BYTES = 64 * 1024;
+// Non-mdat boxes larger than this (or unparseable tails) are cut as well.
+const PROBE_MAX_BOX = 64 * 1024 * 1024;
+
+export interface ProbedFile {
+  kind: ProbeKind;
+  probe: ArrayBuffer;   // header bytes as described above
+}
+
+async function readRange(blob: Blob, start: number, end: number): Promise<Uint8Array> {
+  return new Uint8Array(await blob.slice(start, end).arrayBuffer());
+}
+
+function cutBox(type: string, payload: Uint8Array): Uint8Array {
+  const out = new Uint8Array(8 + payload.length);
+  new DataView(out.buffer).setUint32(0, out.length, false);
+  for (let i = 0; i < 4; i++) out[4 + i] = type.charCodeAt(i);
+  out.set(payload, 8);
+  return out;
+}
+
+export function readProbe(blob: Blob): Promise<ArrayBuffer> {
+  return readProbeFrom(blob.size, (start, end) => readRange(blob, start, end));
+}
+
+// The same over any byte source of the given size (e.g. several Blobs read as one stream).
+export async function readProbeFrom(total: number, read: (start: number, end: number) => Promise<Uint8Array>): Promise<ArrayBuffer> {
+  const parts: Uint8Array[] = [];
+  let off = 0;
+  while (off < total) {
+    const head = await read(off, Math.min(off + 16, total));
+    if (head.length < 8) { parts.push(head); break; }
+    const dv = new DataView(head.buffer, head.byteOffset, head.byteLength);
+    const type = String.fromCharCode(head[4], head[5], head[6], head[7]);
+    let size = dv.getUint32(0, false);
+    let headerSize = 8;
+    if (size === 1 && head.length === 16) {
+      size = dv.getUint32(8, false) * 0x100000000 + dv.getUint32(12, false);
+      headerSize = 16;
+    } else if (size === 0) {
+      size = total - off;
+    }
+
+    // Not a box (or a broken header): keep a bounded tail so the parser can report it.
+    if (size < headerSize) {
+      parts.push(await read(off, Math.min(off + PROBE_MDAT_BYTES, total)));
+      break;
+    }
+    const end = Math.min(off + size, total);
+    if (type === "mdat" || size > PROBE_MAX_BOX) {
+      const keep = Math.min(end - off - headerSize, type === "mdat" ? PROBE_MDAT_BYTES : PROBE_MAX_BOX);
+      parts.push(cutBox(type, await read(off + headerSize, off + headerSize + keep)));
+    } else {
+      parts.push(await read(off, end));
+    }
+    off += size;
+  }
+
+  const out = new Uint8Array(parts.reduce((n, p) => n + p.length, 0));
+  let p = 0;
+  for (const part of parts) { out.set(part, p); p += part.length; }
+  return out.buffer;
+}
+
+export async function probeFile(blob: Blob): Promise<ProbedFile> {
+  const probe = await readProbe(blob);
+  return { kind: classifyFragment(probe), probe };
+}
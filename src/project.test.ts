@@ -0,0 +1,42 @@
+import { headerFingerprint, toProject, parseProject, restoreProject, type ProjectItem } from "./project";
+
+const head = (...bytes: number[]) => new Uint8Array(bytes).buffer;
+const row = (name: string, size: number, bytes: number[], taken: Set<string>): ProjectItem & { kind: string } =>
+  ({ id: headerFingerprint(name, size, head(...bytes), taken), file: { name }, size, kind: "media" });
+
+test("fragment ids are stable across sessions and tell duplicates apart", () => {
+  const a = headerFingerprint("a.m4s", 10, head(1, 2, 3));
+  expect(headerFingerprint("a.m4s", 10, head(1, 2, 3))).toBe(a);
+  expect(headerFingerprint("a.m4s", 10, head(1, 2, 4))).not.toBe(a);
+  const taken = new Set<string>();
+  expect(headerFingerprint("a.m4s", 10, head(1, 2, 3), taken)).toBe(a);
+  expect(headerFingerprint("a.m4s", 10, head(1, 2, 3), taken)).toBe(`${a}#2`);
+});
+
+test("restores order, trims and labels, reporting missing, changed and new files", () => {
+  const saved = new Set<string>();
+  const init = row("init.mp4", 5, [0], saved);
+  const one = { ...row("1.m4s", 8, [1], saved), trim: { in: 1 }, label: "Intro" };
+  const two = { ...row("2.m4s", 8, [2], saved), trim: { out: 2 } };
+  const gone = row("3.m4s", 8, [3], saved);
+  const project = parseProject(JSON.stringify(toProject(
+    [init, two, one, gone], { withIndex: false, withChapters: true, withZip: false }, [init, one, two, gone],
+  )));
+
+  // A later session: same init and 1.m4s, 2.m4s re-encoded, 3.m4s not added, 4.m4s new.
+  const taken = new Set<string>();
+  const added = [row("4.m4s", 8, [4], taken), row("1.m4s", 8, [1], taken), row("2.m4s", 9, [2], taken), row("init.mp4", 5, [0], taken)];
+  const r = restoreProject(project, added);
+
+  expect(r.items.map(i => i.file.name)).toEqual(["init.mp4", "2.m4s", "1.m4s", "4.m4s"]);
+  expect(r.items[2]).toMatchObject({ trim: { in: 1 }, label: "Intro" });
+  expect(r.items[1].trim).toBeUndefined();
+  expect(r.manualOrder?.map(i => i.file.name)).toEqual(["init.mp4", "1.m4s", "2.m4s", "4.m4s"]);
+  expect(r.restored).toBe(2);
+  expect(r.changed.map(f => f.name)).toEqual(["2.m4s"]);
+  expect(r.missing.map(f => f.name)).toEqual(["3.m4s"]);
+  expect(r.added).toBe(1);
+
+  expect(() => parseProject("{}")).toThrow(/Not a project file/);
+  expect(() => parseProject(JSON.stringify({ ...project, version: 2 }))).toThrow(/version 2/);
+});
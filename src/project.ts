@@ -0,0 +1,186 @@
+// Merge projects: the list order with each fragment's trim and label, plus the output settings.
+// Fragments are identified by a header fingerprint (name, size and a CRC of the probe: every
+// box but mdat, and the start of each mdat), so the same files added again in a later session
+// map back to their saved entries. Changes past the first 64 KB of an mdat don't show in it.
+// The media itself is never saved; the files have to be added again.
+
+import { crc32 } from "./zip";
+import type { LeadingPolicy } from "./keyframes";
+import type { TrimPoints } from "./trim";
+
+export interface ProjectFragment {
+  id: string;
+  name: string;
+  size: number;
+  kind: string;
+  trim?: TrimPoints;
+  label?: string;
+}
+
+export interface ProjectSettings {
+  withIndex: boolean;
+  withChapters: boolean;
+  withZip: boolean;
+  leading?: LeadingPolicy;   // added later; older projects keep leading samples
+}
+
+export interface Project {
+  version: 1;
+  savedAt: string;           // ISO date
+  fragments: ProjectFragment[];
+  manualOrder?: string[];    // ids in the hand-made order while auto-order is on
+  settings: ProjectSettings;
+}
+
+// What a restore needs from a list row.
+export interface ProjectItem {
+  id: string;
+  file: { name: string };
+  size: number;
+  trim?: TrimPoints;
+  label?: string;
+}
+
+export interface RestoreResult<T> {
+  items: T[];
+  manualOrder?: T[];
+  restored: number;
+  missing: ProjectFragment[];   // saved, not among the files
+  changed: ProjectFragment[];   // same name, different size or headers; trim not re-applied
+  added: number;                // files the project doesn't know, put last
+}
+
+const PROJECT_VERSION = 1;
+
+// Stable id from the file's header fingerprint; `taken` tells apart the same file added twice
+// (and records the id returned).
+export function headerFingerprint(name: string, size: number, head: ArrayBuffer, taken?: Set<string>): string {
+  const base = `${name}:${size}:${crc32(new Uint8Array(head)).toString(16).padStart(8, "0")}`;
+  let id = base;
+  for (let n = 2; taken?.has(id); n++) id = `${base}#${n}`;
+  taken?.add(id);
+  return id;
+}
+
+export function toProject(
+  items: Array<ProjectItem & { kind: string }>, settings: ProjectSettings, manualOrder?: ProjectItem[],
+): Project {
+  return {
+    version: PROJECT_VERSION,
+    savedAt: new Date().toISOString(),
+    fragments: items.map(f => ({
+      id: f.id, name: f.file.name, size: f.size, kind: f.kind,
+      ...(f.trim ? { trim: f.trim } : {}),
+      ...(f.label ? { label: f.label } : {}),
+    })),
+    ...(manualOrder ? { manualOrder: manualOrder.map(f => f.id) } : {}),
+    settings,
+  };
+}
+
+export function parseProject(text: string): Project {
+  let p: Project;
+  try {
+    p = JSON.parse(text);
+  } catch {
+    throw new Error("Not a project file (invalid JSON)");
+  }
+  if (!p || typeof p !== "object" || !Array.isArray(p.fragments) || !p.settings) throw new Error("Not a project file");
+  if (p.version !== PROJECT_VERSION) throw new Error(`Unsupported project version ${p.version}`);
+  if (p.fragments.some(f => typeof f?.id !== "string" || typeof f.name !== "string")) throw new Error("Project has malformed fragments");
+  return p;
+}
+
+// The project's order, trims and labels applied to freshly added rows. Rows match by id, else
+// by name (reported as changed); rows the project doesn't list keep their order after the rest.
+export function restoreProject<T extends ProjectItem>(project: Project, items: T[]): RestoreResult<T> {
+  const byId = new Map(items.map(i => [i.id, i]));
+  const byName = new Map<string, T[]>();
+  items.forEach(i => byName.set(i.file.name, [...(byName.get(i.file.name) ?? []), i]));
+  const savedIds = new Set(project.fragments.map(f => f.id));
+  const used = new Set<T>();
+  const matched = new Map<string, T>();   // saved id -> row
+  const missing: ProjectFragment[] = [];
+  const changed: ProjectFragment[] = [];
+  const out: T[] = [];
+
+  for (const saved of project.fragments) {
+    const exact = byId.get(saved.id);
+    if (exact && !used.has(exact)) {
+      used.add(exact);
+      matched.set(saved.id, exact);
+      out.push({ ...exact, trim: saved.trim, label: saved.label });
+      continue;
+    }
+    const other = byName.get(saved.name)?.find(i => !used.has(i) && !savedIds.has(i.id));
+    if (other) {
+      used.add(other);
+      matched.set(saved.id, other);
+      changed.push(saved);
+      out.push({ ...other, label: saved.label });
+      continue;
+    }
+    missing.push(saved);
+  }
+  const rest = items.filter(i => !used.has(i));
+  const restoredRows = new Map(out.map(r => [r.id, r]));
+  const manualOrder = project.manualOrder?.flatMap(id => {
+    const row = matched.get(id);
+    return row ? [restoredRows.get(row.id)!] : [];
+  });
+  return {
+    items: [...out, ...rest],
+    ...(manualOrder ? { manualOrder: [...manualOrder, ...rest] } : {}),
+    restored: out.length - changed.length,
+    missing,
+    changed,
+    added: rest.length,
+  };
+}
+
+// Autosave slot in IndexedDB: one project, replaced on every save.
+const DB_NAME = "mp4-merger";
+const STORE = "projects";
+const CURRENT = "current";
+
+function openDb(): Promise<IDBDatabase> {
+  return new Promise((resolve, reject) => {
+    if (typeof indexedDB === "undefined") { reject(new Error("IndexedDB isn't available")); return; }
+    const req = indexedDB.open(DB_NAME, 1);
+    req.onupgradeneeded = () => req.result.createObjectStore(STORE);
+    req.onsuccess = () => resolve(req.result);
+    req.onerror = () => reject(req.error ?? new Error("Could not open IndexedDB"));
+  });
+}
+
+async function withStore<R>(mode: IDBTransactionMode, run: (store: IDBObjectStore) => IDBRequest<R>): Promise<R> {
+  const db = await openDb();
+  try {
+    return await new Promise<R>((resolve, reject) => {
+      const req = run(db.transaction(STORE, mode).objectStore(STORE));
+      req.onsuccess = () => resolve(req.result);
+      req.onerror = () => reject(req.error ?? new Error("IndexedDB request failed"));
+    });
+  } finally {
+    db.close();
+  }
+}
+
+export async function saveProject(project: Project): Promise<void> {
+  await withStore("readwrite", s => s.put(project, CURRENT));
+}
+
+// Undefined when nothing (or something unreadable) was saved.
+export async function loadProject(): Promise<Project | undefined> {
+  const raw = await withStore<unknown>("readonly", s => s.get(CURRENT));
+  if (!raw) return undefined;
+  try {
+    return parseProject(JSON.stringify(raw));
+  } catch {
+    return undefined;
+  }
+}
+
+export async function clearSavedProject(): Promise<void> {
+  await withStore("readwrite", s => s.delete(CURRENT));
+}
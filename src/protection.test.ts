@@ -0,0 +1,31 @@
+import { detectProtection, normalizeKid } from "./protection";
+import { clearKeyLicense } from "./clearKey";
+import { box, fullBox, concatBytes, u32, utf8 } from "./mp4Write";
+import { fixtureInit, fixtureFragment, hexBytes } from "./testFixtures";
+
+const KID = "0123456789abcdef0123456789abcdef";
+const OTHER = "fedcba9876543210fedcba9876543210";
+
+test("finds schemes, key IDs and DRM systems in inits and sample encryption in media", () => {
+  const init = fixtureInit([{ trackId: 1, timescale: 1000, scheme: "cenc", kid: KID }]);
+  const pssh = fullBox("pssh", 1, 0, hexBytes("edef8ba979d64acea3c827dcd51d21ed"), u32(1), hexBytes(OTHER), u32(0));
+  expect(detectProtection(concatBytes([new Uint8Array(init), pssh]).buffer)).toEqual({
+    schemes: ["cenc"], kids: [KID, OTHER], systems: ["Widevine"], sampleInfo: false,
+  });
+
+  const media = box("moof", fullBox("mfhd", 0, 0, u32(1)), box("traf", fullBox("senc", 0, 0, u32(0))));
+  expect(detectProtection(media.buffer)).toEqual({ schemes: [], kids: [], systems: [], sampleInfo: true });
+  expect(detectProtection(fixtureFragment({ seq: 1, dts: 0, durations: [10] }))).toBeNull();
+  expect(normalizeKid("{01234567-89AB-CDEF-0123-456789ABCDEF}")).toBe(KID);
+});
+
+test("answers ClearKey requests with the entered keys as a JWK set", () => {
+  const b64 = (hex: string) => btoa(String.fromCharCode(...Array.from(hexBytes(hex)))).replace(/\+/g, "-").replace(/\//g, "_").replace(/=+$/, "");
+  const request = utf8(JSON.stringify({ kids: [b64(KID), b64(OTHER)], type: "temporary" })).buffer;
+  const { license, missing } = clearKeyLicense(request, [{ kid: KID, key: "00000000000000000000000000000001" }]);
+
+  expect(missing).toEqual([OTHER]);
+  expect(JSON.parse(Buffer.from(license).toString())).toEqual({
+    keys: [{ kty: "oct", kid: b64(KID), k: "AAAAAAAAAAAAAAAAAAAAAQ" }], type: "temporary",
+  });
+});
@@ -0,0 +1,87 @@
+// Detects Common Encryption (CENC / cbcs ...) in inits and media fragments: protection schemes,
+// key IDs (tenc default_KID, seig sample groups, pssh KID lists), DRM systems named by pssh
+// boxes, and per-sample encryption data (senc / saiz / saio).
+
+import { parseBoxTree, findAllBoxes, readFullBoxHeader, readInitInfo } from "./mp4Boxes";
+import { describeSampleEntry } from "./sampleEntry";
+
+export interface ProtectionInfo {
+  schemes: string[];      // schm scheme types, e.g. "cenc", "cbcs"
+  kids: string[];         // key IDs, 32 lowercase hex digits
+  systems: string[];      // DRM system names (or UUIDs) from pssh boxes
+  sampleInfo: boolean;    // carries senc / saiz / saio
+}
+
+const SYSTEMS: Record<string, string> = {
+  "1077efecc0b24d02ace33c1e52e2fb4b": "ClearKey",
+  "edef8ba979d64acea3c827dcd51d21ed": "Widevine",
+  "9a04f07998404286ab92e65be0885f95": "PlayReady",
+  "94ce86fb07ff4f43adb893d2fa968ca2": "FairPlay",
+};
+
+const hex = (u8: Uint8Array) => Array.from(u8, b => b.toString(16).padStart(2, "0")).join("");
+
+// Key IDs as typed by people: dashes, braces and case are ignored. Undefined unless 16 bytes.
+export function normalizeKid(s: string): string | undefined {
+  const h = s.replace(/[{}\-\s]/g, "").toLowerCase();
+  return /^[0-9a-f]{32}$/.test(h) ? h : undefined;
+}
+
+export function formatKid(kid: string): string {
+  return `${kid.slice(0, 8)}-${kid.slice(8, 12)}-${kid.slice(12, 16)}-${kid.slice(16, 20)}-${kid.slice(20)}`;
+}
+
+// Null for clear content.
+export function detectProtection(buf: ArrayBuffer): ProtectionInfo | null {
+  const u8 = new Uint8Array(buf);
+  const dv = new DataView(buf);
+  const { boxes } = parseBoxTree(buf);
+  const schemes = new Set<string>();
+  const kids = new Set<string>();
+  const systems = new Set<string>();
+
+  for (const track of readInitInfo(buf, boxes)?.tracks ?? []) {
+    for (const e of track.sampleEntries.map(entry => describeSampleEntry(buf, entry)).filter(e => e.encrypted)) {
+      schemes.add(e.scheme ?? "unknown");
+      if (e.kid && !/^0+$/.test(e.kid)) kids.add(e.kid);
+    }
+  }
+
+  // pssh: SystemID(16), v1+: KID_count + KIDs
+  for (const pssh of findAllBoxes(boxes, "pssh")) {
+    const hdr = readFullBoxHeader(buf, pssh);
+    const p = pssh.start + pssh.headerSize + 4;
+    if (!hdr || p + 16 > pssh.end) continue;
+    const id = hex(u8.subarray(p, p + 16));
+    systems.add(SYSTEMS[id] ?? formatKid(id));
+    if (hdr.version > 0 && p + 20 <= pssh.end) {
+      const count = dv.getUint32(p + 16, false);
+      for (let i = 0, k = p + 20; i < count && k + 16 <= pssh.end; i++, k += 16) kids.add(hex(u8.subarray(k, k + 16)));
+    }
+  }
+
+  // sgpd 'seig' entries (key rotation): reserved, crypt/skip, isProtected, IV size, KID(16), ...
+  for (const sgpd of findAllBoxes(boxes, "sgpd")) {
+    const hdr = readFullBoxHeader(buf, sgpd);
+    let p = sgpd.start + sgpd.headerSize + 4;
+    if (!hdr || p + 8 > sgpd.end || String.fromCharCode(...Array.from(u8.subarray(p, p + 4))) !== "seig") continue;
+    p += 4;
+    const fixed = hdr.version === 1 ? dv.getUint32(p, false) : 0;
+    p += hdr.version === 1 ? 4 : 0;
+    if (hdr.version >= 2) p += 4;   // default_sample_description_index
+    if (p + 4 > sgpd.end) continue;
+    const count = dv.getUint32(p, false);
+    p += 4;
+    for (let i = 0; i < count && p + 4 <= sgpd.end; i++) {
+      const len = fixed || (hdr.version === 1 ? dv.getUint32(p, false) : 20);
+      if (hdr.version === 1 && !fixed) p += 4;
+      if (p + 20 > sgpd.end) break;
+      if (u8[p + 2]) kids.add(hex(u8.subarray(p + 4, p + 20)));
+      p += len;
+    }
+  }
+
+  const sampleInfo = ["senc", "saiz", "saio"].some(t => findAllBoxes(boxes, t).length > 0);
+  if (!schemes.size && !systems.size && !sampleInfo && !kids.size) return null;
+  return { schemes: Array.from(schemes), kids: Array.from(kids), systems: Array.from(systems), sampleInfo };
+}
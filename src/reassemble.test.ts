@@ -0,0 +1,46 @@
+import { Blob as NodeBlob } from "buffer";
+import { reassembleSlices, type ReassembledPiece } from "./reassemble";
+import { concatBytes } from "./mp4Write";
+import { fixtureInit, fixtureFragment } from "./testFixtures";
+
+const init = new Uint8Array(fixtureInit());
+const frags = [1, 2, 3].map(seq => new Uint8Array(fixtureFragment({ seq, dts: (seq - 1) * 300, durations: [100, 100, 100] })));
+const stream = concatBytes([init, ...frags]);
+const fragStart = (i: number) => init.length + frags.slice(0, i).reduce((n, f) => n + f.length, 0);
+
+// Cuts the stream at the given offsets; `drop` removes [from, to) before cutting. jsdom's Blob
+// lacks arrayBuffer(), so these are node's.
+function slices(cuts: number[], drop?: [number, number]): Blob[] {
+  const points = [0, ...cuts, stream.length];
+  const out = points.slice(1).map((end, i) => {
+    const start = points[i];
+    if (!drop) return stream.slice(start, end);
+    const keep = [stream.slice(start, Math.min(end, drop[0])), stream.slice(Math.max(start, drop[1]), end)];
+    return concatBytes(keep.filter(k => k.length));
+  });
+  return out.map(s => new NodeBlob([s]) as unknown as Blob);
+}
+
+async function bytes(p: ReassembledPiece): Promise<Uint8Array> {
+  return new Uint8Array(await new NodeBlob(p.parts as unknown as NodeBlob[]).arrayBuffer());
+}
+
+test("rebuilds init and moof+mdat pairs from arbitrary byte slices", async () => {
+  const { pieces, unrecoverable } = await reassembleSlices(slices([5, init.length + 3, fragStart(1) + 20, fragStart(2) + 40]));
+
+  expect(unrecoverable).toEqual([]);
+  expect(pieces.map(p => p.kind)).toEqual(["init", "media", "media", "media"]);
+  expect(await Promise.all(pieces.map(bytes))).toEqual([init, ...frags]);
+  expect(pieces[0].sources).toEqual([{ file: 0, start: 0, end: 5 }, { file: 1, start: 0, end: init.length - 5 }]);
+});
+
+test("reports bytes lost to a missing slice and keeps the fragments around it", async () => {
+  // Drop the tail of fragment 2's mdat: its size now reaches into fragment 3.
+  const { pieces, unrecoverable } = await reassembleSlices(slices([fragStart(2) - 6], [fragStart(2) - 6, fragStart(2) - 2]));
+
+  expect(await Promise.all(pieces.map(bytes))).toEqual([init, frags[0], frags[2]]);
+  expect(unrecoverable.map(r => r.reason)).toEqual(["moof without its mdat", "mdat is cut short (bytes missing before the next moof)"]);
+  expect(unrecoverable[0].start).toBe(fragStart(1));
+  expect(unrecoverable[1].end).toBe(fragStart(2) - 4);
+  expect(unrecoverable[1].sources.map(s => s.file)).toEqual([0, 1]);
+});
@@ -0,0 +1,219 @@
+// Recovers fragments from files that were cut at arbitrary byte offsets: the ordered list is
+// walked as one byte stream with Blob.slice reads, top-level boxes are re-found across file
+// edges and regrouped into init and moof+mdat pieces, and each piece is put together from
+// slices of the inputs. mdat payloads are only read when a box boundary has to be searched
+// for. Bytes that can't be placed in a playable piece are reported.
+
+import { parseBoxTree, readInitInfo, readMoof, type TrexInfo } from "./mp4Boxes";
+import { classifyFragment, type ProbeKind } from "./mergeMP4";
+import { concatBytes } from "./mp4Write";
+import { readProbeFrom } from "./probe";
+
+// A byte range of one input file (index into the ordered list).
+export interface SliceSource {
+  file: number;
+  start: number;
+  end: number;
+}
+
+export interface ReassembledPiece {
+  kind: ProbeKind;
+  parts: Blob[];          // the piece's bytes, as slices of the inputs
+  size: number;
+  probe: ArrayBuffer;     // header bytes, as probe.ts reads them
+  sources: SliceSource[];
+}
+
+// Offsets are in the joined stream; `sources` says which files those bytes came from.
+export interface UnrecoverableRange {
+  start: number;
+  end: number;
+  reason: string;
+  sources: SliceSource[];
+}
+
+export interface ReassemblyResult {
+  pieces: ReassembledPiece[];
+  unrecoverable: UnrecoverableRange[];
+}
+
+const TOP_LEVEL = new Set(["ftyp", "styp", "moov", "moof", "mdat", "sidx", "ssix", "emsg", "prft", "free", "skip", "mfra", "meta", "pdin", "uuid"]);
+// Boxes that open a media segment ahead of its moof.
+const LEADING = new Set(["styp", "sidx", "ssix", "emsg", "prft"]);
+// Pieces made only of these carry no media and are dropped without a report.
+const PADDING = new Set(["free", "skip", "mfra"]);
+
+interface Header { type: string; size: number; headerSize: number; }
+
+type Reader = (start: number, end: number) => Promise<Uint8Array>;
+
+// Bytes from a box start that are enough to check it (large-size header plus a child header).
+const WINDOW = 24;
+// How much is read at a time while searching for a box start.
+const SCAN_CHUNK = 1 << 20;
+
+function fourcc(u8: Uint8Array, p: number): string {
+  return String.fromCharCode(u8[p], u8[p + 1], u8[p + 2], u8[p + 3]);
+}
+
+// `w` holds the bytes from a candidate box start; `left` is how many remain in the stream.
+function headerAt(w: Uint8Array, left: number): Header | null {
+  if (w.length < 8) return null;
+  const type = fourcc(w, 4);
+  if (!TOP_LEVEL.has(type)) return null;
+  const dv = new DataView(w.buffer, w.byteOffset, w.byteLength);
+  const size32 = dv.getUint32(0, false);
+  let size = size32;
+  let headerSize = 8;
+  if (size32 === 1) {
+    if (w.length < 16) return null;
+    size = dv.getUint32(8, false) * 0x100000000 + dv.getUint32(12, false);
+    headerSize = 16;
+  } else if (size32 === 0) {
+    size = left;
+  }
+  return size >= headerSize ? { type, size, headerSize } : null;
+}
+
+// A box start we are confident about when resyncing: checked beyond the four type bytes.
+function strongStartAt(w: Uint8Array, left: number): boolean {
+  const h = headerAt(w, left);
+  if (!h || h.size > left) return false;
+  const child = h.headerSize;
+  const dv = new DataView(w.buffer, w.byteOffset, w.byteLength);
+  switch (h.type) {
+    case "moof": return child + 8 <= w.length && dv.getUint32(child, false) === 16 && fourcc(w, child + 4) === "mfhd";
+    case "moov": return child + 8 <= w.length && fourcc(w, child + 4) === "mvhd";
+    case "ftyp":
+    case "styp": return h.size >= 16 && h.size <= 4096 && h.size % 4 === 0;
+    default: return false;
+  }
+}
+
+// Next confident box start in [from, to), or -1. Reads the stream a chunk at a time.
+async function resync(read: Reader, length: number, from: number, to = length, types = ["moof", "moov", "ftyp", "styp"]): Promise<number> {
+  const firsts = new Set(types.map(t => t.charCodeAt(0)));
+  for (let base = from; base < to && base + 8 <= length; base += SCAN_CHUNK) {
+    const chunk = await read(base, Math.min(base + SCAN_CHUNK + WINDOW, length));
+    for (let i = 0; i < SCAN_CHUNK && base + i < to && i + 8 <= chunk.length; i++) {
+      if (firsts.has(chunk[i + 4]) && types.includes(fourcc(chunk, i + 4))
+        && strongStartAt(chunk.subarray(i, i + WINDOW), length - base - i)) return base + i;
+    }
+  }
+  return -1;
+}
+
+interface Found { type: string; start: number; end: number; afterGap: boolean; }
+
+// Splits [start, end) of the joined stream back into per-file ranges.
+function sourcesOf(offsets: number[], start: number, end: number): SliceSource[] {
+  const out: SliceSource[] = [];
+  for (let i = 0; i < offsets.length - 1; i++) {
+    const a = Math.max(start, offsets[i]);
+    const b = Math.min(end, offsets[i + 1]);
+    if (a < b) out.push({ file: i, start: a - offsets[i], end: b - offsets[i] });
+  }
+  return out;
+}
+
+// True when every trun's sample bytes fall after their moof and within the piece. Works on the
+// piece's probe: the moof keeps its offset there, only the mdat payload is cut.
+function samplesInside(probe: ArrayBuffer, size: number, trex: TrexInfo[]): boolean {
+  const moofs = parseBoxTree(probe).boxes.filter(b => b.type === "moof");
+  return moofs.every(m => readMoof(probe, m, trex).trafs.every(t => t.runs.every(r => {
+    const bytes = r.samples.reduce((n, s) => n + s.size, 0);
+    return r.dataStart >= m.end && r.dataStart + bytes <= size;
+  })));
+}
+
+export async function reassembleSlices(files: Blob[]): Promise<ReassemblyResult> {
+  const offsets = [0];
+  for (const f of files) offsets.push(offsets[offsets.length - 1] + f.size);
+  const length = offsets[offsets.length - 1];
+  const read: Reader = async (start, end) => {
+    const parts = sourcesOf(offsets, start, end).map(s => files[s.file].slice(s.start, s.end).arrayBuffer());
+    return concatBytes((await Promise.all(parts)).map(b => new Uint8Array(b)));
+  };
+  const windowAt = (p: number) => read(p, Math.min(p + WINDOW, length));
+
+  const unrecoverable: UnrecoverableRange[] = [];
+  const lose = (start: number, end: number, reason: string) => {
+    if (end > start) unrecoverable.push({ start, end, reason, sources: sourcesOf(offsets, start, end) });
+  };
+
+  // 1. Walk top-level boxes over the joined stream, resyncing where a header doesn't parse.
+  const found: Found[] = [];
+  let afterGap = false;
+  let p = 0;
+  while (p < length) {
+    const h = headerAt(await windowAt(p), length - p);
+    if (h && p + h.size <= length) {
+      // A slice missing inside an mdat makes it swallow the next fragment's header; that shows
+      // as no box where the mdat claims to end, and then the payload is searched for a moof.
+      const end = p + h.size;
+      const lands = h.type !== "mdat" || end === length || headerAt(await windowAt(end), length - end) !== null;
+      const cut = lands ? -1 : await resync(read, length, p + h.headerSize, end, ["moof"]);
+      if (cut !== -1) {
+        lose(p, cut, "mdat is cut short (bytes missing before the next moof)");
+        afterGap = true;
+        p = cut;
+        continue;
+      }
+      found.push({ type: h.type, start: p, end, afterGap });
+      afterGap = false;
+      p = end;
+      continue;
+    }
+    const next = await resync(read, length, p + 1);
+    const end = next === -1 ? length : next;
+    lose(p, end, h ? `${h.type} box is incomplete` : "no box boundary found (slice edge or missing data)");
+    afterGap = true;
+    if (next === -1) break;
+    p = next;
+  }
+
+  // 2. Regroup boxes into init / media pieces.
+  const groups: Found[][] = [];
+  for (const b of found) {
+    const cur = groups[groups.length - 1];
+    const opened = cur?.some(x => x.type === "moov" || x.type === "moof" || x.type === "mdat");
+    const startsNew = !cur || b.afterGap || b.type === "ftyp" || b.type === "mfra"
+      || cur.every(x => PADDING.has(x.type))
+      || ((b.type === "moof" || LEADING.has(b.type)) && opened);
+    if (startsNew) groups.push([b]);
+    else cur.push(b);
+  }
+
+  // 3. Keep pieces that can play; report the rest.
+  const pieces: ReassembledPiece[] = [];
+  let trex: TrexInfo[] = [];
+  for (const g of groups) {
+    const start = g[0].start;
+    const end = g[g.length - 1].end;
+    const types = new Set(g.map(b => b.type));
+
+    if (g.every(b => PADDING.has(b.type))) continue;
+    if (!types.has("moov") && !types.has("moof")) {
+      lose(start, end, types.has("mdat") ? "mdat without its moof" : `stray ${Array.from(types).join("+")} box(es)`);
+      continue;
+    }
+    if (!types.has("moov") && !types.has("mdat")) {
+      lose(start, end, "moof without its mdat");
+      continue;
+    }
+    const probe = await readProbeFrom(end - start, (a, b) => read(start + a, start + b));
+    if (types.has("moov")) {
+      const info = readInitInfo(probe, parseBoxTree(probe).boxes);
+      if (info) trex = info.tracks.flatMap(t => (t.trex ? [t.trex] : []));
+    } else if (!samplesInside(probe, end - start, trex)) {
+      lose(start, end, "sample data lies outside the recovered mdat");
+      continue;
+    }
+    const sources = sourcesOf(offsets, start, end);
+    const parts = sources.map(s => files[s.file].slice(s.start, s.end));
+    pieces.push({ kind: classifyFragment(probe), parts, size: end - start, probe, sources });
+  }
+
+  unrecoverable.sort((a, b) => a.start - b.start);
+  return { pieces, unrecoverable };
+}
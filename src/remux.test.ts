@@ -0,0 +1,80 @@
+import { remuxFragments, remuxGroups } from "./remux";
+import { concatBytes } from "./mp4Write";
+import { parseBoxTree, readInitInfo, readMoof, findBoxPath, findAllBoxes } from "./mp4Boxes";
+import { fixtureInit, fixtureFragment } from "./testFixtures";
+
+function merged(init: ArrayBuffer, media: ArrayBuffer[], opts = {}) {
+  const out = concatBytes(remuxFragments(init, media, opts));
+  const { boxes, issues } = parseBoxTree(out);
+  const trex = readInitInfo(out, boxes)!.tracks.flatMap(t => (t.trex ? [t.trex] : []));
+  const moofs = boxes.filter(b => b.type === "moof").map(m => readMoof(out, m, trex));
+  return { out, boxes, issues, moofs };
+}
+
+test("renumbers mfhd and makes tfdt continuous in the chosen order", () => {
+  const a = fixtureFragment({ seq: 1, dts: 0, durations: [100, 100] });
+  const b = fixtureFragment({ seq: 2, dts: 200, durations: [100, 100, 100] });
+  const c = fixtureFragment({ seq: 3, dts: 500, durations: [100] });
+
+  const { issues, moofs } = merged(fixtureInit(), [c, a, b]);
+
+  expect(issues).toEqual([]);
+  expect(moofs.map(m => m.sequence)).toEqual([1, 2, 3]);
+  expect(moofs.map(m => m.trafs[0].baseDecodeTime)).toEqual([0, 100, 300]);
+});
+
+test("relocates trun data offsets onto the copied mdat payload", () => {
+  const a = fixtureFragment({ seq: 1, dts: 0, durations: [10], payload: 0xaa });
+  const b = fixtureFragment({ seq: 2, dts: 10, durations: [10], payload: 0xbb });
+
+  const { out, moofs } = merged(fixtureInit(), [b, a]);
+
+  const firstBytes = moofs.map(m => out[m.trafs[0].runs[0].dataStart]);
+  expect(firstBytes).toEqual([0xbb, 0xaa]);
+});
+
+test("writes sidx and mfra when asked", () => {
+  const media = [0, 1, 2].map(i => fixtureFragment({ seq: i + 1, dts: i * 50, durations: [50] }));
+  const { boxes } = merged(fixtureInit(), media, { sidx: true, mfra: true });
+
+  expect(boxes.map(b => b.type)).toEqual(["ftyp", "moov", "sidx", "moof", "mdat", "moof", "mdat", "moof", "mdat", "mfra"]);
+  expect(findBoxPath(boxes, ["mfra", "mfro"])).toBeDefined();
+  expect(findAllBoxes(boxes, "tfra")).toHaveLength(1);
+});
+
+test("muxes a separate audio init and its fragments in as an extra, interleaved track", () => {
+  const videoInit = fixtureInit([{ trackId: 1, timescale: 90000 }]);
+  const audioInit = fixtureInit([{ trackId: 1, timescale: 48000, handler: "soun", codec: "mp4a" }]);
+  const v = [0, 1].map(i => fixtureFragment({ seq: i + 1, dts: i * 6000, durations: [3000, 3000] }));
+  const a = [0, 1].map(i => fixtureFragment({ seq: i + 1, dts: i * 3200, durations: [1600, 1600] }));
+
+  const out = concatBytes(remuxGroups([{ init: videoInit, media: v }, { init: audioInit, media: a }]));
+  const { boxes, issues } = parseBoxTree(out);
+  const info = readInitInfo(out, boxes)!;
+
+  expect(issues).toEqual([]);
+  expect(info.tracks.map(t => [t.trackId, t.handler, t.timescale])).toEqual([[1, "vide", 90000], [2, "soun", 48000]]);
+  expect(info.tracks.map(t => t.trex?.trackId)).toEqual([1, 2]);
+  const moofs = boxes.filter(b => b.type === "moof").map(m => readMoof(out, m));
+  // Interleaved by decode time rather than all video first.
+  expect(moofs.map(m => m.trafs[0].tfhd.trackId)).toEqual([1, 2, 1, 2]);
+  expect(moofs.map(m => m.trafs[0].baseDecodeTime)).toEqual([0, 0, 6000, 3200]);
+  expect(moofs.map(m => m.sequence)).toEqual([1, 2, 3, 4]);
+});
+
+test("writes labelled media as Nero chapters at their output start times", () => {
+  const a = fixtureFragment({ seq: 1, dts: 0, durations: [500, 500] });
+  const b = fixtureFragment({ seq: 2, dts: 1000, durations: [500] });
+  const out = concatBytes(remuxGroups([{ init: fixtureInit(), media: [b, a], labels: ["Second", "Früh"] }], { chapters: true }));
+  const { boxes, issues } = parseBoxTree(out);
+  const chpl = findBoxPath(boxes, ["moov", "udta", "chpl"])!;
+
+  expect(issues).toEqual([]);
+  const body = out.subarray(chpl.start + 12);
+  expect(body[4]).toBe(2);
+  const dv = new DataView(body.buffer, body.byteOffset);
+  expect(dv.getUint32(9, false)).toBe(0);
+  expect(Buffer.from(body.subarray(14, 14 + body[13])).toString()).toBe("Second");
+  expect(dv.getUint32(24, false)).toBe(5000000);   // 0.5 s in 100 ns units
+  expect(Buffer.from(body.subarray(29, 29 + body[28])).toString()).toBe("Früh");
+});
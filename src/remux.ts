@@ -0,0 +1,559 @@
+// Rewrites fMP4 media fragments into one continuous fragmented MP4 in the given order (per
+// track; separate tracks are interleaved by decode time): mfhd renumbered from 1, tfdt made
+// monotonic per track, trun/saio offsets relocated, and an optional sidx / mfra index.
+// Fragments from several inits are folded into the first init's moov as extra sample
+// descriptions. Media labels can be written as Nero chapters (moov/udta/chpl), which VLC, mpv
+// and ffmpeg-based tools read.
+
+import {
+  parseBoxTree, readInitInfo, readMoof, readFullBoxHeader, readU64, findBoxPath, childBox, isSyncSample,
+  type Mp4Box, type MoofInfo, type TrafInfo, type InitInfo, type InitTrack, type TrexInfo, type ResolvedSample,
+} from "./mp4Boxes";
+import { box, boxHeader, fullBox, concatBytes, replaceBox, u8, u16, u32, u64, utf8 } from "./mp4Write";
+
+export interface RemuxOptions {
+  sidx?: boolean;   // write a segment index in front of the first moof
+  mfra?: boolean;   // append a movie fragment random access box
+  chapters?: boolean;   // one chapter per labelled media buffer
+}
+
+// Media fragments and the init segment they were encoded against.
+export interface RemuxGroup {
+  init: ArrayBuffer;
+  media: ArrayBuffer[];
+  labels?: string[];    // chapter titles, aligned with `media`
+}
+
+export interface Chapter {
+  title: string;
+  start: number;        // seconds on the output timeline
+}
+
+// How one source track lands in the output init.
+interface TrackMapping {
+  trackId: number;     // output track id
+  sdi: number[];       // source sample_description_index - 1 -> output index
+  scale: number;       // output timescale / source timescale
+  defaults?: TrexInfo; // source trex, written into tfhd when the source isn't the output init
+}
+
+type InitMapping = Map<number, TrackMapping>;
+
+// One moof and the mdat(s) that follow it in its source buffer.
+interface FragGroup {
+  src: Uint8Array;
+  moof: MoofInfo;
+  mdats: Mp4Box[];
+  map: InitMapping;
+  label?: string;
+}
+
+// A byte range of the source copied verbatim to `rel` (relative to the new moof start).
+interface Span {
+  from: number;
+  to: number;
+  rel: number;
+}
+
+// A 32/64-bit field in the new moof whose value is an original absolute position to relocate.
+interface OffsetPatch {
+  at: number;
+  origAbs: number;
+  width: 4 | 8;
+}
+
+interface BuiltGroup {
+  parts: Uint8Array[];
+  size: number;
+  trafs: { trackId: number; dts: number; duration: number; sync: boolean }[];
+}
+
+function collectGroups(ab: ArrayBuffer, info: InitInfo, map: InitMapping, label?: string): FragGroup[] {
+  const src = new Uint8Array(ab);
+  const { boxes } = parseBoxTree(src);
+  const trexes = info.tracks.flatMap(t => (t.trex ? [t.trex] : []));
+  const groups: FragGroup[] = [];
+  let cur: FragGroup | null = null;
+
+  for (const b of boxes) {
+    if (b.type === "moof") {
+      // A moof cut short can't be rewritten reliably; drop it and its data.
+      cur = b.truncated ? null : { src, moof: readMoof(src, b, trexes), mdats: [], map, label };
+      if (cur) groups.push(cur);
+    } else if (b.type === "mdat" && cur) {
+      cur.mdats.push(b);
+    }
+  }
+  return groups;
+}
+
+function firstSampleSync(traf: TrafInfo): boolean {
+  const s = traf.runs[0]?.samples[0];
+  return s ? isSyncSample(s.flags) : true;
+}
+
+function rebuildTfhd(traf: TrafInfo, m: TrackMapping): Uint8Array {
+  const t = traf.tfhd;
+  const d = m.defaults;
+  // Drop the absolute base_data_offset and make offsets relative to the new moof.
+  let flags = (t.flags & ~0x00003b) | 0x020000;
+  const fields: Uint8Array[] = [u32(m.trackId)];
+  const put = (bit: number, v: number | undefined) => {
+    if (v === undefined) return;
+    flags |= bit;
+    fields.push(u32(v));
+  };
+
+  const srcSdi = t.sampleDescriptionIndex ?? d?.defaultSampleDescriptionIndex;
+  put(0x02, srcSdi === undefined ? undefined : m.sdi[srcSdi - 1] ?? srcSdi);
+  const dur = t.defaultSampleDuration ?? d?.defaultSampleDuration;
+  put(0x08, dur === undefined ? undefined : Math.round(dur * m.scale));
+  put(0x10, t.defaultSampleSize ?? d?.defaultSampleSize);
+  put(0x20, t.defaultSampleFlags ?? d?.defaultSampleFlags);
+  return fullBox("tfhd", 0, flags, ...fields);
+}
+
+// trun with the data_offset field always present (value patched once the moof is laid out).
+function rebuildTrun(src: Uint8Array, trunBox: Mp4Box, version: number, flags: number): Uint8Array {
+  const payload = trunBox.start + trunBox.headerSize + 4;   // after version/flags
+  const restStart = payload + 4 + ((flags & 0x000001) ? 4 : 0);
+  const count = src.subarray(payload, payload + 4);
+  return fullBox("trun", version, flags | 0x000001, count, u32(0), src.subarray(restStart, trunBox.end));
+}
+
+// trun rebuilt from resolved samples with durations and composition offsets rescaled.
+function scaledTrun(samples: ResolvedSample[], scale: number): Uint8Array {
+  const rows = samples.map(s => u32(
+    Math.round(s.duration * scale), s.size, s.flags, Math.round(s.compositionTimeOffset * scale),
+  ));
+  return fullBox("trun", 1, 0x000f01, u32(samples.length, 0), ...rows);
+}
+
+function scaledDuration(traf: TrafInfo, scale: number): number {
+  if (scale === 1) return traf.duration;
+  return traf.runs.reduce((n, r) => n + r.samples.reduce((k, s) => k + Math.round(s.duration * scale), 0), 0);
+}
+
+// Positions (relative to the box) of the offset entries in a saio, if any.
+function saioEntries(src: Uint8Array, saio: Mp4Box): { at: number; width: 4 | 8; value: number }[] {
+  const hdr = readFullBoxHeader(src, saio);
+  if (!hdr) return [];
+  const dv = new DataView(src.buffer, src.byteOffset, src.byteLength);
+  let p = saio.start + saio.headerSize + 4 + ((hdr.flags & 1) ? 8 : 0);
+  if (p + 4 > saio.end) return [];
+  const count = dv.getUint32(p, false);
+  p += 4;
+  const width: 4 | 8 = hdr.version === 1 ? 8 : 4;
+  const out: { at: number; width: 4 | 8; value: number }[] = [];
+  for (let i = 0; i < count && p + width <= saio.end; i++, p += width) {
+    out.push({ at: p - saio.start, width, value: width === 8 ? readU64(dv, p) : dv.getUint32(p, false) });
+  }
+  return out;
+}
+
+function buildGroup(g: FragGroup, seq: number, dtsFor: (trackId: number, duration: number) => number): BuiltGroup {
+  const parts: Uint8Array[] = [];
+  const spans: Span[] = [];
+  const patches: OffsetPatch[] = [];
+  const headers: { at: number; end: number }[] = [];   // container headers to size afterwards
+  const trafs: BuiltGroup["trafs"] = [];
+  let size = 0;
+
+  const push = (b: Uint8Array) => { const at = size; parts.push(b); size += b.length; return at; };
+  const copy = (b: Mp4Box) => {
+    const at = push(g.src.subarray(b.start, b.end));
+    spans.push({ from: b.start, to: b.end, rel: at });
+    return at;
+  };
+  const open = (type: string) => headers.push({ at: push(boxHeader(type, 0)), end: 0 }) - 1;
+  const close = (h: number) => { headers[h].end = size; };
+
+  const moofH = open("moof");
+  push(fullBox("mfhd", 0, 0, u32(seq)));
+
+  const trafInfos = new Map(g.moof.trafs.map(t => [t.box, t]));
+  for (const child of g.moof.box.children ?? []) {
+    if (child.type === "mfhd") continue;
+    const traf = child.type === "traf" ? trafInfos.get(child) : undefined;
+    if (!traf) { copy(child); continue; }
+    const m = g.map.get(traf.tfhd.trackId);
+    if (!m) continue;   // track unknown to its init: nothing can play it
+
+    const duration = scaledDuration(traf, m.scale);
+    const dts = dtsFor(m.trackId, duration);
+    trafs.push({ trackId: m.trackId, dts, duration, sync: firstSampleSync(traf) });
+
+    const trafH = open("traf");
+    push(rebuildTfhd(traf, m));
+    push(fullBox("tfdt", 1, 0, u64(dts)));
+
+    for (const c of child.children ?? []) {
+      if (c.type === "tfhd" || c.type === "tfdt") continue;
+      if (c.type === "trun") {
+        const run = traf.runs.find(r => r.box === c);
+        if (!run) { copy(c); continue; }
+        const at = push(m.scale === 1
+          ? rebuildTrun(g.src, c, run.info.version, run.info.flags)
+          : scaledTrun(run.samples, m.scale));
+        patches.push({ at: at + 16, origAbs: run.dataStart, width: 4 });
+      } else if (c.type === "saio") {
+        const at = copy(c);
+        for (const e of saioEntries(g.src, c)) {
+          patches.push({ at: at + e.at, origAbs: traf.baseDataOffset + e.value, width: e.width });
+        }
+      } else {
+        copy(c);
+      }
+    }
+    close(trafH);
+  }
+  close(moofH);
+  const moofParts = parts.length;
+
+  for (const m of g.mdats) {
+    const payloadStart = m.start + m.headerSize;
+    // A truncated mdat gets a header matching the bytes we actually have.
+    push(m.truncated ? boxHeader("mdat", m.end - payloadStart) : g.src.subarray(m.start, payloadStart));
+    const at = push(g.src.subarray(payloadStart, m.end));
+    spans.push({ from: payloadStart, to: m.end, rel: at });
+  }
+
+  // Lay out the moof and resolve sizes and relocated offsets.
+  const moofBytes = concatBytes(parts.slice(0, moofParts));
+  const dv = new DataView(moofBytes.buffer);
+  for (const h of headers) dv.setUint32(h.at, h.end - h.at, false);
+
+  const relocate = (abs: number) => {
+    const s = spans.find(sp => abs >= sp.from && abs <= sp.to);
+    return s ? s.rel + (abs - s.from) : undefined;
+  };
+  for (const p of patches) {
+    const rel = relocate(p.origAbs);
+    if (rel === undefined) continue;
+    if (p.width === 4) dv.setUint32(p.at, rel, false);
+    else moofBytes.set(u64(rel), p.at);
+  }
+
+  return { parts: [moofBytes, ...parts.slice(moofParts)], size, trafs };
+}
+
+// Output order: by start on the output timeline, so demuxed audio and video fragments alternate
+// instead of all video coming first. Starts are worked out the way buildGroup hands out decode
+// times; a fragment never moves ahead of an earlier one sharing a track with it.
+function interleave(frags: FragGroup[], firstDts: Map<number, number>, timescale: Map<number, number>): FragGroup[] {
+  const next = new Map(firstDts);
+  const last = new Map<number, number>();   // latest key per output track
+  let prev = 0;
+  const keyed = frags.map((g, i) => {
+    const ids: number[] = [];
+    let start = Infinity;
+    for (const t of g.moof.trafs) {
+      const m = g.map.get(t.tfhd.trackId);
+      if (!m) continue;
+      const dts = next.get(m.trackId) ?? 0;
+      start = Math.min(start, dts / (timescale.get(m.trackId) ?? 1));
+      next.set(m.trackId, dts + scaledDuration(t, m.scale));
+      ids.push(m.trackId);
+    }
+    // Fragments with no playable track stay next to the one before them.
+    const key = Math.max(start === Infinity ? prev : start, ...ids.map(id => last.get(id) ?? -Infinity));
+    ids.forEach(id => last.set(id, key));
+    prev = key;
+    return { g, i, key };
+  });
+  return keyed.sort((a, b) => a.key - b.key || a.i - b.i).map(k => k.g);
+}
+
+// Updates mvex/mehd fragment_duration in a copy of the init's moov, if it fits.
+function patchMehd(init: Uint8Array, boxes: Mp4Box[], duration: number) {
+  const mehd = findBoxPath(boxes, ["moov", "mvex", "mehd"]);
+  const hdr = mehd && readFullBoxHeader(init, mehd);
+  if (!mehd || !hdr) return;
+  const p = mehd.start + mehd.headerSize + 4;
+  if (hdr.version === 1 && p + 8 <= mehd.end) init.set(u64(Math.round(duration)), p);
+  else if (hdr.version === 0 && p + 4 <= mehd.end && duration <= 0xffffffff) {
+    new DataView(init.buffer, init.byteOffset).setUint32(p, Math.round(duration), false);
+  }
+}
+
+function buildSidx(built: BuiltGroup[], trackId: number, timescale: number): Uint8Array | null {
+  const refs: { size: number; duration: number; sync: boolean }[] = [];
+  let ept: number | undefined;
+  let carry = 0;   // bytes of fragments without the reference track, folded into a neighbour
+
+  for (const b of built) {
+    const t = b.trafs.find(x => x.trackId === trackId);
+    if (!t) {
+      if (refs.length) refs[refs.length - 1].size += b.size;
+      else carry += b.size;
+      continue;
+    }
+    if (ept === undefined) ept = t.dts;
+    refs.push({ size: b.size + carry, duration: t.duration, sync: t.sync });
+    carry = 0;
+  }
+  if (!refs.length || ept === undefined || refs.length > 0xffff) return null;
+
+  return fullBox("sidx", 1, 0,
+    u32(trackId), u32(timescale), u64(ept), u64(0), u16(0, refs.length),
+    ...refs.map(r => concatBytes([
+      u32(r.size & 0x7fffffff),
+      u32(r.duration),
+      u32(r.sync ? 0x90000000 : 0),   // starts_with_SAP=1, SAP_type=1
+    ])),
+  );
+}
+
+function buildMfra(built: BuiltGroup[], moofOffsets: number[], trackIds: number[]): Uint8Array {
+  const tfras = trackIds.map(id => {
+    const entries: Uint8Array[] = [];
+    built.forEach((b, i) => {
+      const t = b.trafs.find(x => x.trackId === id);
+      if (t && t.sync) entries.push(concatBytes([u64(t.dts), u64(moofOffsets[i]), u8(1, 1, 1)]));
+    });
+    // length_size_of_traf_num / trun_num / sample_num = 0 (1 byte each)
+    return fullBox("tfra", 1, 0, u32(id), u32(0), u32(entries.length), ...entries);
+  });
+  const mfraSize = 8 + tfras.reduce((n, t) => n + t.length, 0) + 16;
+  return box("mfra", ...tfras, fullBox("mfro", 0, 0, u32(mfraSize)));
+}
+
+// Nero chapter list: version 1, a reserved word, an 8-bit count, then
+// (start in 100 ns units, 8-bit length, UTF-8 title) per chapter.
+function buildChpl(chapters: Chapter[]): Uint8Array {
+  const rows = chapters.slice(0, 255).map(c => {
+    const title = utf8(c.title).subarray(0, 255);
+    return concatBytes([u64(Math.round(c.start * 1e7)), u8(title.length), title]);
+  });
+  return fullBox("chpl", 1, 0, u32(0), u8(rows.length), ...rows);
+}
+
+// Puts a chpl into moov/udta, replacing one that is already there.
+function addChapters(header: Uint8Array, chapters: Chapter[]): Uint8Array {
+  const tree = parseBoxTree(header).boxes;
+  const moov = tree.find(b => b.type === "moov");
+  if (!moov || !chapters.length) return header;
+  const chpl = buildChpl(chapters);
+  const udta = childBox(moov, "udta");
+  const old = childBox(udta, "chpl");
+  if (old) return replaceBox(header, tree, old, chpl);
+  if (udta) return replaceBox(header, tree, udta, box("udta", header.subarray(udta.start + udta.headerSize, udta.end), chpl));
+  return replaceBox(header, tree, moov, box("moov", header.subarray(moov.start + moov.headerSize, moov.end), box("udta", chpl)));
+}
+
+// Chapter per labelled source buffer, at the earliest output time of its fragments.
+function chaptersOf(frags: FragGroup[], built: BuiltGroup[], timescale: Map<number, number>): Chapter[] {
+  const bySource = new Map<Uint8Array, Chapter>();
+  frags.forEach((g, i) => {
+    if (!g.label) return;
+    const times = built[i].trafs.map(t => t.dts / (timescale.get(t.trackId) ?? 1));
+    if (!times.length) return;
+    const start = Math.min(...times);
+    const c = bySource.get(g.src);
+    if (c) c.start = Math.min(c.start, start);
+    else bySource.set(g.src, { title: g.label, start });
+  });
+  // Demuxed audio and video fragments of the same slice share a title: keep the first.
+  const sorted = Array.from(bySource.values()).sort((a, b) => a.start - b.start);
+  return sorted.filter((c, i) => i === 0 || c.title !== sorted[i - 1].title);
+}
+
+function sameBytes(a: Uint8Array, b: Uint8Array): boolean {
+  if (a.length !== b.length) return false;
+  for (let i = 0; i < a.length; i++) if (a[i] !== b[i]) return false;
+  return true;
+}
+
+// A track of the output moov and the sample descriptions it collects from every init.
+interface OutTrack {
+  trackId: number;
+  handler: string;
+  timescale: number;
+  entries: Uint8Array[];
+  ownEntries: number;         // entries already present in its trak
+  added?: { trak: Uint8Array; trex?: Uint8Array };   // carried over from a later init
+}
+
+// Copies a trak (and its trex) under a new track id.
+function renumberTrack(src: Uint8Array, t: InitTrack, trackId: number): { trak: Uint8Array; trex?: Uint8Array } {
+  const trak = src.slice(t.trak.start, t.trak.end);
+  const tkhd = parseBoxTree(trak).boxes[0]?.children?.find(b => b.type === "tkhd");
+  const hdr = tkhd && readFullBoxHeader(trak, tkhd);
+  if (tkhd && hdr) {
+    new DataView(trak.buffer).setUint32(tkhd.start + tkhd.headerSize + 4 + (hdr.version === 1 ? 16 : 8), trackId, false);
+  }
+  const trex = t.trex && fullBox("trex", 0, 0, u32(
+    trackId, t.trex.defaultSampleDescriptionIndex, t.trex.defaultSampleDuration,
+    t.trex.defaultSampleSize, t.trex.defaultSampleFlags,
+  ));
+  return { trak, trex };
+}
+
+// Adds carried-over traks in front of mvex, their trex boxes into mvex, and bumps next_track_ID.
+function insertTracks(header: Uint8Array, added: { trak: Uint8Array; trex?: Uint8Array }[], nextTrackId: number): Uint8Array {
+  const tree = parseBoxTree(header).boxes;
+  const mvex = findBoxPath(tree, ["moov", "mvex"]);
+  if (!mvex) throw new Error("Init segment has no mvex box");
+  const mvexChildren = (mvex.children ?? []).map(c => header.subarray(c.start, c.end));
+  const trexes = added.flatMap(a => (a.trex ? [a.trex] : []));
+  const out = replaceBox(header, tree, mvex, concatBytes([...added.map(a => a.trak), box("mvex", ...mvexChildren, ...trexes)]));
+
+  const mvhd = findBoxPath(parseBoxTree(out).boxes, ["moov", "mvhd"]);
+  const hdr = mvhd && readFullBoxHeader(out, mvhd);
+  if (mvhd && hdr) {
+    const at = mvhd.start + mvhd.headerSize + 4 + (hdr.version === 1 ? 104 : 92);
+    if (at + 4 <= mvhd.end) new DataView(out.buffer).setUint32(at, nextTrackId, false);
+  }
+  return out;
+}
+
+// Maps every init's tracks onto the first init's tracks (same id and handler, else same handler)
+// and collects sample descriptions the first init doesn't already have. Tracks with no
+// counterpart (e.g. a separate audio init next to a video init) are added as new tracks.
+function mergeInits(inits: ArrayBuffer[]) {
+  const base = inits[0];
+  const baseSrc = new Uint8Array(base);
+  const baseTree = parseBoxTree(baseSrc);
+  const baseInfo = readInitInfo(baseSrc, baseTree.boxes);
+  if (!baseInfo) throw new Error("Init segment has no moov box");
+
+  const out: OutTrack[] = baseInfo.tracks.map(t => ({
+    trackId: t.trackId,
+    handler: t.handler,
+    timescale: t.timescale || 1,
+    entries: t.sampleEntries.map(e => baseSrc.subarray(e.start, e.end)),
+    ownEntries: t.sampleEntries.length,
+  }));
+  const sources = new Map<ArrayBuffer, { info: InitInfo; map: InitMapping }>();
+
+  for (const ab of inits) {
+    if (sources.has(ab)) continue;
+    const src = new Uint8Array(ab);
+    const info = ab === base ? baseInfo : readInitInfo(src, parseBoxTree(src).boxes);
+    if (!info) throw new Error("Init segment has no moov box");
+
+    const map: InitMapping = new Map();
+    const used = new Set<number>();
+    for (const t of info.tracks) {
+      const free = out.filter(o => o.handler === t.handler && !used.has(o.trackId));
+      let target = free.find(o => o.trackId === t.trackId) ?? free[0];
+      if (!target) {
+        const trackId = Math.max(0, ...out.map(o => o.trackId)) + 1;
+        target = {
+          trackId,
+          handler: t.handler,
+          timescale: t.timescale || 1,
+          entries: t.sampleEntries.map(e => src.subarray(e.start, e.end)),
+          ownEntries: t.sampleEntries.length,
+          added: renumberTrack(src, t, trackId),
+        };
+        out.push(target);
+      }
+      used.add(target.trackId);
+
+      const list = target.entries;
+      const sdi = t.sampleEntries.map(e => {
+        const bytes = src.subarray(e.start, e.end);
+        const idx = list.findIndex(x => sameBytes(x, bytes));
+        return (idx < 0 ? list.push(bytes) - 1 : idx) + 1;
+      });
+      map.set(t.trackId, {
+        trackId: target.trackId,
+        sdi,
+        scale: target.timescale / (t.timescale || 1),
+        defaults: ab === base ? undefined : t.trex,
+      });
+    }
+    sources.set(ab, { info, map });
+  }
+
+  // Output header: ftyp + moov, plus carried-over tracks, with every stsd that gained entries rebuilt.
+  let header = concatBytes(baseTree.boxes
+    .filter(b => b.type === "ftyp" || b.type === "moov")
+    .map(b => baseSrc.subarray(b.start, b.end)));
+  const added = out.flatMap(o => (o.added ? [o.added] : []));
+  if (added.length) header = insertTracks(header, added, Math.max(...out.map(o => o.trackId)) + 1);
+
+  for (const o of out) {
+    if (o.entries.length === o.ownEntries) continue;
+    const tree = parseBoxTree(header).boxes;
+    const stsd = readInitInfo(header, tree)?.tracks.find(x => x.trackId === o.trackId)?.stsd;
+    const hdr = stsd && readFullBoxHeader(header, stsd);
+    if (!stsd || !hdr) continue;
+    header = replaceBox(header, tree, stsd, fullBox("stsd", hdr.version, hdr.flags, u32(o.entries.length), ...o.entries));
+  }
+
+  const info = readInitInfo(header, parseBoxTree(header).boxes) ?? baseInfo;
+  return { header, info, sources };
+}
+
+// Produces the output file as a list of byte chunks (large mdat payloads are views, not copies).
+// Groups are played back to back; the first group's init becomes the output moov.
+export function remuxGroups(groups: RemuxGroup[], opts: RemuxOptions = {}): Uint8Array[] {
+  if (!groups.length) throw new Error("Nothing to merge");
+  const { header, info, sources } = mergeInits(groups.map(g => g.init));
+  const timescale = new Map(info.tracks.map(t => [t.trackId, t.timescale || 1]));
+
+  // An init buffer may itself carry fragments (e.g. the head of a byte-sliced file); take those once.
+  const seenInits = new Set<ArrayBuffer>();
+  const frags = groups.flatMap(g => {
+    const { info: srcInfo, map } = sources.get(g.init)!;
+    const fromInit = seenInits.has(g.init) ? [] : collectGroups(g.init, srcInfo, map);
+    seenInits.add(g.init);
+    return [...fromInit, ...g.media.flatMap((ab, i) => collectGroups(ab, srcInfo, map, g.labels?.[i]))];
+  });
+
+  // Start every track relative to the earliest first decode time across tracks (keeps A/V offset).
+  const firstDts = new Map<number, number>();
+  for (const g of frags) {
+    for (const t of g.moof.trafs) {
+      const m = g.map.get(t.tfhd.trackId);
+      if (m && !firstDts.has(m.trackId)) firstDts.set(m.trackId, Math.round((t.baseDecodeTime ?? 0) * m.scale));
+    }
+  }
+  let startSec = Infinity;
+  firstDts.forEach((dts, id) => { startSec = Math.min(startSec, dts / (timescale.get(id) ?? 1)); });
+  const nextDts = new Map<number, number>();
+  firstDts.forEach((dts, id) => {
+    nextDts.set(id, Math.max(0, Math.round(dts - startSec * (timescale.get(id) ?? 1))));
+  });
+  const startDts = new Map(nextDts);
+
+  const dtsFor = (trackId: number, duration: number) => {
+    const dts = nextDts.get(trackId) ?? 0;
+    nextDts.set(trackId, dts + duration);
+    return dts;
+  };
+  const ordered = interleave(frags, nextDts, timescale);
+  const built = ordered.map((g, i) => buildGroup(g, i + 1, dtsFor));
+
+  let totalSec = 0;
+  nextDts.forEach((end, id) => { totalSec = Math.max(totalSec, (end - (startDts.get(id) ?? 0)) / (timescale.get(id) ?? 1)); });
+  const head = opts.chapters ? addChapters(header, chaptersOf(ordered, built, timescale)) : header;
+  patchMehd(head, parseBoxTree(head).boxes, totalSec * info.movieTimescale);
+
+  const out: Uint8Array[] = [head];
+  let pos = head.length;
+
+  if (opts.sidx) {
+    const ref = info.tracks.find(t => t.handler === "vide" && firstDts.has(t.trackId))
+      ?? info.tracks.find(t => firstDts.has(t.trackId));
+    const sidx = ref ? buildSidx(built, ref.trackId, ref.timescale || 1) : null;
+    if (sidx) { out.push(sidx); pos += sidx.length; }
+  }
+
+  const moofOffsets: number[] = [];
+  for (const b of built) {
+    moofOffsets.push(pos);
+    out.push(...b.parts);
+    pos += b.size;
+  }
+
+  if (opts.mfra) out.push(buildMfra(built, moofOffsets, Array.from(firstDts.keys())));
+
+  return out;
+}
+
+export function remuxFragments(init: ArrayBuffer, media: ArrayBuffer[], opts: RemuxOptions = {}): Uint8Array[] {
+  return remuxGroups([{ init, media }], opts);
+}
@@ -0,0 +1,172 @@
+import { SafeMSE, type RecoveryEvent } from "./mergeMP4";
+import { MemorySink, type AppendFault } from "./memorySink";
+import { fixtureInit, fixtureFragment, fixtureStream } from "./testFixtures";
+
+// Minimal MediaSource / SourceBuffer stand-ins: buffered ranges follow timestampOffset and
+// the fragment length; an optional byte capacity triggers QuotaExceededError.
+const seconds = new Map<ArrayBuffer, number>();
+
+class FakeSourceBuffer extends EventTarget {
+  mode = "segments";
+  updating = false;
+  timestampOffset = 0;
+  ranges: { start: number; end: number; bytes: number }[] = [];
+  appended: { offset: number; bytes: number }[] = [];
+  constructor(private capacity: number) { super(); }
+
+  get buffered() {
+    const r = [...this.ranges].sort((a, b) => a.start - b.start);
+    return { length: r.length, start: (i: number) => r[i].start, end: (i: number) => r[i].end };
+  }
+  appendBuffer(buf: ArrayBuffer) {
+    const used = this.ranges.reduce((n, r) => n + r.bytes, 0);
+    const len = seconds.get(buf);
+    if (len && used + buf.byteLength > this.capacity) throw new DOMException("full", "QuotaExceededError");
+    this.appended.push({ offset: this.timestampOffset, bytes: buf.byteLength });
+    if (len) this.ranges.push({ start: this.timestampOffset, end: this.timestampOffset + len, bytes: buf.byteLength });
+    this.finish();
+  }
+  remove(from: number, to: number) {
+    this.ranges = this.ranges.filter(r => r.end <= from || r.start >= to);
+    this.finish();
+  }
+  changeType() {}
+  abort() {}
+  private finish() {
+    this.updating = true;
+    setTimeout(() => { this.updating = false; this.dispatchEvent(new Event("updateend")); });
+  }
+}
+
+let sourceBuffer: FakeSourceBuffer;
+let capacity = Infinity;
+
+class FakeMediaSource extends EventTarget {
+  readyState = "closed";
+  duration = NaN;
+  addSourceBuffer() {
+    sourceBuffer = new FakeSourceBuffer(capacity);
+    return sourceBuffer;
+  }
+  endOfStream() { this.readyState = "ended"; }
+}
+
+class FakeVideo extends EventTarget {
+  currentTime = 0;
+  private _src = "";
+  get src() { return this._src; }
+  set src(v: string) {
+    this._src = v;
+    if (v) setTimeout(() => { ms.readyState = "open"; ms.dispatchEvent(new Event("sourceopen")); });
+  }
+}
+
+let ms: FakeMediaSource;
+beforeAll(() => {
+  (window as any).MediaSource = function () { ms = new FakeMediaSource(); return ms; };
+  URL.createObjectURL = () => "blob:fake";
+  URL.revokeObjectURL = () => {};
+});
+
+const settle = async () => { for (let i = 0; i < 100; i++) await new Promise(r => setTimeout(r)); };
+
+async function start(count: number) {
+  const video = new FakeVideo();
+  const info: string[] = [];
+  const warn: string[] = [];
+  const mse = new SafeMSE(video as unknown as HTMLVideoElement, m => warn.push(m), m => info.push(m));
+  await mse.open("video/mp4");
+  const init = fixtureInit();
+  const media = Array.from({ length: count }, (_, i) => fixtureFragment({ seq: i + 1, dts: i * 10000, durations: [10000] }));
+  media.forEach(m => seconds.set(m, 10));
+  mse.enqueueGroups([{ init, mime: "video/mp4", media, labels: media.map((_, i) => `f${i}`), keys: media.map((_, i) => `id${i}`) }]);
+  await settle();
+  const at = async (t: number, event = "timeupdate") => { video.currentTime = t; video.dispatchEvent(new Event(event)); await settle(); };
+  return { mse, at, info, warn };
+}
+
+const states = (mse: SafeMSE) => mse.getTimeIndex().map(e => e.state[0]).join("");
+
+test("buffers a window around currentTime, evicts played fragments and re-appends on seek back", async () => {
+  capacity = Infinity;
+  const { mse, at, warn } = await start(20);
+  expect(states(mse)).toBe("bbbbbbbbbb");            // starts 0..90 s fit the 90 s look-ahead
+
+  await at(75);
+  expect(states(mse)).toBe("eeeebbbbbbbbbbbbb");     // ends <= 45 s evicted, more appended up to 160 s
+  expect(mse.getLabelForTime(75)).toBe("f7");
+  expect(mse.getEntryForTime(75)).toMatchObject({ key: "id7", start: 70, end: 80 });
+
+  await at(5, "seeking");
+  expect(states(mse).slice(0, 2)).toBe("bb");
+  expect(sourceBuffer.appended.filter(a => a.offset === 0)).toHaveLength(3);   // init + first append + re-append
+  expect(warn).toEqual([]);
+});
+
+test("waits on QuotaExceededError instead of dropping fragments", async () => {
+  capacity = fixtureFragment({ seq: 1, dts: 0, durations: [10000] }).byteLength * 3 + 1;
+  const { mse, at, info, warn } = await start(6);
+  expect(states(mse)).toBe("bbb");
+  expect(info.some(m => /full/.test(m))).toBe(true);
+
+  await at(25);
+  expect(states(mse)).toBe("eebbb");
+  expect(warn).toEqual([]);
+});
+
+test("rebuilds after a SourceBuffer error, retries throws and stalls, and reports every fragment", async () => {
+  const { init, media } = fixtureStream(6);
+  const faults = new Map<ArrayBuffer, AppendFault[]>([[media[1], ["error"]], [media[2], ["throw"]], [media[3], ["stall"]]]);
+  const sink = new MemorySink({ fail: a => faults.get(a.buf)?.shift(), stallMs: 40 });
+  const events: RecoveryEvent[] = [];
+  const mse = new SafeMSE(sink, () => {}, () => {}, { appendTimeoutMs: 10, onEvent: e => events.push(e) });
+  await mse.open("video/mp4");
+  mse.enqueueGroups([{ init, mime: "video/mp4", media, labels: media.map((_, i) => `f${i + 1}`) }]);
+  await new Promise(r => setTimeout(r, 60));
+  await settle();
+
+  expect(events.map(e => [e.index, e.reason, e.action, e.attempt])).toEqual([
+    [1, "error", "rebuild-and-skip", 1], [2, "threw", "retry", 1], [3, "stalled", "rebuild-and-retry", 1],
+  ]);
+  expect(sink.rebuilds).toBe(2);
+  // Each rebuild re-appends the init (and the fragment under the playhead) before carrying on.
+  expect(sink.appends.filter(a => a.kind === "init")).toHaveLength(3);
+  const report = mse.getReport();
+  expect(report.fragments.map(f => f.outcome)).toEqual(["played", "skipped", "recovered", "recovered", "played", "played"]);
+  expect(report.rebuilds).toBe(2);
+  expect(mse.getTimeIndex().map(e => [e.label, e.start])).toEqual([["f1", 0], ["f2", 2], ["f3", 2], ["f4", 4], ["f5", 6], ["f6", 8]]);
+  mse.destroy();
+});
+
+test("takes fragments into a live session at the end or ahead of the playhead, and ends only when finalized", async () => {
+  const { init, media } = fixtureStream(5);
+  const sink = new MemorySink();
+  const mse = new SafeMSE(sink, () => {}, () => {});
+  await mse.open("video/mp4");
+  const group = (from: number, to: number) => ({
+    init, mime: "video/mp4", media: media.slice(from, to),
+    labels: media.slice(from, to).map((_, i) => `f${from + i + 1}`), keys: media.slice(from, to).map((_, i) => `k${from + i + 1}`),
+  });
+  const placed = () => mse.getTimeIndex().map(e => `${e.label}@${e.start}`).join(" ");
+
+  mse.enqueueGroups([group(0, 2)], { live: true });
+  await settle();
+  mse.addGroups([group(3, 4)]);
+  await settle();
+  expect(placed()).toBe("f1@0 f2@2 f4@4");
+  expect(sink.ended).toBe(false);
+
+  // f3 goes in front of f4, which is moved back; in front of f1 it would displace what is playing.
+  sink.seek(3);
+  mse.addGroups([group(2, 3)], "k4");
+  mse.addGroups([group(4, 5)], "k1");
+  await settle();
+  expect(placed()).toBe("f1@0 f2@2 f5@4 f3@6 f4@8");
+  expect(sink.buffers[0].buffered.end(0)).toBe(10);
+  expect(sink.ended).toBe(false);
+
+  mse.finalize();
+  expect(sink.ended).toBe(true);
+  expect(mse.getReport().fragments.map(f => f.label)).toEqual(["f1", "f2", "f4", "f3", "f5"]);
+  mse.destroy();
+});
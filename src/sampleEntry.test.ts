@@ -0,0 +1,36 @@
+import { describeSampleEntry } from "./sampleEntry";
+import { parseBoxTree, readInitInfo } from "./mp4Boxes";
+import { box, fullBox, u8, u16, u32 } from "./mp4Write";
+import { fixtureInit } from "./testFixtures";
+
+function entryOf(bytes: Uint8Array) {
+  const { boxes } = parseBoxTree(bytes);
+  return describeSampleEntry(bytes, boxes[0]);
+}
+
+test("derives RFC 6381 codec strings and picture size", () => {
+  const visual = new Uint8Array(78);
+  visual.set(u16(1920, 1080), 24);
+  const avc = entryOf(box("avc1", visual, box("avcC", u8(1, 0x64, 0x00, 0x28, 0xff))));
+  expect(avc).toMatchObject({ codec: "avc1.640028", width: 1920, height: 1080, encrypted: false, config: "01640028ff" });
+
+  // Main profile, compatible with profiles 1 and 2 (0x60000000 reversed = 0x6), level 93, one constraint byte
+  const hvcC = u8(1, 0x01, 0x60, 0, 0, 0, 0x90, 0, 0, 0, 0, 0, 93, 0xf0);
+  expect(entryOf(box("hvc1", new Uint8Array(78), box("hvcC", hvcC))).codec).toBe("hvc1.1.6.L93.90");
+
+  const audio = new Uint8Array(28);
+  audio.set(u16(2), 16);
+  audio.set(u32(48000 * 65536), 24);
+  const esds = fullBox("esds", 0, 0,
+    u8(0x03, 25, 0, 1, 0),
+    u8(0x04, 17, 0x40, 0x15, 0, 0, 0, 0, 0, 0, 0, 0, 0, 0, 0),
+    u8(0x05, 2, 0x11, 0x90));
+  expect(entryOf(box("mp4a", audio, esds))).toMatchObject({ codec: "mp4a.40.2", channels: 2, sampleRate: 48000 });
+});
+
+test("reads the original format and scheme of protected entries", () => {
+  const kid = "0123456789abcdef0123456789abcdef";
+  const init = fixtureInit([{ trackId: 1, timescale: 1000, scheme: "cbcs", kid }]);
+  const track = readInitInfo(init, parseBoxTree(init).boxes)!.tracks[0];
+  expect(describeSampleEntry(init, track.sampleEntries[0])).toMatchObject({ format: "encv", originalFormat: "avc1", encrypted: true, scheme: "cbcs", kid });
+});
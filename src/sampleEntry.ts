@@ -0,0 +1,131 @@
+// Reads what a stsd sample entry describes: RFC 6381 codec string, decoder configuration,
+// picture size / audio format and protection scheme (encv/enca).
+
+import { childBox, type Mp4Box } from "./mp4Boxes";
+
+export interface SampleEntryInfo {
+  format: string;          // sample entry type as stored (e.g. "encv")
+  originalFormat: string;  // frma for protected entries, else `format`
+  codec: string;           // e.g. "avc1.64001f", "mp4a.40.2"
+  config?: string;         // decoder configuration record (avcC/hvcC/...) as hex
+  width?: number;
+  height?: number;
+  channels?: number;
+  sampleRate?: number;
+  encrypted: boolean;
+  scheme?: string;         // schm scheme_type, e.g. "cenc" / "cbcs"
+  kid?: string;            // tenc default_KID as 32 hex digits
+}
+
+const VISUAL = new Set(["avc1", "avc3", "hvc1", "hev1", "dvh1", "dvhe", "vp08", "vp09", "av01", "encv"]);
+const AUDIO = new Set(["mp4a", "enca", "ac-3", "ec-3", "Opus", "fLaC"]);
+
+const hex2 = (n: number) => n.toString(16).padStart(2, "0");
+
+function payloadOf(u8: Uint8Array, b: Mp4Box): Uint8Array {
+  return u8.subarray(b.start + b.headerSize, b.end);
+}
+
+function fourCC(u8: Uint8Array, off: number): string {
+  return String.fromCharCode(u8[off], u8[off + 1], u8[off + 2], u8[off + 3]);
+}
+
+function avcCodec(format: string, c: Uint8Array): string {
+  return c.length >= 4 ? `${format}.${hex2(c[1])}${hex2(c[2])}${hex2(c[3])}` : format;
+}
+
+// ISO/IEC 14496-15 Annex E: hvc1.[space]profile.compat(reversed).tierLevel[.constraints]
+function hevcCodec(format: string, c: Uint8Array): string {
+  if (c.length < 13) return format;
+  const space = ["", "A", "B", "C"][c[1] >> 6];
+  const tier = c[1] & 0x20 ? "H" : "L";
+  const compat = new DataView(c.buffer, c.byteOffset + 2, 4).getUint32(0, false);
+  let reversed = 0;
+  for (let i = 0; i < 32; i++) if (compat & (1 << i)) reversed |= 1 << (31 - i);
+  const constraints = Array.from(c.subarray(6, 12));
+  while (constraints.length && constraints[constraints.length - 1] === 0) constraints.pop();
+  return [`${format}.${space}${c[1] & 0x1f}`, (reversed >>> 0).toString(16), `${tier}${c[12]}`, ...constraints.map(b => b.toString(16))].join(".");
+}
+
+// vpcC is a full box: version/flags, profile, level, bitDepth(4) ...
+function vpCodec(format: string, c: Uint8Array): string {
+  if (c.length < 7) return format;
+  const pad = (n: number) => String(n).padStart(2, "0");
+  return `${format}.${pad(c[4])}.${pad(c[5])}.${pad(c[6] >> 4)}`;
+}
+
+// av1C: marker/version, seq_profile(3) seq_level_idx_0(5), seq_tier_0(1) high_bitdepth(1) twelve_bit(1) ...
+function av1Codec(format: string, c: Uint8Array): string {
+  if (c.length < 3) return format;
+  const depth = c[2] & 0x40 ? (c[2] & 0x20 ? 12 : 10) : 8;
+  return `${format}.${c[1] >> 5}.${String(c[1] & 0x1f).padStart(2, "0")}${c[2] & 0x80 ? "H" : "M"}.${String(depth).padStart(2, "0")}`;
+}
+
+// esds: ES_Descriptor > DecoderConfigDescriptor (objectTypeIndication) > DecoderSpecificInfo (AOT).
+function mp4aCodec(c: Uint8Array): string {
+  let p = 4;   // version/flags
+  const tag = () => c[p++];
+  const len = () => { let n = 0; for (let i = 0; i < 4; i++) { const b = c[p++]; n = (n << 7) | (b & 0x7f); if (!(b & 0x80)) break; } return n; };
+  if (tag() !== 0x03) return "mp4a";
+  len();
+  p += 2;
+  const flags = c[p++];
+  if (flags & 0x80) p += 2;
+  if (flags & 0x40) p += 1 + c[p];
+  if (flags & 0x20) p += 2;
+  if (tag() !== 0x04) return "mp4a";
+  len();
+  const oti = c[p];
+  p += 13;
+  if (oti !== 0x40 || p >= c.length || tag() !== 0x05) return `mp4a.${hex2(oti)}`;
+  len();
+  let aot = c[p] >> 3;
+  if (aot === 31 && p + 1 < c.length) aot = 32 + (((c[p] & 7) << 3) | (c[p + 1] >> 5));
+  return `mp4a.40.${aot}`;
+}
+
+export function describeSampleEntry(data: ArrayBuffer | Uint8Array, entry: Mp4Box): SampleEntryInfo {
+  const u8 = data instanceof Uint8Array ? data : new Uint8Array(data);
+  const dv = new DataView(u8.buffer, u8.byteOffset, u8.byteLength);
+  const body = entry.start + entry.headerSize;
+  const info: SampleEntryInfo = { format: entry.type, originalFormat: entry.type, codec: entry.type, encrypted: false };
+
+  const sinf = childBox(entry, "sinf");
+  if (sinf) {
+    const frma = childBox(sinf, "frma");
+    const schm = childBox(sinf, "schm");
+    info.encrypted = true;
+    if (frma && frma.end - frma.start >= 12) info.originalFormat = fourCC(u8, frma.start + frma.headerSize);
+    if (schm && schm.end - schm.start >= 16) info.scheme = fourCC(u8, schm.start + schm.headerSize + 4);
+    // tenc: version/flags, reserved, crypt/skip byte, isProtected, Per_Sample_IV_Size, default_KID(16)
+    const tenc = childBox(childBox(sinf, "schi"), "tenc");
+    if (tenc && tenc.start + tenc.headerSize + 24 <= tenc.end) {
+      info.kid = Array.from(u8.subarray(tenc.start + tenc.headerSize + 8, tenc.start + tenc.headerSize + 24), hex2).join("");
+    }
+  }
+  const format = info.originalFormat;
+
+  if (VISUAL.has(entry.type) && body + 28 <= entry.end) {
+    info.width = dv.getUint16(body + 24, false);
+    info.height = dv.getUint16(body + 26, false);
+  } else if (AUDIO.has(entry.type) && body + 28 <= entry.end) {
+    info.channels = dv.getUint16(body + 16, false);
+    info.sampleRate = dv.getUint32(body + 24, false) >>> 16;
+  }
+
+  const configBox = ["avcC", "hvcC", "vpcC", "av1C", "esds", "dOps", "dfLa", "dac3", "dec3"]
+    .map(t => childBox(entry, t))
+    .find((b): b is Mp4Box => !!b);
+  const config = configBox ? payloadOf(u8, configBox) : undefined;
+  if (config) info.config = Array.from(config, hex2).join("");
+
+  switch (configBox?.type) {
+    case "avcC": info.codec = avcCodec(format, config!); break;
+    case "hvcC": info.codec = hevcCodec(format, config!); break;
+    case "vpcC": info.codec = vpCodec(format, config!); break;
+    case "av1C": info.codec = av1Codec(format, config!); break;
+    case "esds": info.codec = mp4aCodec(config!); break;
+    default: info.codec = format === "Opus" ? "opus" : format === "fLaC" ? "flac" : format;
+  }
+  return info;
+}
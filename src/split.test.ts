@@ -0,0 +1,53 @@
+import { splitMP4, splitSegments, splitNames } from "./split";
+import { parseBoxTree, readMoof } from "./mp4Boxes";
+import { concatBytes } from "./mp4Write";
+import { fixtureInit, fixtureFragment } from "./testFixtures";
+
+const init = fixtureInit([{ trackId: 1, timescale: 1000 }]);
+
+// Ten 100 ms samples with keyframes at 0, 0.3, 0.6 and 0.8 s, over two moofs.
+const media = concatBytes([
+  new Uint8Array(fixtureFragment({ seq: 7, dts: 0, durations: Array(5).fill(100), keyframes: [0, 3] })),
+  new Uint8Array(fixtureFragment({ seq: 8, dts: 500, durations: Array(5).fill(100), keyframes: [1, 3] })),
+]);
+
+// mfhd, then tfdt and sample count of every traf.
+function shape(buf: ArrayBuffer) {
+  return parseBoxTree(buf).boxes.filter(b => b.type === "moof").map(m => {
+    const moof = readMoof(buf, m);
+    return [moof.sequence, ...moof.trafs.map(t => [t.baseDecodeTime, t.runs[0].samples.length])];
+  });
+}
+
+test("cuts at keyframes by count, time grid, size and chosen times, renumbering every piece", () => {
+  const split = (rule: Parameters<typeof splitSegments>[2]) => splitSegments(init, media.buffer, rule);
+
+  const byKey = split({ by: "keyframe" });
+  // The second piece crosses the source moof boundary and is written as one traf.
+  expect(byKey.pieces.map(p => shape(p.buf))).toEqual([[[1, [0, 3]]], [[2, [300, 3]]], [[3, [600, 2]]], [[4, [800, 2]]]]);
+  expect(byKey.pieces.map(p => [p.start, +p.duration.toFixed(3)])).toEqual([[0, 0.3], [0.3, 0.3], [0.6, 0.2], [0.8, 0.2]]);
+
+  expect(split({ by: "time", seconds: 0.5 }).pieces.map(p => p.start)).toEqual([0, 0.6]);
+  expect(split({ by: "size", bytes: 20 }).pieces.map(p => shape(p.buf)[0][1])).toEqual([[0, 3], [300, 5], [800, 2]]);
+
+  const chosen = split({ by: "times", at: [0.9, 0.45, 5] });
+  expect(chosen.pieces.map(p => p.start)).toEqual([0, 0.3, 0.8]);
+  expect(chosen.snapped).toBe(2);
+  expect(() => split({ by: "time", seconds: 0 })).toThrow(/more than 0/);
+});
+
+test("splits a whole fragmented file into its ftyp + moov and the pieces", async () => {
+  const whole = concatBytes([new Uint8Array(init), media]).buffer;
+  const r = await splitMP4(whole, { by: "keyframe" });
+  expect(new Uint8Array(r.init)).toEqual(new Uint8Array(init));
+  expect(r.pieces).toHaveLength(4);
+  // Payload bytes come through unchanged and in order.
+  const payload = (buf: ArrayBuffer) => {
+    const mdat = parseBoxTree(buf).boxes.find(b => b.type === "mdat")!;
+    return Array.from(new Uint8Array(buf, mdat.start + 8, mdat.end - mdat.start - 8));
+  };
+  expect(r.pieces.flatMap(p => payload(p.buf))).toEqual([...Array(20).fill(7), ...Array(20).fill(8)]);
+
+  await expect(splitMP4(media.buffer, { by: "keyframe" })).rejects.toThrow(/ftyp \+ moov/);
+  expect(splitNames("talk.mp4", 2)).toEqual({ init: "talk-init.mp4", pieces: ["talk-frag1.m4s", "talk-frag2.m4s"] });
+});
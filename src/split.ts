@@ -0,0 +1,156 @@
+// Splits one MP4 into an init segment plus media fragments: every N seconds, every N bytes, at
+// every keyframe or at chosen times. Cuts land on keyframes of the reference (video) track so
+// every piece decodes on its own, and the other tracks are cut at the same time. Each piece is
+// one moof + mdat with mfhd numbered from 1 and tfdt keeping the samples' decode times, so the
+// pieces play back to back. Progressive files are fragmented with mp4box first.
+
+import { parseBoxTree, readInitInfo, isSyncSample, type TrafInfo } from "./mp4Boxes";
+import { concatBytes } from "./mp4Write";
+import { classifyFragment } from "./mergeMP4";
+import { detectProtection } from "./protection";
+import { readTimed, referenceTrack, writeFragment, type TimedSample } from "./trim";
+
+export type SplitRule =
+  | { by: "time"; seconds: number }
+  | { by: "size"; bytes: number }
+  | { by: "keyframe" }
+  | { by: "times"; at: number[] };     // seconds from the start; each moves back to a keyframe
+
+export interface SplitPiece {
+  buf: ArrayBuffer;
+  start: number;      // seconds from the first sample
+  duration: number;
+}
+
+export interface SplitResult {
+  init: ArrayBuffer;
+  pieces: SplitPiece[];
+  snapped: number;    // chosen times that were moved back to a keyframe
+}
+
+const EPS = 1e-6;
+
+// Piece start times after 0, all on keyframes.
+function cutTimes(rule: SplitRule, keyframes: number[], gopBytes: (from: number, to: number) => number, duration: number) {
+  const later = keyframes.filter(k => k > EPS);
+  let snapped = 0;
+  let cuts: number[] = [];
+  switch (rule.by) {
+    case "keyframe":
+      cuts = later;
+      break;
+    case "time": {
+      // On a fixed grid, each cut waiting for the next keyframe.
+      if (!(rule.seconds > 0)) throw new Error("Split interval must be more than 0 seconds");
+      let next = rule.seconds;
+      for (const k of later) {
+        if (k < next - EPS) continue;
+        cuts.push(k);
+        next = (Math.floor(k / rule.seconds + EPS) + 1) * rule.seconds;
+      }
+      break;
+    }
+    case "size": {
+      // Whole GOPs per piece, cut before the one that would take the piece over the limit.
+      if (!(rule.bytes > 0)) throw new Error("Split size must be more than 0 bytes");
+      const starts = [0, ...later];
+      let acc = 0;
+      starts.forEach((k, i) => {
+        const gop = gopBytes(k, starts[i + 1] ?? Infinity);
+        if (acc > 0 && acc + gop > rule.bytes) { cuts.push(k); acc = 0; }
+        acc += gop;
+      });
+      break;
+    }
+    case "times":
+      for (const t of rule.at) {
+        if (!(t > EPS && t < duration - EPS)) continue;
+        const k = keyframes.filter(k => k <= t + EPS).pop() ?? 0;
+        if (k < t - EPS) snapped++;
+        if (k > EPS) cuts.push(k);
+      }
+      cuts = Array.from(new Set(cuts)).sort((a, b) => a - b);
+      break;
+  }
+  return { cuts, snapped };
+}
+
+// Splits media read against `init`; the media may be a whole fragmented file (ftyp / moov and
+// indexes in it are skipped) or the concatenated fragments of one.
+export function splitSegments(init: ArrayBuffer, media: ArrayBuffer, rule: SplitRule): SplitResult {
+  const info = readInitInfo(init, parseBoxTree(init).boxes);
+  if (!info?.tracks.length) throw new Error("No tracks found in the init segment");
+  if (detectProtection(init)) throw new Error("Encrypted files can't be split (sample encryption data isn't carried over)");
+  const { moofs } = readTimed(media, info);
+  if (!moofs.length) throw new Error("No media fragments to split");
+
+  const timescale = (id: number) => info.tracks.find(t => t.trackId === id)?.timescale || 1;
+  const all = moofs.flatMap(m => m.trafs.flatMap(tt => tt.samples.map(s => ({ s, end: s.t + s.sample.duration / timescale(tt.traf.tfhd.trackId) }))));
+  const duration = Math.max(0, ...all.map(x => x.end));
+  const ref = referenceTrack(moofs, info);
+  const keyframes = Array.from(new Set(moofs.flatMap(m => m.trafs.filter(tt => tt.traf.tfhd.trackId === ref))
+    .flatMap(tt => tt.samples.filter(s => isSyncSample(s.sample.flags)).map(s => s.t)))).sort((a, b) => a - b);
+  const gopBytes = (from: number, to: number) =>
+    all.reduce((n, x) => (x.s.t >= from - EPS && x.s.t < to - EPS ? n + x.s.sample.size : n), 0);
+  const { cuts, snapped } = cutTimes(rule, keyframes, gopBytes, duration);
+
+  const src = new Uint8Array(media);
+  const bounds = [0, ...cuts, Infinity];
+  const pieces: SplitPiece[] = [];
+  for (let i = 0; i + 1 < bounds.length; i++) {
+    const [from, to] = [bounds[i], bounds[i + 1]];
+    // Runs of one track continue the same traf while decode times follow on and the sample
+    // description stays the same.
+    const trafs: Array<{ traf: TrafInfo; samples: TimedSample[] }> = [];
+    const open = new Map<number, { traf: TrafInfo; samples: TimedSample[] }>();
+    for (const m of moofs) {
+      for (const tt of m.trafs) {
+        const kept = tt.samples.filter(s => s.t >= from - EPS && s.t < to - EPS);
+        if (!kept.length) continue;
+        const id = tt.traf.tfhd.trackId;
+        const cur = open.get(id);
+        const last = cur?.samples[cur.samples.length - 1];
+        if (cur && last && last.dts + last.sample.duration === kept[0].dts
+          && cur.traf.tfhd.sampleDescriptionIndex === tt.traf.tfhd.sampleDescriptionIndex) {
+          cur.samples.push(...kept);
+        } else {
+          const next = { traf: tt.traf, samples: kept };
+          trafs.push(next);
+          open.set(id, next);
+        }
+      }
+    }
+    if (!trafs.length) continue;
+    pieces.push({
+      buf: writeFragment(src, pieces.length + 1, trafs).buffer,
+      start: from,
+      duration: Math.min(to, duration) - from,
+    });
+  }
+  return { init, pieces, snapped };
+}
+
+// A fragmented file splits as it is (its ftyp + moov become the init); a progressive one is
+// fragmented first (mp4box is loaded only then). The whole file has to be in memory either way.
+export async function splitMP4(buf: ArrayBuffer, rule: SplitRule): Promise<SplitResult> {
+  const kind = classifyFragment(buf);
+  if (kind === "progressive") {
+    const { transmuxProgressive } = await import("./transmux");
+    const { init, fragments } = await transmuxProgressive(buf);
+    return splitSegments(init, concatBytes(fragments.map(f => new Uint8Array(f))).buffer, rule);
+  }
+  const { boxes } = parseBoxTree(buf);
+  const head = boxes.filter(b => b.type === "ftyp" || b.type === "moov");
+  if (kind !== "init" || !head.some(b => b.type === "moov")) {
+    throw new Error("Not a whole MP4 (split needs a file with its ftyp + moov)");
+  }
+  const src = new Uint8Array(buf);
+  const init = concatBytes(head.map(b => src.subarray(b.start, b.end))).buffer;
+  return splitSegments(init, buf, rule);
+}
+
+// File names for the results, following the names transmuxed rows get.
+export function splitNames(fileName: string, count: number): { init: string; pieces: string[] } {
+  const stem = fileName.replace(/\.[^.]+$/, "");
+  return { init: `${stem}-init.mp4`, pieces: Array.from({ length: count }, (_, i) => `${stem}-frag${i + 1}.m4s`) };
+}
@@ -0,0 +1,150 @@
+// Synthetic fMP4 builders for tests. Boxes carry just enough fields for our parsers.
+
+import { box, fullBox, concatBytes, ascii, u16, u32, u64 } from "./mp4Write";
+
+export interface FixtureTrack {
+  trackId: number;
+  timescale: number;
+  handler?: string;          // "vide" (default) or "soun"
+  defaultDuration?: number;  // trex default_sample_duration
+  codec?: string;            // sample entry type (default "avc1")
+  config?: number;           // distinguishes otherwise identical sample entries
+  width?: number;
+  height?: number;
+  scheme?: string;           // wraps the entry as encv/enca with this protection scheme
+  kid?: string;              // tenc default_KID (32 hex digits) for protected entries
+}
+
+export function hexBytes(hex: string): Uint8Array {
+  return Uint8Array.from(hex.match(/../g) ?? [], b => parseInt(b, 16));
+}
+
+function sampleEntry(t: FixtureTrack): Uint8Array {
+  const codec = t.codec ?? "avc1";
+  const audio = (t.handler ?? "vide") === "soun";
+  const head = new Uint8Array(audio ? 28 : 78);
+  head[7] = 1;   // data_reference_index
+  if (!audio) head.set(u16(t.width ?? 0, t.height ?? 0), 24);
+  const cfg = box(audio ? "esds" : "avcC", u32(t.config ?? 0));
+  if (!t.scheme) return box(codec, head, cfg);
+  const tenc = t.kid ? [box("schi", fullBox("tenc", 0, 0, u32(0x00000108), hexBytes(t.kid)))] : [];
+  const sinf = box("sinf", box("frma", ascii(codec)), fullBox("schm", 0, 0, ascii(t.scheme), u32(0x10000)), ...tenc);
+  return box(audio ? "enca" : "encv", head, cfg, sinf);
+}
+
+export function fixtureInit(tracks: FixtureTrack[] = [{ trackId: 1, timescale: 1000 }]): ArrayBuffer {
+  const traks = tracks.map(t => box("trak",
+    fullBox("tkhd", 0, 3, u32(0, 0, t.trackId, 0, 0), new Uint8Array(60)),
+    box("mdia",
+      fullBox("mdhd", 0, 0, u32(0, 0, t.timescale, 0), u16(0x55c4, 0)),
+      fullBox("hdlr", 0, 0, u32(0), ascii(t.handler ?? "vide"), u32(0, 0, 0), ascii("h\0")),
+      box("minf", box("stbl", fullBox("stsd", 0, 0, u32(1), sampleEntry(t)))),
+    ),
+  ));
+  const trexes = tracks.map(t => fullBox("trex", 0, 0, u32(t.trackId, 1, t.defaultDuration ?? 0, 0, 0)));
+  return concatBytes([
+    box("ftyp", ascii("iso6"), u32(0), ascii("iso6mp41")),
+    box("moov",
+      fullBox("mvhd", 0, 0, u32(0, 0, 1000, 0), new Uint8Array(80)),
+      ...traks,
+      box("mvex", fullBox("mehd", 0, 0, u32(0)), ...trexes),
+    ),
+  ]).buffer;
+}
+
+export interface FixtureFragment {
+  seq: number;
+  trackId?: number;
+  dts: number;
+  durations: number[];      // one entry per sample
+  keyframe?: boolean;       // first sample is sync (default true)
+  keyframes?: number[];     // indices of the sync samples (overrides keyframe)
+  payload?: number;         // byte value filling each sample (default seq)
+  sampleSize?: number;      // bytes per sample (default 4)
+  sample?: Uint8Array;      // exact bytes of every sample (overrides payload / sampleSize)
+}
+
+// One moof + mdat with a trun carrying duration, size and flags per sample.
+export function fixtureFragment(f: FixtureFragment): ArrayBuffer {
+  const size = f.sample?.length ?? f.sampleSize ?? 4;
+  const n = f.durations.length;
+  const sync = (i: number) => (f.keyframes ? f.keyframes.includes(i) : i === 0 && f.keyframe !== false);
+  const flags = (i: number) => (sync(i) ? 0x02000000 : 0x01010000);
+  const samples = f.durations.map((d, i) => u32(d, size, flags(i)));
+  const trun = (dataOffset: number) => fullBox("trun", 0, 0x000701, u32(n, dataOffset), ...samples);
+  const moofFor = (dataOffset: number) => box("moof",
+    fullBox("mfhd", 0, 0, u32(f.seq)),
+    box("traf",
+      fullBox("tfhd", 0, 0x020000, u32(f.trackId ?? 1)),
+      fullBox("tfdt", 1, 0, u64(f.dts)),
+      trun(dataOffset),
+    ),
+  );
+  const moofSize = moofFor(0).length;
+  const data = f.sample
+    ? concatBytes(f.durations.map(() => f.sample!))
+    : new Uint8Array(n * size).fill(f.payload ?? f.seq);
+  const mdat = box("mdat", data);
+  return concatBytes([moofFor(moofSize + 8), mdat]).buffer;
+}
+
+// An init plus `count` back-to-back single-sample fragments of `seconds` each, on track 1.
+export function fixtureStream(count: number, seconds = 2, timescale = 1000): { init: ArrayBuffer; media: ArrayBuffer[] } {
+  const d = seconds * timescale;
+  return {
+    init: fixtureInit([{ trackId: 1, timescale }]),
+    media: Array.from({ length: count }, (_, i) => fixtureFragment({ seq: i + 1, dts: i * d, durations: [d] })),
+  };
+}
+
+export interface FixtureProgressive {
+  timescale: number;
+  durations: number[];      // one entry per sample
+  keyframes: number[];      // indices of the sync samples
+  sampleSize?: number;      // bytes per sample (default 8)
+}
+
+// A regular (non-fragmented) MP4: one avc1 video track with stts / stss / stsz / stco tables
+// and every sample in a single chunk of the mdat.
+export function fixtureProgressive(p: FixtureProgressive): ArrayBuffer {
+  const size = p.sampleSize ?? 8;
+  const n = p.durations.length;
+  const total = p.durations.reduce((a, b) => a + b, 0);
+  const sps = [0x67, 0x42, 0x00, 0x1e, 0x95, 0xa8, 0x28, 0x0f, 0x64];
+  const pps = [0x68, 0xce, 0x38, 0x80];
+  const avcC = box("avcC", Uint8Array.from([1, 0x42, 0x00, 0x1e, 0xff, 0xe1, 0, sps.length, ...sps, 1, 0, pps.length, ...pps]));
+  const entry = new Uint8Array(78);
+  entry[7] = 1;   // data_reference_index
+  entry.set(u16(320, 240), 24);
+  entry.set(u32(0x00480000, 0x00480000), 28);   // 72 dpi
+  entry.set(u16(1), 40);                          // frame_count
+  entry.set(u16(0x0018, 0xffff), 74);             // depth, pre_defined
+  const ftyp = box("ftyp", ascii("isom"), u32(0x200), ascii("isomiso2avc1mp41"));
+  const moovWith = (offset: number) => box("moov",
+    fullBox("mvhd", 0, 0, u32(0, 0, p.timescale, total, 0x00010000), u16(0x0100), new Uint8Array(10),
+      u32(0x00010000, 0, 0, 0, 0x00010000, 0, 0, 0, 0x40000000), new Uint8Array(24), u32(2)),
+    box("trak",
+      fullBox("tkhd", 0, 3, u32(0, 0, 1, 0, total), new Uint8Array(8), u16(0, 0, 0, 0),
+        u32(0x00010000, 0, 0, 0, 0x00010000, 0, 0, 0, 0x40000000), u32(320 << 16, 240 << 16)),
+      box("mdia",
+        fullBox("mdhd", 0, 0, u32(0, 0, p.timescale, total), u16(0x55c4, 0)),
+        fullBox("hdlr", 0, 0, u32(0), ascii("vide"), u32(0, 0, 0), ascii("video\0")),
+        box("minf",
+          fullBox("vmhd", 0, 1, new Uint8Array(8)),
+          box("dinf", fullBox("dref", 0, 0, u32(1), fullBox("url ", 0, 1))),
+          box("stbl",
+            fullBox("stsd", 0, 0, u32(1), box("avc1", entry, avcC)),
+            fullBox("stts", 0, 0, u32(n), ...p.durations.map(d => u32(1, d))),
+            fullBox("stss", 0, 0, u32(p.keyframes.length, ...p.keyframes.map(k => k + 1))),
+            fullBox("stsc", 0, 0, u32(1, 1, n, 1)),
+            fullBox("stsz", 0, 0, u32(0, n, ...Array(n).fill(size))),
+            fullBox("stco", 0, 0, u32(1, offset)),
+          ),
+        ),
+      ),
+    ),
+  );
+  const offset = ftyp.length + moovWith(0).length + 8;
+  const data = Uint8Array.from({ length: n * size }, (_, i) => Math.floor(i / size) + 1);
+  return concatBytes([ftyp, moovWith(offset), box("mdat", data)]).buffer;
+}
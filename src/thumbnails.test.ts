@@ -0,0 +1,35 @@
+import { Blob as NodeBlob } from "buffer";
+import { firstKeyframe } from "./thumbnails";
+import { parseBoxTree, readInitInfo, readMoof, type InitInfo } from "./mp4Boxes";
+import { concatBytes } from "./mp4Write";
+import { fixtureInit, fixtureFragment } from "./testFixtures";
+
+const init = fixtureInit([{ trackId: 1, timescale: 1000 }, { trackId: 2, timescale: 1000, handler: "soun" }]);
+const info = readInitInfo(init, parseBoxTree(init).boxes) as InitInfo;
+
+test("reads the head up to the first keyframe and starts the thumbnail fragment on it", async () => {
+  // Audio, then video with two leading non-sync samples in a second moof, then a large tail.
+  const frag = concatBytes([
+    new Uint8Array(fixtureFragment({ seq: 1, trackId: 2, dts: 4000, durations: Array(6).fill(200), payload: 2 })),
+    new Uint8Array(fixtureFragment({ seq: 2, dts: 4000, durations: Array(6).fill(200), keyframes: [2], payload: 1 })),
+    new Uint8Array(1 << 20),
+  ]);
+  const blob = new NodeBlob([frag]);
+  const sliced: number[] = [];
+  const slice = blob.slice.bind(blob);
+  blob.slice = (start?: number, end?: number) => { sliced.push(end!); return slice(start, end); };
+
+  const buf = (await firstKeyframe(blob as unknown as Blob, info, 16))!;
+  expect(Math.max(...sliced)).toBeLessThan(1024);
+
+  const moofs = parseBoxTree(buf).boxes.filter(b => b.type === "moof");
+  expect(moofs).toHaveLength(1);
+  const trafs = readMoof(buf, moofs[0]).trafs;
+  expect(trafs.map(t => [t.tfhd.trackId, t.baseDecodeTime, t.runs[0].samples.length])).toEqual([[1, 4400, 3], [2, 4400, 3]]);
+  expect(Array.from(new Uint8Array(buf, trafs[0].runs[0].dataStart, 12))).toEqual(Array(12).fill(1));
+});
+
+test("gives up on fragments without a keyframe", async () => {
+  const frag = fixtureFragment({ seq: 1, dts: 0, durations: [100, 100], keyframe: false });
+  expect(await firstKeyframe(new NodeBlob([frag]) as unknown as Blob, info)).toBeNull();
+});
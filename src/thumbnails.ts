@@ -0,0 +1,117 @@
+// Thumbnail of a media fragment's first keyframe. Only the head of the file is read, and its
+// samples are rewritten into one fragment that starts on the first video sync sample, with a
+// short window of every track. That and the init are appended to a hidden <video> through a
+// MediaSource of its own, and the keyframe is drawn to a small canvas.
+
+import { parseBoxTree, readInitInfo, isSyncSample, type InitInfo, type TrafInfo } from "./mp4Boxes";
+import { readTimed, writeFragment, type TimedSample } from "./trim";
+import { describeSampleEntry } from "./sampleEntry";
+
+const STEP_TIMEOUT_MS = 5000;
+// Bytes read from the head of a fragment at first; doubled while the keyframe lies further in.
+const HEAD_BYTES = 256 * 1024;
+// Media kept from the keyframe on, so every track has data at its time.
+const WINDOW_SECONDS = 0.5;
+
+// Resolves on `ok`, rejects on `fail` or after the timeout.
+function once(target: EventTarget, ok: string, fail = "error"): Promise<void> {
+  return new Promise((resolve, reject) => {
+    const done = (err?: Error) => {
+      clearTimeout(timer);
+      target.removeEventListener(ok, onOk);
+      target.removeEventListener(fail, onFail);
+      if (err) reject(err);
+      else resolve();
+    };
+    const onOk = () => done();
+    const onFail = () => done(new Error(`${fail} while waiting for ${ok}`));
+    const timer = setTimeout(() => done(new Error(`timed out waiting for ${ok}`)), STEP_TIMEOUT_MS);
+    target.addEventListener(ok, onOk);
+    target.addEventListener(fail, onFail);
+  });
+}
+
+// The first keyframe of the init's first video track and WINDOW_SECONDS of every track from
+// its decode time (as far as the head holds them), as one moof + mdat with the keyframe's traf
+// first, so that in sequence mode the keyframe lands at 0. Null when there is no video keyframe.
+export async function firstKeyframe(media: Blob, info: InitInfo, headBytes = HEAD_BYTES): Promise<ArrayBuffer | null> {
+  const timescale = (id: number) => info.tracks.find(t => t.trackId === id)?.timescale || 1;
+  const ref = info.tracks.find(t => t.handler === "vide")?.trackId;
+  if (ref === undefined) return null;
+  for (let n = Math.min(headBytes, media.size); ;) {
+    const head = await media.slice(0, n).arrayBuffer();
+    const { moofs } = readTimed(head, info);
+    const trafs = moofs.flatMap(m => m.trafs);
+    const key = trafs.filter(tt => tt.traf.tfhd.trackId === ref).flatMap(tt => tt.samples).find(s => isSyncSample(s.sample.flags));
+    if (!key) {
+      if (n >= media.size) return null;
+      n = Math.min(n * 2, media.size);
+      continue;
+    }
+
+    const from = key.dts / timescale(ref);
+    const kept = new Map<number, { traf: TrafInfo; samples: TimedSample[] }>();
+    for (const tt of trafs) {
+      const id = tt.traf.tfhd.trackId;
+      const samples = tt.samples.filter(s => {
+        const t = s.dts / timescale(id);
+        return t >= from - 1e-6 && t < from + WINDOW_SECONDS && (id !== ref || s.dts >= key.dts);
+      });
+      if (!samples.length) continue;
+      const track = kept.get(id);
+      if (track) track.samples.push(...samples);
+      else kept.set(id, { traf: tt.traf, samples });
+    }
+    const out = Array.from(kept.values()).sort((a, b) => Number(b.traf.tfhd.trackId === ref) - Number(a.traf.tfhd.trackId === ref));
+    const need = Math.max(...out.flatMap(x => x.samples.map(s => s.at + s.sample.size)));
+    if (need <= head.byteLength) return writeFragment(new Uint8Array(head), moofs[0].moof.sequence ?? 0, out).buffer;
+    if (need > media.size) return null;
+    n = need;
+  }
+}
+
+// JPEG data URL, or null when the fragment has no video, is encrypted or can't be decoded here.
+export async function fragmentThumbnail(init: ArrayBuffer, media: Blob | ArrayBuffer, width = 160): Promise<string | null> {
+  const info = readInitInfo(init, parseBoxTree(init).boxes);
+  const entries = info?.tracks.flatMap(t => (t.sampleEntries[0] ? [describeSampleEntry(init, t.sampleEntries[0])] : [])) ?? [];
+  if (!info?.tracks.some(t => t.handler === "vide") || entries.some(e => e.encrypted)) return null;
+  const mime = `video/mp4; codecs="${entries.map(e => e.codec).join(",")}"`;
+  if (typeof MediaSource === "undefined" || !MediaSource.isTypeSupported(mime)) return null;
+  const first = await firstKeyframe(media instanceof Blob ? media : new Blob([media]), info);
+  if (!first) return null;
+
+  const video = document.createElement("video");
+  video.muted = true;
+  video.preload = "auto";
+  const ms = new MediaSource();
+  const url = URL.createObjectURL(ms);
+  video.src = url;
+  try {
+    await once(ms, "sourceopen");
+    const sb = ms.addSourceBuffer(mime);
+    sb.mode = "sequence";
+    for (const part of [init, first]) {
+      sb.appendBuffer(part);
+      await once(sb, "updateend");
+    }
+    if (!video.buffered.length) return null;
+    const seeked = once(video, "seeked");
+    video.currentTime = 0;   // where sequence mode put the keyframe
+    await seeked;
+    if (video.readyState < HTMLMediaElement.HAVE_CURRENT_DATA) await once(video, "loadeddata");
+
+    const canvas = document.createElement("canvas");
+    canvas.width = width;
+    canvas.height = video.videoWidth ? Math.round((width * video.videoHeight) / video.videoWidth) : Math.round((width * 9) / 16);
+    const ctx = canvas.getContext("2d");
+    if (!ctx) return null;
+    ctx.drawImage(video, 0, 0, canvas.width, canvas.height);
+    return canvas.toDataURL("image/jpeg", 0.7);
+  } catch {
+    return null;
+  } finally {
+    video.removeAttribute("src");
+    video.load();
+    URL.revokeObjectURL(url);
+  }
+}
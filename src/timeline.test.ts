@@ -0,0 +1,32 @@
+import { analyzeTimeline } from "./timeline";
+import { fixtureInit, fixtureFragment } from "./testFixtures";
+
+const init = fixtureInit([{ trackId: 1, timescale: 1000 }]);
+const frag = (seq: number, dts: number, durations: number[]) => ({ kind: "media", buf: fixtureFragment({ seq, dts, durations }) });
+
+test("flags gaps, overlaps, duplicates and out-of-order fragments per track", () => {
+  const items = [
+    { kind: "init", buf: init },
+    frag(1, 0, [100, 100]),       // 0–200
+    frag(2, 200, [100]),          // 200–300
+    frag(3, 500, [100]),          // gap of 200 ticks
+    frag(4, 550, [100]),          // overlaps the previous by 50
+    frag(2, 200, [100]),          // duplicate of #2
+    frag(5, 100, [50]),           // jumps back
+  ];
+  const { lanes, issues } = analyzeTimeline(items);
+
+  expect(lanes).toHaveLength(1);
+  expect(lanes[0]).toMatchObject({ init: 0, trackId: 1, start: 0, end: 0.65 });
+  expect(issues).toEqual([
+    { kind: "gap", index: 3, other: 2, trackId: 1, seconds: 0.2 },
+    { kind: "overlap", index: 4, other: 3, trackId: 1, seconds: 0.05 },
+    { kind: "duplicate", index: 5, other: 2, trackId: 1, seconds: 0 },
+    { kind: "out-of-order", index: 6, other: 5, trackId: 1, seconds: 0.1 },
+  ]);
+});
+
+test("reports media without decode times", () => {
+  const bare = { kind: "media", buf: new Uint8Array([0, 0, 0, 8, 0x6d, 0x64, 0x61, 0x74]).buffer };
+  expect(analyzeTimeline([{ kind: "init", buf: init }, bare]).issues).toEqual([{ kind: "no-timing", index: 1, seconds: 0 }]);
+});
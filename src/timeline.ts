@@ -0,0 +1,111 @@
+// Builds a per-track timeline of media fragments from tfdt plus trun/tfhd/trex durations and
+// flags gaps, overlaps, duplicates and out-of-order fragments in list (play) order.
+
+import { parseBoxTree, readInitInfo, readMoof, type InitInfo } from "./mp4Boxes";
+import { assignInits, type GroupItem } from "./initGroups";
+
+// Where one fragment sits on one track's timeline (ticks in the track timescale).
+export interface TimelineSpan {
+  index: number;        // item index in the list
+  init: number;         // item index of the init it was read against
+  trackId: number;
+  timescale: number;
+  start: number;
+  end: number;
+}
+
+export type TimelineIssueKind = "gap" | "overlap" | "duplicate" | "out-of-order" | "no-timing";
+
+export interface TimelineIssue {
+  kind: TimelineIssueKind;
+  index: number;        // the fragment the issue is reported on
+  other?: number;       // the fragment it was compared with
+  trackId?: number;
+  seconds: number;      // size of the gap/overlap/jump (0 where it doesn't apply)
+}
+
+// One (init, track) lane of the timeline.
+export interface TimelineLane {
+  init: number;
+  trackId: number;
+  handler: string;
+  start: number;        // seconds
+  end: number;
+  spans: TimelineSpan[];
+}
+
+export interface TimelineReport {
+  lanes: TimelineLane[];
+  issues: TimelineIssue[];
+}
+
+const seconds = (ticks: number, timescale: number) => ticks / (timescale || 1);
+
+// Per-track spans of one media buffer; a track appears only if every traf for it had a tfdt.
+function spansOf(buf: ArrayBuffer, info: InitInfo): Map<number, { start: number; end: number }> {
+  const trex = info.tracks.flatMap(t => (t.trex ? [t.trex] : []));
+  const out = new Map<number, { start: number; end: number }>();
+  const untimed = new Set<number>();
+  for (const moof of parseBoxTree(buf).boxes.filter(b => b.type === "moof")) {
+    for (const traf of readMoof(buf, moof, trex).trafs) {
+      const id = traf.tfhd.trackId;
+      if (traf.baseDecodeTime === undefined) { untimed.add(id); continue; }
+      const cur = out.get(id);
+      const start = traf.baseDecodeTime;
+      const end = start + traf.duration;
+      out.set(id, cur ? { start: Math.min(cur.start, start), end: Math.max(cur.end, end) } : { start, end });
+    }
+  }
+  untimed.forEach(id => out.delete(id));
+  return out;
+}
+
+export function analyzeTimeline(items: GroupItem[], assignment = assignInits(items)): TimelineReport {
+  const infos = new Map<number, InitInfo | undefined>();
+  const infoOf = (i: number) => {
+    if (!infos.has(i)) infos.set(i, readInitInfo(items[i].buf, parseBoxTree(items[i].buf).boxes));
+    return infos.get(i);
+  };
+  const firstInit = items.findIndex(it => it.kind === "init");
+
+  const lanes = new Map<string, TimelineLane>();
+  const issues: TimelineIssue[] = [];
+  let lastInit = firstInit;
+
+  items.forEach((it, index) => {
+    if (it.kind === "init") { lastInit = index; return; }
+    if (it.kind !== "media") return;
+    // Unmatched media is read against the init before it, like playback does.
+    const init = assignment[index] ?? lastInit;
+    const info = init >= 0 ? infoOf(init) : undefined;
+    const spans = info ? spansOf(it.buf, info) : new Map<number, { start: number; end: number }>();
+    if (!spans.size) { issues.push({ kind: "no-timing", index, seconds: 0 }); return; }
+
+    spans.forEach(({ start, end }, trackId) => {
+      const track = info!.tracks.find(t => t.trackId === trackId);
+      const timescale = track?.timescale || 1;
+      const key = `${init}:${trackId}`;
+      const lane: TimelineLane = lanes.get(key) ?? { init, trackId, handler: track?.handler ?? "", start: Infinity, end: -Infinity, spans: [] };
+      lanes.set(key, lane);
+
+      const span: TimelineSpan = { index, init, trackId, timescale, start, end };
+      const prev = lane.spans[lane.spans.length - 1];
+      const dup = lane.spans.find(s => s.start === start && s.end === end);
+      if (dup) {
+        issues.push({ kind: "duplicate", index, other: dup.index, trackId, seconds: 0 });
+      } else if (prev && start < prev.start) {
+        issues.push({ kind: "out-of-order", index, other: prev.index, trackId, seconds: seconds(prev.start - start, timescale) });
+      } else if (prev && start < prev.end) {
+        issues.push({ kind: "overlap", index, other: prev.index, trackId, seconds: seconds(prev.end - start, timescale) });
+      } else if (prev && start > prev.end) {
+        issues.push({ kind: "gap", index, other: prev.index, trackId, seconds: seconds(start - prev.end, timescale) });
+      }
+
+      lane.spans.push(span);
+      lane.start = Math.min(lane.start, seconds(start, timescale));
+      lane.end = Math.max(lane.end, seconds(end, timescale));
+    });
+  });
+
+  return { lanes: Array.from(lanes.values()), issues };
+}
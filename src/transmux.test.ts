@@ -0,0 +1,26 @@
+import { transmuxProgressive } from "./transmux";
+import { classifyFragment } from "./mergeMP4";
+import { parseBoxTree, readInitInfo, readMoof, isSyncSample, type InitInfo } from "./mp4Boxes";
+import { fixtureProgressive } from "./testFixtures";
+
+test("transmuxes a progressive MP4 into an init plus fragments cut on keyframes", async () => {
+  const mp4 = fixtureProgressive({ timescale: 1000, durations: Array(12).fill(100), keyframes: [0, 3, 6, 9] });
+  expect(classifyFragment(mp4)).toBe("progressive");
+
+  const { init, fragments } = await transmuxProgressive(mp4, 0.25);
+  expect(classifyFragment(init)).toBe("init");
+  const info = readInitInfo(init, parseBoxTree(init).boxes) as InitInfo;
+  const trex = info.tracks.flatMap(t => (t.trex ? [t.trex] : []));
+
+  const trafs = fragments.map(buf => {
+    expect(classifyFragment(buf)).toBe("media");
+    const moof = parseBoxTree(buf).boxes.find(b => b.type === "moof")!;
+    return { buf, ...readMoof(buf, moof, trex).trafs[0] };
+  });
+  expect(trafs.length).toBeGreaterThan(1);
+  expect(trafs.every(t => isSyncSample(t.runs[0].samples[0].flags))).toBe(true);
+  expect(trafs.map(t => t.baseDecodeTime)).toEqual([0, 300, 600, 900]);
+  expect(trafs.reduce((n, t) => n + t.runs[0].samples.length, 0)).toBe(12);
+  // Each fixture sample's bytes hold its 1-based number; the data offsets must land on them.
+  expect(trafs.map(t => new Uint8Array(t.buf)[t.runs[0].dataStart])).toEqual([1, 4, 7, 10]);
+});
@@ -0,0 +1,118 @@
+// Turns a progressive (non-fragmented) MP4 into an init segment plus keyframe-aligned media
+// fragments. mp4box parses the moov and writes the init; the fragments are written here from
+// its sample tables, each cut just before a keyframe of the reference (video) track.
+
+import * as MP4Box from "mp4box";
+import { box, fullBox, concatBytes, u32, u64 } from "./mp4Write";
+
+export interface TransmuxResult {
+  init: ArrayBuffer;
+  fragments: ArrayBuffer[];   // in decode order, each starting on a keyframe with all tracks' samples
+}
+
+// Aim for roughly this much media per fragment; cuts still wait for the next keyframe.
+export const TRANSMUX_FRAGMENT_SECONDS = 4;
+
+// mp4box's sample table entries, as far as they are used here.
+interface TableSample {
+  offset: number;
+  size: number;
+  dts: number;
+  cts: number;
+  duration: number;
+  is_sync: boolean;
+  description_index: number;
+}
+
+interface TrackSamples {
+  id: number;
+  timescale: number;
+  samples: TableSample[];
+}
+
+const SYNC_FLAGS = 0x02000000;       // depends on no other sample
+const NON_SYNC_FLAGS = 0x01010000;   // depends on others, non-sync
+
+// Fragment start times: 0, then each reference keyframe at least `seconds` after the last cut.
+function cutTimes(ref: TrackSamples, seconds: number): number[] {
+  const cuts = [0];
+  for (const s of ref.samples) {
+    const t = s.dts / ref.timescale;
+    if (s.is_sync && t >= cuts[cuts.length - 1] + seconds - 1e-6) cuts.push(t);
+  }
+  return cuts;
+}
+
+// moof + mdat with one traf per track; tfhd/trun are written with every field explicit.
+function writeFragment(src: Uint8Array, seq: number, trafs: Array<{ track: TrackSamples; samples: TableSample[] }>): ArrayBuffer {
+  const data = trafs.map(x => concatBytes(x.samples.map(s => src.subarray(s.offset, s.offset + s.size))));
+  const build = (dataStart: number) => {
+    let offset = dataStart;
+    return box("moof",
+      fullBox("mfhd", 0, 0, u32(seq)),
+      ...trafs.map(({ track, samples }, i) => {
+        const rows = samples.map(s => u32(s.duration, s.size, s.is_sync ? SYNC_FLAGS : NON_SYNC_FLAGS, s.cts - s.dts));
+        const traf = box("traf",
+          fullBox("tfhd", 0, 0x020002, u32(track.id, samples[0].description_index)),
+          fullBox("tfdt", 1, 0, u64(samples[0].dts)),
+          fullBox("trun", 1, 0x000f01, u32(samples.length, offset), ...rows),
+        );
+        offset += data[i].length;
+        return traf;
+      }),
+    );
+  };
+  const moofSize = build(0).length;
+  return concatBytes([build(moofSize + 8), box("mdat", ...data)]).buffer;
+}
+
+export function transmuxProgressive(ab: ArrayBuffer, fragmentSeconds = TRANSMUX_FRAGMENT_SECONDS): Promise<TransmuxResult> {
+  return new Promise((resolve, reject) => {
+    let init = null as ArrayBuffer | null;
+    let video: number | undefined;
+    const tracks: TrackSamples[] = [];
+
+    try {
+      const mp4file = MP4Box.createFile();
+      mp4file.onError = (_module: string, message: string) => reject(new Error(message));
+      mp4file.onReady = (info: any) => {
+        for (const t of info?.tracks ?? []) {
+          const samples = (mp4file as any).getTrackById(t.id)?.samples as TableSample[] | undefined;
+          if (!t?.nb_samples || !samples?.length) continue;
+          // The init only carries tracks set up for segmentation; the segments themselves aren't used.
+          mp4file.setSegmentOptions(t.id, null, {});
+          tracks.push({ id: t.id, timescale: t.timescale || 1, samples });
+          if (video === undefined && t.video) video = t.id;
+        }
+        if (tracks.length) init = mp4file.initializeSegmentation().buffer;
+      };
+
+      const buf = ab as any;
+      buf.fileStart = 0;
+      mp4file.appendBuffer(buf);
+      mp4file.flush();
+    } catch (e) {
+      reject(e instanceof Error ? e : new Error(String(e)));
+      return;
+    }
+
+    if (!init) {
+      reject(new Error("No playable tracks found (moov missing or unsupported)"));
+      return;
+    }
+
+    // Every track is cut at the same times, so each fragment holds all tracks' samples for it.
+    const ref = tracks.find(t => t.id === video) ?? tracks[0];
+    const cuts = cutTimes(ref, fragmentSeconds);
+    const src = new Uint8Array(ab);
+    const fragments: ArrayBuffer[] = [];
+    cuts.forEach((from, i) => {
+      const to = cuts[i + 1] ?? Infinity;
+      const trafs = tracks
+        .map(track => ({ track, samples: track.samples.filter(s => s.dts / track.timescale >= from - 1e-6 && s.dts / track.timescale < to - 1e-6) }))
+        .filter(x => x.samples.length);
+      if (trafs.length) fragments.push(writeFragment(src, fragments.length + 1, trafs));
+    });
+    resolve({ init, fragments });
+  });
+}
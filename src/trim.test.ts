@@ -0,0 +1,39 @@
+import { trimFragment, planTrim } from "./trim";
+import { parseBoxTree, readInitInfo, readMoof, type InitInfo } from "./mp4Boxes";
+import { concatBytes } from "./mp4Write";
+import { fixtureInit, fixtureFragment } from "./testFixtures";
+
+const init = fixtureInit([{ trackId: 1, timescale: 1000 }]);
+const info = readInitInfo(init, parseBoxTree(init).boxes) as InitInfo;
+
+// Ten 100 ms samples with keyframes at 0 and 0.5 s, split over two moofs.
+const frag = concatBytes([
+  new Uint8Array(fixtureFragment({ seq: 1, dts: 9000, durations: Array(5).fill(100), keyframes: [0], payload: 1 })),
+  new Uint8Array(fixtureFragment({ seq: 2, dts: 9500, durations: Array(5).fill(100), keyframes: [0], payload: 2 })),
+]).buffer;
+
+function samplesOf(buf: ArrayBuffer) {
+  return parseBoxTree(buf).boxes.filter(b => b.type === "moof").map(m => {
+    const traf = readMoof(buf, m).trafs[0];
+    const run = traf.runs[0];
+    return { dts: traf.baseDecodeTime, count: run.samples.length, bytes: Array.from(new Uint8Array(buf, run.dataStart, 4 * run.samples.length)) };
+  });
+}
+
+test("moves the in-point back to a keyframe and cuts the tail at sample granularity", () => {
+  const plan = planTrim(frag, info, { in: 0.65, out: 0.82 });
+  expect(plan).toEqual(expect.objectContaining({ in: 0.5, out: 0.82, duration: 1, snapped: true, keyframes: [0, 0.5] }));
+
+  const { buf } = trimFragment(frag, info, { in: 0.65, out: 0.82 });
+  expect(samplesOf(buf!)).toEqual([{ dts: 9500, count: 4, bytes: Array(16).fill(2) }]);
+});
+
+test("copies untouched moofs and rewrites only the boundary one", () => {
+  const { buf } = trimFragment(frag, info, { out: 0.75 });
+  const moofs = parseBoxTree(buf!).boxes.filter(b => b.type === "moof");
+  expect(new Uint8Array(buf!, 0, moofs[0].end)).toEqual(new Uint8Array(frag, 0, moofs[0].end));
+  expect(samplesOf(buf!).map(s => [s.dts, s.count])).toEqual([[9000, 5], [9500, 3]]);
+
+  expect(trimFragment(frag, info, { in: 0, out: 5 }).buf).toBe(frag);
+  expect(trimFragment(frag, info, { out: 0 }).buf).toBeNull();
+});
@@ -0,0 +1,168 @@
+// Trims a media fragment to in/out points at sample granularity. Moofs with samples outside
+// the range get a new tfdt/trun and an mdat holding only the kept samples; untouched moofs are
+// copied as they are. Decoding can only start at a keyframe, so the in-point moves back to the
+// nearest sync sample of the reference (video) track, and every track is cut at that time.
+
+import { parseBoxTree, readMoof, isSyncSample, type InitInfo, type MoofInfo, type Mp4Box, type ResolvedSample, type TrafInfo } from "./mp4Boxes";
+import { box, fullBox, concatBytes, u32, u64 } from "./mp4Write";
+
+// In/out points in seconds from the fragment's first sample; unset means the fragment's edge.
+export interface TrimPoints {
+  in?: number;
+  out?: number;
+}
+
+// What a trim actually keeps.
+export interface TrimPlan {
+  in: number;
+  out: number;
+  duration: number;      // untrimmed length, seconds
+  snapped: boolean;      // in-point moved back to a keyframe
+  keyframes: number[];   // sync sample times of the reference track, seconds
+}
+
+export interface TrimResult {
+  buf: ArrayBuffer | null;   // null when nothing is left
+  plan: TrimPlan;
+}
+
+// One sample with its decode time (ticks, and seconds from the fragment start) and byte offset.
+export interface TimedSample {
+  sample: ResolvedSample;
+  dts: number;
+  t: number;
+  at: number;
+}
+
+export interface TimedTraf {
+  traf: TrafInfo;
+  samples: TimedSample[];
+}
+
+export interface TimedMoof {
+  moof: MoofInfo;
+  mdats: Mp4Box[];
+  trafs: TimedTraf[];
+}
+
+const EPS = 1e-6;
+
+// Sample times per traf; each track's clock starts at its first traf in the buffer.
+export function readTimed(buf: ArrayBuffer, info: InitInfo): { boxes: Mp4Box[]; moofs: TimedMoof[] } {
+  const { boxes } = parseBoxTree(buf);
+  const trex = info.tracks.flatMap(t => (t.trex ? [t.trex] : []));
+  const first = new Map<number, number>();
+  const next = new Map<number, number>();
+  const moofs: TimedMoof[] = [];
+  let cur: TimedMoof | null = null;
+
+  for (const b of boxes) {
+    if (b.type === "mdat" && cur) cur.mdats.push(b);
+    if (b.type !== "moof") continue;
+    // A moof cut short can't be rewritten; it is dropped with its data.
+    cur = null;
+    if (b.truncated) continue;
+    const moof = readMoof(buf, b, trex);
+    const trafs = moof.trafs.map(traf => {
+      const id = traf.tfhd.trackId;
+      const timescale = info.tracks.find(t => t.trackId === id)?.timescale || 1;
+      let dts = traf.baseDecodeTime ?? next.get(id) ?? 0;
+      if (!first.has(id)) first.set(id, dts);
+      const samples = traf.runs.flatMap(run => {
+        let at = run.dataStart;
+        return run.samples.map(sample => {
+          const s = { sample, dts, t: (dts - first.get(id)!) / timescale, at };
+          dts += sample.duration;
+          at += sample.size;
+          return s;
+        });
+      });
+      next.set(id, dts);
+      return { traf, samples };
+    });
+    cur = { moof, mdats: [], trafs };
+    moofs.push(cur);
+  }
+  return { boxes, moofs };
+}
+
+// Keyframes come from the first video track, else the first track with samples.
+export function referenceTrack(moofs: TimedMoof[], info: InitInfo): number | undefined {
+  const present = new Set(moofs.flatMap(m => m.trafs.filter(t => t.samples.length).map(t => t.traf.tfhd.trackId)));
+  return info.tracks.find(t => t.handler === "vide" && present.has(t.trackId))?.trackId ?? Array.from(present)[0];
+}
+
+function planFrom(moofs: TimedMoof[], info: InitInfo, trim: TrimPoints): TrimPlan {
+  const timescale = (id: number) => info.tracks.find(t => t.trackId === id)?.timescale || 1;
+  const ends = moofs.flatMap(m => m.trafs.flatMap(tt => {
+    const last = tt.samples[tt.samples.length - 1];
+    return last ? [last.t + last.sample.duration / timescale(tt.traf.tfhd.trackId)] : [];
+  }));
+  const duration = Math.max(0, ...ends);
+  const ref = referenceTrack(moofs, info);
+  const keyframes = moofs.flatMap(m => m.trafs.filter(tt => tt.traf.tfhd.trackId === ref))
+    .flatMap(tt => tt.samples.filter(s => isSyncSample(s.sample.flags)).map(s => s.t));
+
+  const want = Math.min(Math.max(trim.in ?? 0, 0), duration);
+  const keyframe = keyframes.filter(k => k <= want + EPS).pop();
+  const start = want > EPS ? keyframe ?? 0 : 0;
+  const out = Math.min(Math.max(trim.out ?? duration, start), duration);
+  return { in: start, out, duration, snapped: start < want - EPS, keyframes };
+}
+
+// Works on probe buffers too (see probe.ts): only the moofs are read.
+export function planTrim(buf: ArrayBuffer, info: InitInfo, trim: TrimPoints): TrimPlan {
+  return planFrom(readTimed(buf, info).moofs, info, trim);
+}
+
+// moof + mdat carrying the given samples, one traf per entry; tfhd/trun are written with every
+// field explicit. Other traf children (senc, saio, sbgp...) aren't carried over.
+export function writeFragment(src: Uint8Array, seq: number, trafs: Array<{ traf: TrafInfo; samples: TimedSample[] }>): Uint8Array {
+  trafs = trafs.filter(x => x.samples.length);
+  const data = trafs.map(x => concatBytes(x.samples.map(s => src.subarray(s.at, s.at + s.sample.size))));
+
+  const build = (dataStart: number) => {
+    let offset = dataStart;
+    return box("moof",
+      fullBox("mfhd", 0, 0, u32(seq)),
+      ...trafs.map(({ traf: t, samples }, i) => {
+        const sdi = t.tfhd.sampleDescriptionIndex;
+        const rows = samples.map(({ sample: s }) => u32(s.duration, s.size, s.flags, s.compositionTimeOffset));
+        const traf = box("traf",
+          fullBox("tfhd", 0, 0x020000 | (sdi !== undefined ? 0x02 : 0), u32(t.tfhd.trackId), ...(sdi !== undefined ? [u32(sdi)] : [])),
+          fullBox("tfdt", 1, 0, u64(samples[0].dts)),
+          fullBox("trun", 1, 0x000f01, u32(samples.length, offset), ...rows),
+        );
+        offset += data[i].length;
+        return traf;
+      }),
+    );
+  };
+  const moofSize = build(0).length;
+  return concatBytes([build(moofSize + 8), box("mdat", ...data)]);
+}
+
+export function trimFragment(buf: ArrayBuffer, info: InitInfo, trim: TrimPoints): TrimResult {
+  const src = new Uint8Array(buf);
+  const { boxes, moofs } = readTimed(buf, info);
+  const plan = planFrom(moofs, info, trim);
+  const keep = (s: TimedSample) => s.t >= plan.in - EPS && s.t < plan.out - EPS;
+  const kept = moofs.map(m => m.trafs.map(tt => tt.samples.filter(keep)));
+  const changed = moofs.map((m, i) => m.trafs.some((tt, j) => kept[i][j].length !== tt.samples.length));
+  if (!changed.some(Boolean)) return { buf, plan };
+  if (!kept.some(k => k.some(s => s.length))) return { buf: null, plan };
+
+  const owned = new Set(moofs.flatMap(m => m.mdats));
+  const parts: Uint8Array[] = [];
+  for (const b of boxes) {
+    const i = moofs.findIndex(m => m.moof.box === b);
+    if (i >= 0) {
+      if (!changed[i]) parts.push(src.subarray(b.start, b.end), ...moofs[i].mdats.map(d => src.subarray(d.start, d.end)));
+      else if (kept[i].some(s => s.length)) parts.push(writeFragment(src, moofs[i].moof.sequence ?? 0, moofs[i].trafs.map((tt, j) => ({ traf: tt.traf, samples: kept[i][j] }))));
+    } else if (!owned.has(b) && !["moof", "mdat", "sidx", "mfra"].includes(b.type)) {
+      // Indexes no longer match the trimmed fragments; other boxes (styp, emsg...) are kept.
+      parts.push(src.subarray(b.start, b.end));
+    }
+  }
+  return { buf: concatBytes(parts).buffer, plan };
+}
@@ -0,0 +1,17 @@
+import { zipStore, crc32 } from "./zip";
+import { concatBytes, utf8 } from "./mp4Write";
+
+test("stores entries with CRCs, local headers and a central directory", async () => {
+  expect(crc32(utf8("hello"))).toBe(0x3610a686);
+  const parts = await zipStore([{ name: "a.txt", data: "hello" }, { name: "b.bin", data: new Uint8Array([1, 2, 3]).buffer }]);
+  const zip = concatBytes(parts as Uint8Array[]);
+  const dv = new DataView(zip.buffer);
+
+  expect(dv.getUint32(0, true)).toBe(0x04034b50);
+  expect(dv.getUint32(14, true)).toBe(0x3610a686);
+  expect(Buffer.from(zip.subarray(30, 40)).toString()).toBe("a.txthello");
+  const eocd = zip.length - 22;
+  expect(dv.getUint32(eocd, true)).toBe(0x06054b50);
+  expect(dv.getUint16(eocd + 10, true)).toBe(2);
+  expect(dv.getUint32(dv.getUint32(eocd + 16, true), true)).toBe(0x02014b50);
+});
@@ -0,0 +1,65 @@
+// Minimal zip writer (stored entries, no compression): fragments are already compressed media.
+// Blob entries are read once for their CRC and then referenced, not kept in memory.
+
+import { concatBytes, utf8 } from "./mp4Write";
+
+export interface ZipEntry {
+  name: string;
+  data: Blob | ArrayBuffer | string;
+}
+
+const CRC_TABLE = (() => {
+  const t = new Uint32Array(256);
+  for (let n = 0; n < 256; n++) {
+    let c = n;
+    for (let k = 0; k < 8; k++) c = c & 1 ? 0xedb88320 ^ (c >>> 1) : c >>> 1;
+    t[n] = c >>> 0;
+  }
+  return t;
+})();
+
+export function crc32(data: Uint8Array, crc = 0): number {
+  let c = ~crc >>> 0;
+  for (let i = 0; i < data.length; i++) c = CRC_TABLE[(c ^ data[i]) & 0xff] ^ (c >>> 8);
+  return ~c >>> 0;
+}
+
+// Little-endian header fields.
+function le(...fields: [number, 2 | 4][]): Uint8Array {
+  const out = new Uint8Array(fields.reduce((n, [, w]) => n + w, 0));
+  const dv = new DataView(out.buffer);
+  let p = 0;
+  for (const [v, w] of fields) {
+    if (w === 2) dv.setUint16(p, v, true);
+    else dv.setUint32(p, v >>> 0, true);
+    p += w;
+  }
+  return out;
+}
+
+// Output as parts for `new Blob(parts)`. Without ZIP64, totals must stay under 4 GB.
+export async function zipStore(entries: ZipEntry[]): Promise<Array<Uint8Array | Blob>> {
+  if (entries.length > 0xffff) throw new Error("Too many files for a zip");
+  const parts: Array<Uint8Array | Blob> = [];
+  const central: Uint8Array[] = [];
+  let offset = 0;
+  const DOS_DATE = 0x21;   // 1980-01-01, 00:00
+
+  for (const e of entries) {
+    const name = utf8(e.name);
+    const bytes = typeof e.data === "string" ? utf8(e.data) : e.data instanceof ArrayBuffer ? new Uint8Array(e.data) : null;
+    const size = bytes ? bytes.length : (e.data as Blob).size;
+    const crc = crc32(bytes ?? new Uint8Array(await (e.data as Blob).arrayBuffer()));
+    if (offset + size + 30 + name.length > 0xffffffff) throw new Error("Zip would exceed 4 GB; export the playlist without fragments");
+
+    // version 2.0, flags: UTF-8 names, method 0 (stored)
+    const common: [number, 2 | 4][] = [[20, 2], [0x0800, 2], [0, 2], [0, 2], [DOS_DATE, 2], [crc, 4], [size, 4], [size, 4], [name.length, 2], [0, 2]];
+    parts.push(le([0x04034b50, 4], ...common), name, bytes ?? (e.data as Blob));
+    central.push(le([0x02014b50, 4], [20, 2], ...common, [0, 2], [0, 2], [0, 2], [0, 4], [offset, 4]), name);
+    offset += 30 + name.length + size;
+  }
+
+  const dir = concatBytes(central);
+  parts.push(dir, le([0x06054b50, 4], [0, 2], [0, 2], [entries.length, 2], [entries.length, 2], [dir.length, 4], [offset, 4], [0, 2]));
+  return parts;
+}